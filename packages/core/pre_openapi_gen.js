@@ -12,6 +12,33 @@ const allowedSecurityHeaders = new Set([
   "sessionAuth_header_Authorization",
 ]);
 
+// MFA operations the SDKs depend on: session refresh, cross-device status and next-step lookup, and
+// step-up, which signs in on /mfa/begin with the user's Authorization header. Stop here rather than
+// generate a client without them from a spec that does not publish them yet.
+const requiredOperations = ["mfa#mfaNext", "mfa#mfaStatus", "mfa#mfaTokenRefresh"];
+
+const operations = new Map();
+for (const path of Object.values(data.paths)) {
+  for (const method of Object.values(path)) {
+    if (method?.operationId) {
+      operations.set(method.operationId, method);
+    }
+  }
+}
+
+const missingOperations = requiredOperations.filter((id) => !operations.has(id));
+if (missingOperations.length) {
+  throw new Error(`The FIDO2 API spec is missing ${missingOperations.join(", ")}`);
+}
+
+const begin = operations.get("mfa#mfaBegin");
+const beginAuthorized =
+  begin?.security?.some((sec) => Object.keys(sec).some((key) => allowedSecurityHeaders.has(key))) ||
+  begin?.parameters?.some((param) => param.name === "Authorization" && param.in === "header");
+if (!beginAuthorized) {
+  throw new Error("The FIDO2 API spec does not accept an Authorization header on mfa#mfaBegin");
+}
+
 const extractSchemas = (schema) => {
   if (!schema) return;
 
@@ -35,7 +35,9 @@ export type { MfaOtpRequestResponseBody } from "./models/MfaOtpRequestResponseBo
 export type { MfaOtpVerifyRequestBody } from "./models/MfaOtpVerifyRequestBody";
 export type { MfaPasskeyAuthRequestBody } from "./models/MfaPasskeyAuthRequestBody";
 export type { MfaPasskeyRegRequestBody } from "./models/MfaPasskeyRegRequestBody";
+export type { MfaStepUp } from "./models/MfaStepUp";
 export type { MfaThirdPartyAuthVerifyRequestBody } from "./models/MfaThirdPartyAuthVerifyRequestBody";
+export type { MfaTokenRefreshRequestBody } from "./models/MfaTokenRefreshRequestBody";
 export type { Passkey } from "./models/Passkey";
 export type { PasskeyCollection } from "./models/PasskeyCollection";
 export type { PasskeyOptions } from "./models/PasskeyOptions";
@@ -13,6 +13,20 @@ export type AppError = {
       | "unauthorized"
       | "forbidden"
       | "not_found"
-      | "internal_error";
+      | "internal_error"
+      | "additional_auth_required"
+      | "user_not_found"
+      | "credential_not_found"
+      | "session_expired"
+      | "invalid_otp"
+      | "too_many_requests";
+    /**
+     * Seconds until the request may be repeated.
+     */
+    retryAfter?: number;
+    /**
+     * Number of attempts left to verify a one-time password.
+     */
+    attemptsRemaining?: number;
   };
   
\ No newline at end of file
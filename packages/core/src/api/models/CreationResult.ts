@@ -21,6 +21,10 @@ export type CreationResult = {
      * client data has been computed over it.
      */
     clientDataJSON: string;
+    /**
+     * Client extension results, without secret outputs such as PRF results or large blob contents.
+     */
+    clientExtensionResults?: Record<string, any>;
     /**
      * A base64 encoded byte sequence identifying a public key credential
      * source and its authentication assertions.
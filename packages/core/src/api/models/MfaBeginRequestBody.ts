@@ -4,6 +4,7 @@
 /* tslint:disable */
 
 import type { DeviceInfo } from "./DeviceInfo";
+import type { MfaStepUp } from "./MfaStepUp";
 import type { User } from "./User";
 export type MfaBeginRequestBody = {
   deviceInfo?: DeviceInfo;
@@ -15,5 +16,6 @@ export type MfaBeginRequestBody = {
    * TrustIDs provided with the request
    */
   trustItems?: Record<string, string>;
+  stepUp?: MfaStepUp;
   user?: User;
 };
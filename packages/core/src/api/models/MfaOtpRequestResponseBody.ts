@@ -8,5 +8,13 @@ export type MfaOtpRequestResponseBody = {
      * An opaque session object to be included with the subsequent API call.
      */
     session: string;
+    /**
+     * Seconds until another code may be requested.
+     */
+    resendAfter?: number;
+    /**
+     * Number of attempts left to verify the code.
+     */
+    attemptsRemaining?: number;
   };
   
\ No newline at end of file
@@ -0,0 +1,22 @@
+// Copyright (C) LoginID
+
+/* istanbul ignore file */
+/* tslint:disable */
+
+/**
+ * Re-verifies the signed-in user, who is identified by the JWT in the Authorization header. Tokens issued at the end of the flow carry the auth_time, amr and acr claims of the step-up.
+ */
+export type MfaStepUp = {
+    /**
+     * Maximum age in seconds of the user's last authentication that the caller accepts.
+     */
+    maxAge?: number;
+    /**
+     * Why the user must re-verify, recorded with the session.
+     */
+    reason?: string;
+    /**
+     * Authentication factors the user must complete, as amr values.
+     */
+    requiredFactors?: Array<string>;
+  };
@@ -0,0 +1,13 @@
+// Copyright (C) LoginID
+
+/* istanbul ignore file */
+/* tslint:disable */
+
+export type MfaTokenRefreshRequestBody = {
+    /**
+     * Refresh token issued with a previous token set.
+     */
+    refreshToken: string;
+  };
+  
+  
\ No newline at end of file
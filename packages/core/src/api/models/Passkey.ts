@@ -13,6 +13,10 @@ export type Passkey = {
    * Timestamp in RFC3339 format.
    */
   createdAt: string;
+  /**
+   * Base64url-encoded WebAuthn credential ID
+   */
+  credentialId?: string;
   /**
    * Credential available on multiple devices
    */
@@ -34,4 +38,8 @@ export type Passkey = {
    * Name of the passkey provider
    */
   providerName?: string;
+  /**
+   * Base64url-encoded WebAuthn user handle of the passkey owner
+   */
+  userHandle?: string;
 };
@@ -8,6 +8,7 @@ import type { MfaOtpRequestResponseBody } from "../models/MfaOtpRequestResponseB
 import type { MfaPasskeyAuthRequestBody } from "../models/MfaPasskeyAuthRequestBody";
 import type { MfaOtpRequestRequestBody } from "../models/MfaOtpRequestRequestBody";
 import type { MfaPasskeyRegRequestBody } from "../models/MfaPasskeyRegRequestBody";
+import type { MfaTokenRefreshRequestBody } from "../models/MfaTokenRefreshRequestBody";
 import type { MfaOtpVerifyRequestBody } from "../models/MfaOtpVerifyRequestBody";
 import type { MfaBeginRequestBody } from "../models/MfaBeginRequestBody";
 import type { CancelablePromise } from "../core/CancelablePromise";
@@ -25,29 +26,63 @@ export class MfaService {
   public mfaMfaBegin({
     requestBody,
     userAgent,
+    authorization,
   }: {
     requestBody: MfaBeginRequestBody;
     /**
      * Raw user-agent header as set by a browser
      */
     userAgent?: string;
+    /**
+     * JWT Authorization header of the signed-in user. Required for step-up flows.
+     */
+    authorization?: string;
   }): CancelablePromise<MfaNext> {
     return this.httpRequest.request({
       method: "POST",
       url: "/fido2/v2/mfa/begin",
       headers: {
         "User-Agent": userAgent,
+        Authorization: authorization,
       },
       body: requestBody,
       mediaType: "application/json",
       errors: {
         400: `bad_request: Bad Request response.`,
+        401: `unauthorized: Unauthorized response.`,
         403: `forbidden: Forbidden response.`,
         404: `not_found: Not Found response.`,
         500: `internal_error: Internal Server Error response.`,
       },
     });
   }
+  /**
+   * Get the pending factors of an MFA session.
+   * Returns the factors the MFA session still requires, with their options, so that another device holding only the session can complete one of them.
+   * @returns MfaNext OK response.
+   * @throws ApiError
+   */
+  public mfaMfaNext({
+    authorization,
+  }: {
+    /**
+     * JWT Authorization header
+     */
+    authorization?: string;
+  }): CancelablePromise<MfaNext> {
+    return this.httpRequest.request({
+      method: "GET",
+      url: "/fido2/v2/mfa/next",
+      headers: {
+        Authorization: authorization,
+      },
+      errors: {
+        400: `bad_request: Bad Request response.`,
+        401: `session_expired: Unauthorized response.`,
+        500: `internal_error: Internal Server Error response.`,
+      },
+    });
+  }
   /**
    * Request OTP authentication using one of the available methods.
    * Request OTP.
@@ -203,6 +238,41 @@ export class MfaService {
       },
     });
   }
+  /**
+   * Get the status of an MFA session.
+   * Reports whether an MFA session was completed, for example on another device. Waits up to `wait` seconds for the session to change before answering that it is still pending.
+   * @returns Mfa OK response.
+   * @throws ApiError
+   */
+  public mfaMfaStatus({
+    wait,
+    authorization,
+  }: {
+    /**
+     * Maximum time in seconds to wait for the session to change
+     */
+    wait?: number;
+    /**
+     * JWT Authorization header
+     */
+    authorization?: string;
+  }): CancelablePromise<Mfa> {
+    return this.httpRequest.request({
+      method: "GET",
+      url: "/fido2/v2/mfa/status",
+      headers: {
+        Authorization: authorization,
+      },
+      query: {
+        wait: wait,
+      },
+      errors: {
+        400: `bad_request: Bad Request response.`,
+        401: `additional_auth_required: Unauthorized response.`,
+        500: `internal_error: Internal Server Error response.`,
+      },
+    });
+  }
   /**
    * Verify auth token created by a third party via management API.
    * Verify authentication token received from a third party.
@@ -234,4 +304,27 @@ export class MfaService {
       },
     });
   }
+  /**
+   * Refresh the token set.
+   * Exchange a refresh token for a new token set.
+   * @returns Mfa OK response.
+   * @throws ApiError
+   */
+  public mfaMfaTokenRefresh({
+    requestBody,
+  }: {
+    requestBody: MfaTokenRefreshRequestBody;
+  }): CancelablePromise<Mfa> {
+    return this.httpRequest.request({
+      method: "POST",
+      url: "/fido2/v2/mfa/token/refresh",
+      body: requestBody,
+      mediaType: "application/json",
+      errors: {
+        400: `bad_request: Bad Request response.`,
+        401: `unauthorized: Unauthorized response.`,
+        500: `internal_error: Internal Server Error response.`,
+      },
+    });
+  }
 }
@@ -1,7 +1,9 @@
 // Copyright (C) LoginID
 
+import { SessionEventHandler, SessionEventName } from "../types";
 import { LoginIDConfigValidator } from "../validators";
 import { SessionManager } from "../session";
+import { createHttpRequest } from "../http";
 import { LoginIDConfig } from "./types";
 import { LoginIDService } from "../api";
 
@@ -28,10 +30,59 @@ export class LoginIDBase {
   /**
    * Constructs a new instance of the LoginIDBase class, initializing the service with the provided configuration.
    * @param {LoginIDConfig} config Configuration object for LoginID API, including the base URL.
+   * @param {SessionManager} [session] An existing session manager to share, so tokens and session events stay on one instance.
    */
-  constructor(config: LoginIDConfig) {
+  constructor(config: LoginIDConfig, session?: SessionManager) {
     this.config = new LoginIDConfigValidator(config);
-    this.service = new LoginIDService({ BASE: config.baseUrl });
-    this.session = new SessionManager(config);
+    this.service = new LoginIDService(
+      { BASE: config.baseUrl },
+      createHttpRequest(config),
+    );
+    this.session = session ?? new SessionManager(config);
+  }
+
+  /**
+   * Registers a handler for a session lifecycle event. Events are emitted on every path that sets
+   * or clears tokens, including passkey and OTP sign-ins, MFA completion, refresh and logout.
+   *
+   * - `login`: New tokens were stored after a successful sign-in.
+   * - `logout`: The stored session was cleared.
+   * - `tokenRefreshed`: The token set was refreshed with the refresh token.
+   * - `tokenExpired`: A stored token reached its `exp` claim.
+   *
+   * @param {SessionEventName} event The event to listen to.
+   * @param {SessionEventHandler} handler The handler to invoke.
+   * @returns {() => void} A function that removes the handler.
+   * @example
+   * ```javascript
+   * const lid = new LoginIDWebSDK(config);
+   *
+   * const unsubscribe = lid.on("login", (session) => {
+   *   console.log("Signed in as", session.username);
+   * });
+   *
+   * lid.on("tokenExpired", ({ tokenType }) => {
+   *   console.log(`The ${tokenType} has expired`);
+   * });
+   * ```
+   */
+  public on<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ): () => void {
+    return this.session.on(event, handler);
+  }
+
+  /**
+   * Removes a previously registered session event handler.
+   *
+   * @param {SessionEventName} event The event the handler was registered for.
+   * @param {SessionEventHandler} handler The handler to remove.
+   */
+  public off<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ) {
+    this.session.off(event, handler);
   }
 }
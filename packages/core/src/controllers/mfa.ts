@@ -1,27 +1,76 @@
 // Copyright (C) LoginID
 
 import {
+    AutoReadSmsOtpOptions,
     LoginIDMfaConfig,
     MfaBeginOptions,
+    MfaContinueOnThisDeviceOptions,
+    MfaCrossDeviceOptions,
+    MfaFactor,
     MfaFactorName,
+    MfaFactorPolicy,
+    MfaInfo,
     MfaPerformActionOptions,
+    MfaResumableBeginOptions,
+    MfaResumeOptions,
     MfaSessionResult,
+    OtpResendInfo,
+    StepUpOptions,
+    StepUpResult,
   } from "./types";
+  import {
+    applyFactorPolicy,
+    getMfaSessionExpiry,
+    isStepUpSatisfied,
+    mfaOptions,
+    toCrossDeviceLink,
+    toFactorType,
+    toMfaInfo,
+    toMfaSessionDetails,
+  } from "../defaults";
+  import {
+    ApiError,
+    Mfa,
+    MfaBeginRequestBody,
+    MfaNext,
+    MfaOtpRequestResponseBody,
+    PublicKeyCredentialCreationOptions,
+    PublicKeyCredentialRequestOptions,
+  } from "../api";
+  import {
+    WebAuthnHelper,
+    abortSmsOtpRequest,
+    getDeviceInfo,
+    readSmsOtp,
+  } from "../webauthn";
+  import {
+    assertCanResendOtp,
+    getLastOtpDestination,
+    toOtpDestination,
+    toOtpResendInfo,
+    updateOtpResendInfo,
+    withOtpResendInfo,
+  } from "../helpers";
   import {
     DeviceStore,
     MfaStore,
     TrustStore,
     WalletTrustIdStore,
   } from "../store";
-  import { mfaOptions, toMfaInfo, toMfaSessionDetails } from "../defaults";
-  import { ApiError, Mfa, MfaBeginRequestBody, MfaNext } from "../api";
+  import { LoginIDError, PasskeyError, TimeoutError } from "../errors";
   import { ClientEvents } from "../client-events/client-events";
   import { LoginIDParamValidator } from "../validators";
-  import { defaultDeviceInfo } from "../utils/browser";
-  import { WebAuthnHelper } from "../webauthn";
-  import { LoginIDError } from "../errors";
+  import { delay, withSignal } from "../http";
+  import { LocaleOptions } from "../types";
+  import { getMessage } from "../i18n";
   import { LoginIDBase } from "./base";
   
+  /**
+   * The factor conditions of the MFA flows on this page, keyed by app ID. Conditions are functions
+   * and cannot be stored with the session, so after a page reload they must be given to `resumeFlow`.
+   */
+  const flowConditions = new Map<string, MfaFactorPolicy["conditions"]>();
+  
   export class MFA extends LoginIDBase {
     /**
      * Initializes a new MFA instance with the provided configuration.
@@ -49,7 +98,7 @@ import {
     ): Promise<MfaSessionResult> {
       const appId = this.config.getAppId();
       const deviceId = DeviceStore.getDeviceId(appId);
-      const deviceInfo = await defaultDeviceInfo(deviceId);
+      const deviceInfo = await getDeviceInfo(deviceId);
       const opts = mfaOptions(username, options);
   
       let walletTrustId = "";
@@ -77,17 +126,53 @@ import {
           ...(options.checkoutId && { merchant: options.checkoutId }),
         },
         ...(options.txPayload && { payload: options.txPayload }),
+        ...(options.stepUp && { stepUp: options.stepUp }),
       };
   
-      const mfaNextResult = await this.service.mfa.mfaMfaBegin({
-        requestBody: mfaBeginRequestBody,
-      });
+      // A step-up is bound to the signed-in user by their token
+      const authorization = options.stepUp
+        ? await this.session.getValidToken()
+        : undefined;
+  
+      const mfaNextResult = await withSignal(
+        this.service.mfa.mfaMfaBegin({
+          requestBody: mfaBeginRequestBody,
+          ...(authorization && { authorization }),
+        }),
+        options.signal,
+      );
   
-      const mfaInfo = toMfaInfo(mfaNextResult, username);
+      const { conditions, ...storedPolicy } = options.factorPolicy || {};
+      if (conditions) {
+        flowConditions.set(appId, conditions);
+      } else {
+        flowConditions.delete(appId);
+      }
+  
+      const beginOptions: MfaResumableBeginOptions = {
+        displayName: opts.displayName,
+        usernameType: opts.usernameType,
+        ...(options.txPayload && { txPayload: options.txPayload }),
+        ...(options.checkoutId && { checkoutId: options.checkoutId }),
+        ...(options.factorPolicy && { factorPolicy: storedPolicy }),
+        ...(options.stepUp && { stepUp: options.stepUp }),
+      };
+      const mfaInfo = {
+        ...(await this.toMfaInfoWithPolicy(
+          mfaNextResult,
+          options.factorPolicy || this.config.getConfig().factorPolicy,
+          username,
+        )),
+        beginOptions,
+      };
   
       MfaStore.persistInfo(appId, mfaInfo);
+      this.session.syncMfaInfo(mfaInfo);
   
-      this.session.logout();
+      // The user stays signed in during a step-up until the new tokens are issued
+      if (!options.stepUp) {
+        this.session.logout();
+      }
   
       return toMfaSessionDetails(mfaInfo);
     }
@@ -101,6 +186,7 @@ import {
      *
      * - **OTP Request (email/SMS):** Initiates an OTP request by sending an OTP to the user's contact information. If `options.payload` contains a contact, it will be used; otherwise, the primary contact on record is used.
      * - **OTP Verify (email/SMS):** Verifies the OTP code provided in `options.payload` by validating it against the expected value.
+     * - **SMS autofill:** With `options.autoReadSmsOtp`, an **`otp:sms`** request also reads the code from the SMS with the WebOTP API and verifies it.
      * - **External authentication:** Provide the authorization code in `options.payload`.
      * - **Passkeys:** Uses WebAuthn for authentication or registration.
      *
@@ -114,118 +200,468 @@ import {
     ): Promise<MfaSessionResult> {
       const appId = this.config.getAppId();
       const info = MfaStore.getInfo(appId);
+      const locale = this.config.getLocaleOptions();
       const { payload, session } = LoginIDParamValidator.mfaOptionValidator(
         factorName,
         info,
         options,
+        locale,
       );
   
+      const expiresAt = getMfaSessionExpiry(session);
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        throw new LoginIDError(
+          getMessage("ERROR_MFA_SESSION_EXPIRED", {}, locale),
+          "ERROR_MFA_SESSION_EXPIRED",
+        );
+      }
+  
       switch (factorName) {
         case "passkey:reg":
         case "passkey:auth":
         case "passkey:tx": {
-          const requestOptions =
-            LoginIDParamValidator.validatePasskeyPayload(payload);
-  
-          if ("rpId" in requestOptions) {
-            return await this.invokeMfaApi(appId, info?.username, async () => {
-              const authCompleteRequestBody =
-                await WebAuthnHelper.getNavigatorCredential(
-                  {
-                    action: "proceed",
-                    assertionOptions: requestOptions,
-                    crossAuthMethods: [],
-                    fallbackMethods: [],
-                    session: session,
-                  },
-                  { ...(options.autoFill && { autoFill: options.autoFill }) },
-                );
+          const requestOptions = LoginIDParamValidator.validatePasskeyPayload(
+            payload,
+            locale,
+          );
   
-              if (factorName === "passkey:tx") {
-                return await this.service.mfa.mfaMfaPasskeyTx({
-                  authorization: session,
-                  requestBody: {
-                    assertionResult: authCompleteRequestBody.assertionResult,
-                  },
-                });
-              }
+          return await this.invokeMfaApi(
+            appId,
+            info?.username,
+            factorName,
+            async () =>
+              await this.completePasskeyFactor(
+                factorName,
+                session,
+                requestOptions,
+                options,
+              ),
+          );
+        }
   
-              return await this.service.mfa.mfaMfaPasskeyAuth({
+        case "otp:email":
+        case "otp:sms": {
+          const method = factorName === "otp:email" ? "email" : "sms";
+          const destination = toOtpDestination(method, payload);
+          const otp = info?.otpResends?.[destination];
+          assertCanResendOtp(otp, locale);
+  
+          let response: MfaOtpRequestResponseBody;
+          try {
+            response = await withSignal(
+              this.service.mfa.mfaMfaOtpRequest({
                 authorization: session,
                 requestBody: {
-                  assertionResult: authCompleteRequestBody.assertionResult,
+                  method,
+                  option: payload,
                 },
-              });
-            });
+              }),
+              options.signal,
+            );
+          } catch (error) {
+            this.persistOtpResendInfo(
+              appId,
+              destination,
+              updateOtpResendInfo(otp, error),
+            );
+            throw error;
           }
   
-          if ("rp" in requestOptions) {
-            return await this.invokeMfaApi(appId, info?.username, async () => {
-              if (options.displayName) {
-                requestOptions.user.displayName = options.displayName;
-              }
+          const { session: newSession, ...hint } = response;
+          const { otpResendCooldownMs } = this.config.getConfig();
   
-              const regCompleteRequestBody =
-                await WebAuthnHelper.createNavigatorCredential({
-                  action: "proceed",
-                  registrationRequestOptions: requestOptions,
-                  session: session,
-                });
+          MfaStore.updateSession(appId, newSession);
+          const newMfaInfo = this.persistOtpResendInfo(
+            appId,
+            destination,
+            toOtpResendInfo(hint, otpResendCooldownMs),
+          );
   
-              return await this.service.mfa.mfaMfaPasskeyReg({
-                authorization: session,
-                requestBody: {
-                  creationResult: regCompleteRequestBody.creationResult,
-                },
-              });
-            });
+          if (factorName === "otp:sms" && options.autoReadSmsOtp) {
+            // Runs in the background so the code can still be entered by hand
+            this.autoVerifySmsOtp(options.autoReadSmsOtp, options.signal).catch(
+              (error) => console.error("Error reading the SMS OTP:", error),
+            );
           }
   
-          break;
+          return toMfaSessionDetails(newMfaInfo);
         }
   
-        case "otp:email":
-        case "otp:sms": {
-          const { session: newSession } = await this.service.mfa.mfaMfaOtpRequest(
-            {
-              authorization: session,
-              requestBody: {
-                method: factorName === "otp:email" ? "email" : "sms",
-                option: payload,
-              },
+        case "otp:verify": {
+          const result = await this.invokeMfaApi(
+            appId,
+            info?.username,
+            factorName,
+            async () => {
+              try {
+                return await withSignal(
+                  this.service.mfa.mfaMfaOtpVerify({
+                    authorization: session,
+                    requestBody: {
+                      otp: payload,
+                    },
+                  }),
+                  options.signal,
+                );
+              } catch (error) {
+                // The code being verified is the one sent last
+                const destination = getLastOtpDestination(info?.otpResends);
+                if (destination) {
+                  this.persistOtpResendInfo(
+                    appId,
+                    destination,
+                    updateOtpResendInfo(info?.otpResends?.[destination], error),
+                  );
+                }
+                throw error;
+              }
             },
           );
   
-          MfaStore.updateSession(appId, newSession);
+          // Only an accepted code ends waiting for the SMS, so a mistyped one keeps autofill alive
+          abortSmsOtpRequest();
+          return result;
+        }
   
-          return toMfaSessionDetails(MfaStore.getInfo(appId));
+        case "external": {
+          return await this.invokeMfaApi(
+            appId,
+            info?.username,
+            factorName,
+            async () => {
+              return await withSignal(
+                this.service.mfa.mfaMfaThirdPartyAuthVerify({
+                  authorization: session,
+                  requestBody: {
+                    token: payload,
+                  },
+                }),
+                options.signal,
+              );
+            },
+          );
         }
+      }
   
-        case "otp:verify": {
-          return await this.invokeMfaApi(appId, info?.username, async () => {
-            return await this.service.mfa.mfaMfaOtpVerify({
-              authorization: session,
-              requestBody: {
-                otp: payload,
-              },
-            });
-          });
+      throw new LoginIDError(
+        getMessage("ERROR_MFA_FACTOR_UNSUPPORTED", { factorName }, locale),
+        "ERROR_MFA_FACTOR_UNSUPPORTED",
+      );
+    }
+  
+    /**
+     * Resumes the MFA session stored on this device, for example after a page reload.
+     *
+     * If the stored session is still valid, its details are returned and the flow continues with
+     * `performAction`. If it has expired, a new MFA flow is begun with the same username and
+     * `beginFlow` options, unless `options.restart` is `false`. If no session is stored, or the
+     * stored flow is complete, the current session details are returned as is.
+     *
+     * The conditions of a `factorPolicy` given to `beginFlow` are not stored with the session. They
+     * are kept for the lifetime of the page; after a reload, pass them again as
+     * `options.factorConditions` so they keep applying to the remaining factors.
+     *
+     * @param {MfaResumeOptions} [options={}] - Optional parameters for resuming the MFA session.
+     * @returns {Promise<MfaSessionResult>} - A promise resolving to the resumed or restarted MFA session result.
+     * @throws {LoginIDError} If the session has expired and cannot be restarted.
+     */
+    async resumeFlow(options: MfaResumeOptions = {}): Promise<MfaSessionResult> {
+      const appId = this.config.getAppId();
+      const info = MfaStore.getInfo(appId);
+      const details = this.getMfaSessionDetails();
+  
+      if (!info?.session || details.isComplete) {
+        return details;
+      }
+  
+      if (options.factorConditions) {
+        flowConditions.set(appId, options.factorConditions);
+      }
+  
+      if (!details.isExpired) {
+        this.session.syncMfaInfo(info);
+        return details;
+      }
+  
+      if (options.restart === false || !info.username) {
+        throw new LoginIDError(
+          getMessage(
+            "ERROR_MFA_SESSION_EXPIRED",
+            {},
+            this.config.getLocaleOptions(),
+          ),
+          "ERROR_MFA_SESSION_EXPIRED",
+        );
+      }
+  
+      const factorPolicy = info.beginOptions?.factorPolicy;
+      return await this.beginFlow(info.username, {
+        ...info.beginOptions,
+        ...(factorPolicy && {
+          factorPolicy: {
+            ...factorPolicy,
+            conditions: options.factorConditions ?? flowConditions.get(appId),
+          },
+        }),
+        ...(options.signal && { signal: options.signal }),
+      });
+    }
+  
+    /**
+     * Re-verifies the signed-in user before a sensitive action.
+     *
+     * If the user authenticated within `options.maxAge` seconds with all of `options.requiredFactors`,
+     * the current tokens are returned. Otherwise an MFA flow bound to the signed-in user is begun,
+     * asking only for the missing factors. If a passkey can satisfy it, the passkey is requested right
+     * away; if not, or if the passkey is cancelled, continue the flow with `performAction`. The tokens
+     * issued on completion carry the new `auth_time` and `amr` claims.
+     *
+     * @param {StepUpOptions} [options={}] - The step-up requirements.
+     * @returns {Promise<StepUpResult>} - A promise resolving to the current or stepped-up session result.
+     * @throws {LoginIDError} If no user is signed in.
+     *
+     * @example
+     * ```javascript
+     * import { LoginIDMfa } from "@loginid/core/mfa";
+     *
+     * const lid = new LoginIDMfa({ baseUrl: process.env.BASE_URL });
+     *
+     * let result = await lid.stepUp({
+     *   maxAge: 300,
+     *   requiredFactors: ["passkey"],
+     *   reason: "Change payout account",
+     * });
+     *
+     * if (!result.isComplete) {
+     *   result = await lid.performAction(result.nextAction);
+     * }
+     * ```
+     */
+    async stepUp(options: StepUpOptions = {}): Promise<StepUpResult> {
+      const info = this.session.getSessionInfo();
+      if (!info?.username) {
+        throw new LoginIDError(
+          getMessage(
+            "ERROR_STEP_UP_SESSION_REQUIRED",
+            {},
+            this.config.getLocaleOptions(),
+          ),
+          "ERROR_STEP_UP_SESSION_REQUIRED",
+        );
+      }
+  
+      if (isStepUpSatisfied(info, options)) {
+        return {
+          ...toMfaSessionDetails(
+            { username: info.username },
+            this.session.getTokenSet(),
+          ),
+          isComplete: true,
+          isStepUpRequired: false,
+        };
+      }
+  
+      const { maxAge, requiredFactors, reason, signal } = options;
+      let result = await this.beginFlow(info.username, {
+        stepUp: {
+          ...(maxAge !== undefined && { maxAge }),
+          ...(requiredFactors && { requiredFactors }),
+          ...(reason && { reason }),
+        },
+        signal,
+      });
+  
+      if (result.nextAction === "passkey:auth") {
+        try {
+          result = await this.performAction("passkey:auth", { signal });
+        } catch (error) {
+          // A failed passkey leaves the flow open for the remaining factors
+          if (!(error instanceof PasskeyError)) {
+            throw error;
+          }
         }
+      }
   
-        case "external": {
-          return await this.invokeMfaApi(appId, info?.username, async () => {
-            return await this.service.mfa.mfaMfaThirdPartyAuthVerify({
-              authorization: session,
-              requestBody: {
-                token: payload,
-              },
-            });
-          });
+      return { ...result, isStepUpRequired: true };
+    }
+  
+    /**
+     * Hands the current MFA session off to another device, such as the user's phone, to complete a
+     * passkey factor there, and waits on this device until the session completes.
+     *
+     * The link passed to `options.onLink` carries only the session and the factor name. Render it as a
+     * QR code or send it as a deep link; the page it opens should call `continueOnThisDevice`. Once the
+     * other device completes the factor, the MFA session details are updated here just as if
+     * `performAction` had been called on this device.
+     *
+     * @param {MfaCrossDeviceOptions} options - The link callback, factor and polling options.
+     * @returns {Promise<MfaSessionResult>} - A promise resolving to the updated MFA session result.
+     * @throws {TimeoutError} If the other device does not complete the factor within `options.timeoutMs`.
+     */
+    async startCrossDeviceFlow(
+      options: MfaCrossDeviceOptions,
+    ): Promise<MfaSessionResult> {
+      const appId = this.config.getAppId();
+      const info = MfaStore.getInfo(appId);
+      const factorName =
+        options.factorName ||
+        (info?.next?.some(
+          (factor: MfaFactor) => factor.action.name === "passkey:reg",
+        )
+          ? "passkey:reg"
+          : "passkey:auth");
+      const { session } = LoginIDParamValidator.mfaOptionValidator(
+        factorName,
+        info,
+        {},
+        this.config.getLocaleOptions(),
+      );
+  
+      const link = toCrossDeviceLink(options.url || window.location.href, {
+        session,
+        factorName,
+      });
+      options.onLink(link);
+  
+      return await this.invokeMfaApi(appId, info?.username, factorName, () =>
+        this.waitForMfaSession(session, options),
+      );
+    }
+  
+    /**
+     * Completes an MFA passkey factor handed off from another device with `startCrossDeviceFlow`.
+     *
+     * The link carries only the session, so the factor value is fetched from LoginID and no MFA
+     * session needs to exist on this device. No tokens are stored here: only the originating device
+     * signs in, picking up the result on its own.
+     *
+     * @param {string} [link=window.location.href] - The cross-device link. Defaults to the current page.
+     * @param {MfaContinueOnThisDeviceOptions} [options={}] - Optional parameters for the passkey factor.
+     * @returns {Promise<void>} - A promise that resolves once the factor is completed.
+     */
+    async continueOnThisDevice(
+      link: string = window.location.href,
+      options: MfaContinueOnThisDeviceOptions = {},
+    ): Promise<void> {
+      const locale = this.config.getLocaleOptions();
+      const { session, factorName } =
+        LoginIDParamValidator.validateCrossDeviceLink(link, locale);
+  
+      const mfaNextResult = await withSignal(
+        this.service.mfa.mfaMfaNext({ authorization: session }),
+        options.signal,
+      );
+      const { payload, session: nextSession } =
+        LoginIDParamValidator.mfaOptionValidator(
+          factorName,
+          toMfaInfo(mfaNextResult),
+          {},
+          locale,
+        );
+      const requestOptions = LoginIDParamValidator.validatePasskeyPayload(
+        payload,
+        locale,
+      );
+  
+      try {
+        await this.completePasskeyFactor(
+          factorName,
+          nextSession,
+          requestOptions,
+          options,
+        );
+      } catch (error) {
+        // The originating device continues with the factors that remain
+        const hasNextStep =
+          error instanceof ApiError &&
+          error.status === 401 &&
+          !!error.body?.session;
+        if (!hasNextStep) {
+          throw error;
         }
       }
+    }
   
-      throw new LoginIDError(
-        `MFA factor ${factorName} is not supported in the current MFA flow.`,
+    /**
+     * Creates or gets the passkey of a passkey factor and submits it to the MFA session.
+     *
+     * @param {MfaFactorName} factorName - The passkey factor being performed.
+     * @param {string} session - The MFA session.
+     * @param {PublicKeyCredentialCreationOptions | PublicKeyCredentialRequestOptions} requestOptions - The parsed factor value.
+     * @param {MfaPerformActionOptions} options - The autofill, display name and abort options.
+     * @returns {Promise<Mfa>} - The token set if the flow is complete.
+     * @throws {ApiError} With status 401 and the next `MfaNext` if more factors are required.
+     */
+    private async completePasskeyFactor(
+      factorName: MfaFactorName,
+      session: string,
+      requestOptions:
+        PublicKeyCredentialCreationOptions | PublicKeyCredentialRequestOptions,
+      options: MfaPerformActionOptions,
+    ): Promise<Mfa> {
+      const locale = this.config.getLocaleOptions();
+  
+      if ("rp" in requestOptions) {
+        if (options.displayName) {
+          requestOptions.user.displayName = options.displayName;
+        }
+  
+        const regCompleteRequestBody =
+          await WebAuthnHelper.createNavigatorCredential(
+            {
+              action: "proceed",
+              registrationRequestOptions: requestOptions,
+              session: session,
+            },
+            { locale },
+          );
+  
+        return await withSignal(
+          this.service.mfa.mfaMfaPasskeyReg({
+            authorization: session,
+            requestBody: {
+              creationResult: regCompleteRequestBody.creationResult,
+            },
+          }),
+          options.signal,
+        );
+      }
+  
+      const authCompleteRequestBody =
+        await WebAuthnHelper.getNavigatorCredential(
+          {
+            action: "proceed",
+            assertionOptions: requestOptions,
+            crossAuthMethods: [],
+            fallbackMethods: [],
+            session: session,
+          },
+          {
+            ...(options.autoFill && { autoFill: options.autoFill }),
+            locale,
+          },
+        );
+  
+      if (factorName === "passkey:tx") {
+        return await withSignal(
+          this.service.mfa.mfaMfaPasskeyTx({
+            authorization: session,
+            requestBody: {
+              assertionResult: authCompleteRequestBody.assertionResult,
+            },
+          }),
+          options.signal,
+        );
+      }
+  
+      return await withSignal(
+        this.service.mfa.mfaMfaPasskeyAuth({
+          authorization: session,
+          requestBody: {
+            assertionResult: authCompleteRequestBody.assertionResult,
+          },
+        }),
+        options.signal,
       );
     }
   
@@ -245,6 +681,163 @@ import {
       return toMfaSessionDetails(info, tokenSet);
     }
   
+    /**
+     * Retrieves the locale and messages the SDK messages of this instance are resolved with.
+     *
+     * @returns {LocaleOptions} - The locale options.
+     */
+    getLocaleOptions(): LocaleOptions {
+      return this.config.getLocaleOptions();
+    }
+  
+    /**
+     * Waits until an MFA session is completed elsewhere, long-polling the session status.
+     *
+     * @param {string} session - The MFA session handed off to the other device.
+     * @param {MfaCrossDeviceOptions} options - The polling interval, timeout and abort signal.
+     * @returns {Promise<Mfa>} - The token set once the session is complete.
+     * @throws {ApiError} With status 401 and the next `MfaNext` if more factors are required.
+     */
+    private async waitForMfaSession(
+      session: string,
+      options: MfaCrossDeviceOptions,
+    ): Promise<Mfa> {
+      const {
+        pollIntervalMs = 2000,
+        timeoutMs = 5 * 60 * 1000,
+        signal,
+      } = options;
+      const deadline = Date.now() + timeoutMs;
+  
+      while (Date.now() < deadline) {
+        const remainingSeconds = Math.floor((deadline - Date.now()) / 1000);
+        const result: Mfa | undefined = await withSignal(
+          this.service.mfa.mfaMfaStatus({
+            authorization: session,
+            wait: Math.min(30, remainingSeconds),
+          }),
+          signal,
+        );
+  
+        // The session is still pending when the server answers with 204 and no body
+        if (result) {
+          return result;
+        }
+  
+        await withSignal(delay(pollIntervalMs), signal);
+      }
+  
+      throw new TimeoutError(
+        `MFA session was not completed within ${timeoutMs}ms`,
+        timeoutMs,
+      );
+    }
+  
+    /**
+     * Waits for the SMS with the WebOTP API and verifies the code read from it with `otp:verify`.
+     * Errors thrown by the callbacks are logged, since no caller awaits the result.
+     *
+     * @param {AutoReadSmsOtpOptions<MfaSessionResult>} autoRead - The callbacks and timeout.
+     * @param {AbortSignal} [signal] - The signal of the `otp:sms` request, which stops waiting.
+     * @returns {Promise<void>}
+     */
+    private async autoVerifySmsOtp(
+      autoRead: AutoReadSmsOtpOptions<MfaSessionResult>,
+      signal?: AbortSignal,
+    ): Promise<void> {
+      const code = await readSmsOtp({ signal, timeoutMs: autoRead.timeoutMs });
+      if (!code) {
+        return;
+      }
+  
+      let result: MfaSessionResult;
+      try {
+        result = await this.performAction("otp:verify", {
+          payload: code,
+          ...(signal && { signal }),
+        });
+      } catch (error) {
+        try {
+          autoRead.onError?.(error);
+        } catch (handlerError) {
+          console.error("Error in autoReadSmsOtp onError:", handlerError);
+        }
+        return;
+      }
+  
+      try {
+        autoRead.onVerified(result);
+      } catch (handlerError) {
+        console.error("Error in autoReadSmsOtp onVerified:", handlerError);
+      }
+    }
+  
+    /**
+     * Stores the resend state of the last one-time password to a destination with the MFA session.
+     *
+     * @param {string} appId - The application ID associated with the MFA session.
+     * @param {string} destination - The destination of the one-time password.
+     * @param {OtpResendInfo} [otp] - The resend state.
+     * @returns {MfaInfo} - The updated MFA information.
+     */
+    private persistOtpResendInfo(
+      appId: string,
+      destination: string,
+      otp?: OtpResendInfo,
+    ): MfaInfo {
+      const stored = MfaStore.getInfo(appId);
+      const info: MfaInfo = {
+        ...stored,
+        ...(otp && {
+          otpResends: withOtpResendInfo(stored?.otpResends, destination, otp),
+        }),
+      };
+  
+      MfaStore.persistInfo(appId, info);
+      this.session.syncMfaInfo(info);
+  
+      return info;
+    }
+  
+    /**
+     * Returns the factor policy of the stored MFA flow: the policy given to `beginFlow` with the
+     * conditions known on this page, or the policy of the configuration.
+     *
+     * @param {string} appId - The application ID associated with the MFA session.
+     * @returns {MfaFactorPolicy | undefined} - The factor policy.
+     */
+    private getFlowPolicy(appId: string): MfaFactorPolicy | undefined {
+      const factorPolicy = MfaStore.getInfo(appId)?.beginOptions?.factorPolicy;
+      if (!factorPolicy) {
+        return this.config.getConfig().factorPolicy;
+      }
+  
+      const conditions = flowConditions.get(appId);
+      return { ...factorPolicy, ...(conditions && { conditions }) };
+    }
+  
+    /**
+     * Converts an `MfaNext` result into an `MfaInfo` object, applying the factor policy of the flow.
+     *
+     * @param {MfaNext} mfaNextResult - The result from an MFA authentication step.
+     * @param {MfaFactorPolicy} [policy] - The factor policy of the flow.
+     * @param {string} [username] - The username associated with the MFA session.
+     * @returns {Promise<MfaInfo>} - The MFA information with the factors to offer.
+     */
+    private async toMfaInfoWithPolicy(
+      mfaNextResult: MfaNext,
+      policy?: MfaFactorPolicy,
+      username?: string,
+    ): Promise<MfaInfo> {
+      const info = toMfaInfo(mfaNextResult, username);
+  
+      return {
+        ...info,
+        next: await applyFactorPolicy(info.next || [], policy),
+        ...(policy?.priority && { priority: policy.priority }),
+      };
+    }
+  
     /**
      * Handles the execution of an MFA API request and updates the MFA session state.
      *
@@ -254,14 +847,19 @@ import {
      *
      * @param {string} appId - The application ID associated with the MFA session.
      * @param {string} [username=""] - The username, if available.
+     * @param {MfaFactorName} factorName - The MFA factor being completed, recorded in the session info.
      * @param {() => Promise<Mfa>} fn - A function that performs the MFA API request.
      * @returns {Promise<MfaSessionResult>} - The updated MFA session result.
      */
     private async invokeMfaApi(
       appId: string,
       username: string = "",
+      factorName: MfaFactorName,
       fn: () => Promise<Mfa>,
     ): Promise<MfaSessionResult> {
+      const info = MfaStore.getInfo(appId);
+      const factors = [...(info?.factors || []), toFactorType(factorName)];
+  
       try {
         const mfaSuccessResult = await fn();
         const mfaInfo = MfaStore.getInfo(appId);
@@ -270,21 +868,32 @@ import {
           ...(username && { username }),
           flow: mfaInfo?.flow,
           next: [],
+          factors,
         });
   
-        this.session.setTokenSet(mfaSuccessResult);
         DeviceStore.persistDeviceId(appId, mfaSuccessResult.deviceId);
+        this.session.setTokenSet(mfaSuccessResult);
   
         const newMfaInfo = MfaStore.getInfo(appId);
+        this.session.syncMfaInfo(newMfaInfo);
   
         return toMfaSessionDetails(newMfaInfo, mfaSuccessResult);
       } catch (error) {
         if (error instanceof ApiError) {
           if (error.status === 401 && error.body.session) {
             const mfaNextResult = error.body as MfaNext;
-            const mfaInfo = toMfaInfo(mfaNextResult, username);
+            const mfaInfo = {
+              ...(await this.toMfaInfoWithPolicy(
+                mfaNextResult,
+                this.getFlowPolicy(appId),
+                username,
+              )),
+              factors,
+              ...(info?.beginOptions && { beginOptions: info.beginOptions }),
+            };
   
             MfaStore.persistInfo(appId, mfaInfo);
+            this.session.syncMfaInfo(mfaInfo);
   
             return toMfaSessionDetails(mfaInfo);
           }
@@ -300,6 +909,7 @@ import {
             service.reportError(mfaInfo.session, error).then((result) => {
               if (result?.session) {
                 MfaStore.updateSession(appId, result.session);
+                this.session.syncMfaInfo(MfaStore.getInfo(appId));
               }
             });
           }
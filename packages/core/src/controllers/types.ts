@@ -1,6 +1,16 @@
 // Copyright (C) LoginID
 
-import { User, Mfa, MfaAction } from "../api";
+import {
+  CookieOptions,
+  HttpMiddleware,
+  HttpRequestConstructor,
+  MessageCatalog,
+  RetryOptions,
+  TokenStorage,
+  TokenStorageType,
+  TokenVerificationOptions,
+} from "../types";
+import { User, Mfa, MfaAction, MfaStepUp } from "../api";
 
 export type RequireProps<T, K extends keyof T> = T & Required<Pick<T, K>>;
 
@@ -15,6 +25,91 @@ export interface MfaInfo {
   flow?: MfaFlow;
   next?: MfaAction[];
   session?: string;
+  factors?: string[];
+  beginOptions?: MfaResumableBeginOptions;
+  priority?: MfaFactorName[];
+  otpResends?: OtpResendInfos;
+}
+
+/**
+ * When the last one-time password was sent and when another may be requested, in milliseconds
+ * since the epoch.
+ */
+export interface OtpResendInfo {
+  sentAt?: number;
+  canResendAt: number;
+  attemptsRemaining?: number;
+}
+
+/**
+ * The resend state of the one-time passwords sent to a user, keyed by destination. See `toOtpDestination`.
+ */
+export type OtpResendInfos = Record<string, OtpResendInfo>;
+
+/**
+ * The resend state of the last one-time password sent to the user.
+ */
+export interface OtpResendStatus {
+  /**
+   * When the last one-time password was sent.
+   */
+  otpSentAt?: Date;
+
+  /**
+   * When another one-time password may be requested. Requesting one earlier fails with an
+   * `OtpResendTooEarlyError`.
+   */
+  canResendAt?: Date;
+
+  /**
+   * The number of attempts left to verify the one-time password, if reported by the server.
+   */
+  attemptsRemaining?: number;
+}
+
+/**
+ * Decides whether an MFA factor may be offered. Rejections are treated as `false`.
+ */
+export type MfaFactorCondition = (
+  factorName: MfaFactorName,
+) => boolean | Promise<boolean>;
+
+/**
+ * Controls which MFA factors are offered and in which order.
+ */
+export interface MfaFactorPolicy {
+  /**
+   * The factors in order of preference. `remainingFactors` are sorted in this order and `nextAction`
+   * is the first available factor of this list. Factors that are not listed keep their order after
+   * the listed ones.
+   */
+  priority?: MfaFactorName[];
+
+  /**
+   * Factors that are never offered, for example **`["otp:sms"]`** on markets without SMS.
+   */
+  exclude?: MfaFactorName[];
+
+  /**
+   * Preconditions a factor must meet to be offered, evaluated whenever the server returns the
+   * next factors.
+   *
+   * Example: Only offer passkey authentication on devices with a platform authenticator:
+   * ```javascript
+   * { "passkey:auth": () => isPlatformAuthenticatorAvailable() }
+   * ```
+   */
+  conditions?: Partial<Record<MfaFactorName, MfaFactorCondition>>;
+}
+
+export type MfaCrossDeviceFactorName = Extract<
+  MfaFactorName,
+  "passkey:auth" | "passkey:reg"
+>;
+
+export interface MfaCrossDeviceHandoff {
+  session: string;
+  factorName: MfaCrossDeviceFactorName;
 }
 
 /**
@@ -37,6 +132,85 @@ export interface LoginIDConfig {
    * If true, disables sending analytics/events to LoginID. Defaults to false.
    */
   disableAnalytics?: boolean;
+
+  /**
+   * Where session tokens are stored. Either one of the built-in backends or a custom `TokenStorage`
+   * implementation. Defaults to **`cookie`** in browsers and **`memory`** elsewhere.
+   */
+  tokenStorage?: TokenStorageType | TokenStorage;
+
+  /**
+   * Attributes applied to the cookies written by the **`cookie`** token storage,
+   * such as `Secure`, `SameSite`, `Path` and `Domain`.
+   */
+  cookieOptions?: CookieOptions;
+
+  /**
+   * If true, propagates login, logout, token refresh and MFA session updates to other tabs of
+   * the same application using `BroadcastChannel`, falling back to `storage` events. Tokens are not
+   * sent; other tabs read them from their own token storage. Defaults to false.
+   */
+  crossTabSync?: boolean;
+
+  /**
+   * Options for verifying token signatures and claims with `verifyToken()`, such as the JWKS URL,
+   * the expected issuer and audience, and the tolerated clock skew.
+   */
+  tokenVerification?: TokenVerificationOptions;
+
+  /**
+   * Retry policy for API requests that are safe to repeat. Retries are enabled by default.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Maximum time in milliseconds an API request may take, including retries, before it fails with a
+   * `TimeoutError`. Requests do not time out if omitted. Long-poll requests, such as waiting for a
+   * cross-device MFA session, may additionally take as long as the server is asked to hold them.
+   */
+  requestTimeoutMs?: number;
+
+  /**
+   * Middleware invoked around every API request, for example to add tracing headers or log calls.
+   */
+  middleware?: HttpMiddleware[];
+
+  /**
+   * A custom HTTP client for API requests. Retries, timeouts and middleware are implemented by
+   * `LoginIDHttpRequest`; extend it to keep them. Defaults to `LoginIDHttpRequest`.
+   */
+  httpRequest?: HttpRequestConstructor;
+
+  /**
+   * The locale of SDK error messages, as a BCP 47 language tag such as `fr` or `pt-BR`.
+   * Bundled locales are `en`, `de`, `es`, `fr`, `it`, `ja`, `ko`, `pt` and `zh`. Defaults to **`en`**.
+   * The locale applies to this SDK instance only; use `setLocale` to change the default of all instances.
+   */
+  locale?: string;
+
+  /**
+   * Messages keyed by locale that override or extend the bundled translations, for example
+   * `{ fr: { ERROR_PASSKEY_EXISTS: "..." } }`. The messages apply to this SDK instance only.
+   */
+  messages?: Record<string, MessageCatalog>;
+
+  /**
+   * The relying party ID of the application's passkeys, used to keep authenticators in sync through the
+   * WebAuthn Signal API. Defaults to the host name of the page.
+   */
+  rpId?: string;
+
+  /**
+   * Controls which MFA factors are offered and in which order, for example to disable SMS OTP or to
+   * prefer passkey authentication over registration. Applied to `remainingFactors` and `nextAction`.
+   */
+  factorPolicy?: MfaFactorPolicy;
+
+  /**
+   * Minimum time in milliseconds between two one-time password requests for the same user, method
+   * and contact, used when the server does not send its own hint. Defaults to **`30000`**.
+   */
+  otpResendCooldownMs?: number;
 }
 
 /**
@@ -52,6 +226,18 @@ export interface LoginIDMfaConfig {
    * The optional app ID for specific application.
    */
   appId?: string;
+
+  /**
+   * Controls which MFA factors are offered and in which order, for example to disable SMS OTP or to
+   * prefer passkey authentication over registration. Applied to `remainingFactors` and `nextAction`.
+   */
+  factorPolicy?: MfaFactorPolicy;
+
+  /**
+   * Minimum time in milliseconds between two one-time password requests for the same user, method
+   * and contact, used when the server does not send its own hint. Defaults to **`30000`**.
+   */
+  otpResendCooldownMs?: number;
 }
 
 /**
@@ -98,6 +284,85 @@ export interface MfaBeginOptions {
    * enabling secure transaction confirmation without revealing end-user identity to the merchant.
    */
   checkoutId?: string;
+
+  /**
+   * The factor policy of this MFA flow, overriding the `factorPolicy` of the configuration.
+   * Conditions are not stored with the session, so after a page reload they must be given to
+   * `resumeFlow` as `factorConditions`.
+   */
+  factorPolicy?: MfaFactorPolicy;
+
+  /**
+   * Runs the flow as a step-up of the signed-in user, who must be the user given to `beginFlow`.
+   * Set by `stepUp`.
+   */
+  stepUp?: MfaStepUp;
+
+  /**
+   * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The options of `beginFlow` that are stored with the MFA session, so a stale session can be
+ * restarted by `resumeFlow`.
+ */
+export type MfaResumableBeginOptions = Omit<
+  MfaBeginOptions,
+  "signal" | "factorPolicy"
+> & {
+  factorPolicy?: Omit<MfaFactorPolicy, "conditions">;
+};
+
+/**
+ * Options for resuming a stored MFA session.
+ */
+export interface MfaResumeOptions {
+  /**
+   * Whether to begin a new MFA flow with the same username and options when the stored session
+   * has expired. Defaults to **`true`**.
+   */
+  restart?: boolean;
+
+  /**
+   * The conditions of the `factorPolicy` given to `beginFlow`, which are not stored with the session.
+   * Applied to the remaining factors of the resumed flow and to a restarted one.
+   */
+  factorConditions?: MfaFactorPolicy["conditions"];
+
+  /**
+   * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for re-verifying the signed-in user with `stepUp`.
+ */
+export interface StepUpOptions {
+  /**
+   * Maximum age in seconds of the user's last authentication. If the user authenticated earlier,
+   * they must re-verify.
+   */
+  maxAge?: number;
+
+  /**
+   * Authentication factors the session must include, as `amr` values such as **`passkey`** or
+   * **`otp`**. If one is missing, the user must complete it.
+   */
+  requiredFactors?: string[];
+
+  /**
+   * Why the user must re-verify, for example **`"Change payout account"`**. It is sent to the server
+   * and recorded with the MFA session.
+   */
+  reason?: string;
+
+  /**
+   * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -116,6 +381,13 @@ export interface MfaPerformActionOptions {
    */
   payload?: string;
 
+  /**
+   * The contact to send the OTP to for **`otp:email`** and **`otp:sms`**, given as the `name` of
+   * one of the factor's `options`. Defaults to the primary email address or the first phone number.
+   * Ignored if `payload` is given.
+   */
+  contactId?: string;
+
   /**
    * Enables passkey support in browser autofill suggestions (conditional UI), if supported.
    */
@@ -125,6 +397,125 @@ export interface MfaPerformActionOptions {
    * A human-palatable name for the user account, intended only for display on your passkeys..
    */
   displayName?: string;
+
+  /**
+   * For **`otp:sms`**, waits in the background for the SMS with the WebOTP API and verifies the code
+   * with **`otp:verify`** once it arrives, reporting the result to its callbacks. The call resolves as
+   * soon as the SMS was requested, so the code can still be entered by hand; waiting stops once a
+   * code is verified. `signal` also stops waiting. See `AutoReadSmsOtpOptions` for the SMS format
+   * the backend must send.
+   */
+  autoReadSmsOtp?: AutoReadSmsOtpOptions<MfaSessionResult>;
+
+  /**
+   * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for reading a one-time password from the SMS automatically with the WebOTP API.
+ *
+ * The WebOTP API is available in Chrome on Android. The SMS must end with a line that binds the
+ * code to the origin of the page, in the format `@<host> #<code>`, for example:
+ *
+ * ```text
+ * Your verification code is 123456.
+ *
+ * @login.example.com #123456
+ * ```
+ *
+ * If the page runs in a cross-origin iframe, the line names the top-level origin first and the
+ * origin of the iframe last: `@shop.example.com #123456 @login.example.com`.
+ */
+export interface AutoReadSmsOtpOptions<T> {
+  /**
+   * Called with the result once the code read from the SMS has been verified. Required, since the
+   * verification happens in the background and is reported nowhere else.
+   */
+  onVerified: (result: T) => void;
+
+  /**
+   * Called if the code read from the SMS could not be verified. Nothing is called if no code was
+   * read, for example because the browser does not support WebOTP; the user enters it by hand then.
+   */
+  onError?: (error: unknown) => void;
+
+  /**
+   * Maximum time in milliseconds to wait for the SMS. Defaults to the browser's own timeout.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for completing an MFA passkey factor on another device.
+ */
+export interface MfaCrossDeviceOptions {
+  /**
+   * Called with the link to open on the other device. Render it as a QR code for the user to scan
+   * with their phone, or send it as a deep link.
+   */
+  onLink: (link: string) => void;
+
+  /**
+   * The passkey factor to complete on the other device. Defaults to **`passkey:reg`** if the
+   * current step offers it, and to **`passkey:auth`** otherwise.
+   */
+  factorName?: MfaCrossDeviceFactorName;
+
+  /**
+   * The URL of the page that calls `continueOnThisDevice` on the other device.
+   * Defaults to the current page.
+   */
+  url?: string;
+
+  /**
+   * The delay in milliseconds between checks of the MFA session status. Defaults to **`2000`**.
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Maximum time in milliseconds to wait for the other device. Defaults to **`300000`** (5 minutes).
+   */
+  timeoutMs?: number;
+
+  /**
+   * An AbortSignal that stops waiting for the other device, rejecting with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for completing an MFA factor handed off from another device.
+ */
+export type MfaContinueOnThisDeviceOptions = Omit<
+  MfaPerformActionOptions,
+  "session" | "payload"
+>;
+
+/**
+ * A contact an OTP can be sent to.
+ */
+export interface MfaContactOption {
+  /**
+   * Identifies the contact. Pass it as `contactId` to `performAction` to send the OTP to this contact.
+   */
+  name: string;
+
+  /**
+   * The email address or phone number to display, possibly masked.
+   */
+  label: string;
+
+  /**
+   * The kind of contact.
+   */
+  type: "email" | "phone";
+
+  /**
+   * Indicates whether the label hides part of the contact, for example `j***@example.com`.
+   */
+  masked: boolean;
 }
 
 /**
@@ -154,7 +545,8 @@ export interface RemainingFactor {
    * - passkey
    *
    * Example: To authenticate or add a passkey on another device, pass this value
-   * along with the session token to continue the MFA process.
+   * along with the session token to continue the MFA process. `startCrossDeviceFlow`
+   * does this for you.
    */
   value?: string;
 
@@ -166,8 +558,9 @@ export interface RemainingFactor {
    * - otp:sms
    *
    * Typically includes valid email addresses or phone numbers for OTP delivery.
+   * Pass the `name` of an option as `contactId` to `performAction` to choose where the OTP goes.
    */
-  options?: string[];
+  options?: MfaContactOption[];
 }
 
 /**
@@ -177,7 +570,7 @@ export interface RemainingFactor {
  *
  * @expand
  */
-export interface MfaSessionResult {
+export interface MfaSessionResult extends OtpResendStatus {
   /**
    * The MFA flow type indicating whether the session is part of sign-in or sign-up.
    * This helps differentiate between authentication scenarios.
@@ -237,6 +630,31 @@ export interface MfaSessionResult {
    * Indicates which MFA factor the user should complete next in order to proceed.
    */
   nextAction?: MfaFactorName;
+
+  /**
+   * When the MFA session expires, if the session carries an `exp` claim.
+   */
+  expiresAt?: Date;
+
+  /**
+   * Indicates whether the MFA session has expired. An expired session cannot be used to perform
+   * factors; call `resumeFlow` to begin a new one.
+   */
+  isExpired: boolean;
+}
+
+/**
+ * The result of `stepUp`.
+ *
+ * @expand
+ */
+export interface StepUpResult extends MfaSessionResult {
+  /**
+   * Whether the session did not meet the requirements, so an MFA flow was begun to re-verify the
+   * user. If `isComplete` is `false`, continue the flow with `performAction`. If the session already
+   * met the requirements, the current tokens are returned instead.
+   */
+  isStepUpRequired: boolean;
 }
 
 /**
@@ -1,8 +1,9 @@
 // Copyright (C) LoginID
 
+import { LoginIDTokenSet, VerifyTokenOptions } from "../types";
 import { LoginIDConfig, VerifyConfigResult } from "./types";
 import { ApiError, AuthInitRequestBody } from "../api";
-import { defaultDeviceInfo } from "../utils/browser";
+import { getDeviceInfo } from "../webauthn";
 import { LoginIDBase } from "./base";
 import { MfaStore } from "../store";
 
@@ -68,7 +69,7 @@ export class Utils extends LoginIDBase {
     }
 
     try {
-      const deviceInfo = await defaultDeviceInfo();
+      const deviceInfo = await getDeviceInfo();
 
       const requestBody: AuthInitRequestBody = {
         app: {
@@ -105,7 +106,8 @@ export class Utils extends LoginIDBase {
    * Check whether the user of the current browser session is authenticated and returns user info.
    * This info is retrieved locally and no requests to backend are made.
    *
-   * @returns {SessionInfo | null} The currently authenticated user's information, including username and id.
+   * @returns {SessionInfo | null} The currently authenticated user's information, including username, id,
+   * token expiry, the MFA flow and factors used, the device ID and the raw token claims.
    * @example
    * ```javascript
    * import { LoginIDWebSDK } from "@loginid/websdk3";
@@ -127,6 +129,7 @@ export class Utils extends LoginIDBase {
    *   await lid.authenticateWithPasskey(username);
    *   const sessionInfo = lid.getSessionInfo();
    *   console.log("Session Information:", sessionInfo);
+   *   console.log("Expires in (seconds):", sessionInfo?.expiresIn());
    * } catch (error) {
    *   console.error("Error retrieving session information:", error);
    * }
@@ -136,6 +139,75 @@ export class Utils extends LoginIDBase {
     return this.session.getSessionInfo();
   }
 
+  /**
+   * Verifies a token's signature against the application's JSON Web Key Set and validates its
+   * `iss`, `aud`, `exp` and `nbf` claims. The issuer must be the base URL and the audience the
+   * application ID unless `tokenVerification` says otherwise. The JWKS is fetched once and cached.
+   *
+   * Defaults to the current session token. Access tokens, ID tokens and the MFA `payloadSignature`
+   * can also be passed explicitly.
+   *
+   * @param {string} [token] The token to verify.
+   * @param {VerifyTokenOptions} [options={}] Per-call verification options, such as the payload of a detached signature.
+   * @returns {Promise<JwtClaims>} The verified claims.
+   * @example
+   * ```javascript
+   * import { LoginIDWebSDK, TokenVerificationError } from "@loginid/websdk3";
+   *
+   * const lid = new LoginIDWebSDK({
+   *   baseUrl: process.env.BASE_URL,
+   *   appId: process.env.APP_ID,
+   * });
+   *
+   * try {
+   *   const claims = await lid.verifyToken();
+   *   console.log("Verified user:", claims.sub);
+   * } catch (error) {
+   *   if (error instanceof TokenVerificationError) {
+   *     console.error("Session token rejected:", error.code);
+   *   }
+   * }
+   * ```
+   */
+  public async verifyToken(token?: string, options: VerifyTokenOptions = {}) {
+    return await this.session.verifyToken(token, options);
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new token set, keeping the current user signed in without
+   * starting a new MFA flow. Concurrent calls share a single request.
+   *
+   * Tokens are also refreshed transparently when an expired access token is read, so calling this
+   * method is only needed to refresh ahead of time.
+   *
+   * @returns {Promise<LoginIDTokenSet>} The refreshed token set.
+   * @example
+   * ```javascript
+   * import { LoginIDWebSDK } from "@loginid/websdk3";
+   *
+   * // Obtain credentials from LoginID
+   * const BASE_URL = process.env.BASE_URL;
+   *
+   * // Initialize the SDK with your configuration
+   * const config = {
+   *   baseUrl: BASE_URL,
+   * };
+   *
+   * const lid = new LoginIDWebSDK(config);
+   *
+   * try {
+   *   const tokenSet = await lid.refreshSession();
+   *   console.log("New access token:", tokenSet.accessToken);
+   * } catch (error) {
+   *   // No refresh token is available or it has been rejected, the user needs to sign in again
+   *   console.error("Error refreshing session:", error);
+   * }
+   * ```
+   */
+  public async refreshSession(): Promise<LoginIDTokenSet> {
+    return await this.session.refreshSession();
+  }
+
   /**
    * Clears current user session. This method is executed locally and it just deletes authorization token from local Cookies.
    *
@@ -173,5 +245,6 @@ export class Utils extends LoginIDBase {
     this.session.logout();
 
     MfaStore.persistInfo(appId, { next: [] });
+    this.session.syncMfaInfo({ next: [] });
   }
 }
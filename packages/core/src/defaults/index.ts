@@ -2,14 +2,25 @@
 
 import {
     MfaBeginOptions,
+    MfaContactOption,
+    MfaCrossDeviceHandoff,
     MfaFactorName,
+    MfaFactorPolicy,
     MfaInfo,
     MfaSessionResult,
     RemainingFactor,
     RequireProps,
+    StepUpOptions,
   } from "../controllers/types";
-  import { LoginIDTokenSet } from "../types";
-  import { MfaNext } from "../api";
+  import { bufferToBase64Url, parseJwt } from "../utils/crypto";
+  import { getLastOtpResendInfo, toOtpResendStatus } from "../helpers";
+  import { JwtClaims, LoginIDTokenSet, SessionInfo } from "../types";
+  import { MfaAction, MfaNext } from "../api";
+  
+  /**
+   * The URL fragment parameter that carries a cross-device MFA handoff.
+   */
+  export const CROSS_DEVICE_LINK_PARAM = "loginid-mfa";
   
   /**
    * Merges provided options with default values for passkey options.
@@ -48,6 +59,139 @@ import {
     };
   };
   
+  /**
+   * Applies a factor policy to the factors returned by the server, removing excluded factors and
+   * factors whose condition is not met, and sorting the rest by the policy priority.
+   *
+   * @param {MfaAction[]} next - The factors returned by the server.
+   * @param {MfaFactorPolicy} [policy] - The factor policy.
+   * @returns {Promise<MfaAction[]>} - The factors to offer, in order of preference.
+   */
+  export const applyFactorPolicy = async (
+    next: MfaAction[],
+    policy?: MfaFactorPolicy,
+  ): Promise<MfaAction[]> => {
+    if (!policy) {
+      return next;
+    }
+  
+    const { priority = [], exclude = [], conditions = {} } = policy;
+    const offered = await Promise.all(
+      next.map(async ({ action: { name } }) => {
+        if (exclude.includes(name)) {
+          return false;
+        }
+  
+        try {
+          return (await conditions[name]?.(name)) ?? true;
+        } catch {
+          return false;
+        }
+      }),
+    );
+  
+    const rank = (name: MfaFactorName) => {
+      const index = priority.indexOf(name);
+      return index === -1 ? priority.length : index;
+    };
+  
+    return next
+      .filter((_, index) => offered[index])
+      .sort((a, b) => rank(a.action.name) - rank(b.action.name));
+  };
+  
+  /**
+   * Converts an MFA factor name into the authentication factor type recorded in the session info.
+   *
+   * @param {MfaFactorName} factorName - The MFA factor name (e.g., `"passkey:auth"`, `"otp:verify"`).
+   * @returns {string} - The factor type (e.g., `"passkey"`, `"otp"`, `"external"`).
+   */
+  export const toFactorType = (factorName: MfaFactorName): string => {
+    return factorName.split(":")[0];
+  };
+  
+  /**
+   * Checks whether the signed-in session already meets a step-up's requirements. A step-up that
+   * sets neither `maxAge` nor `requiredFactors` is never satisfied, so the user is always re-verified.
+   * Only the token of the most recent authentication counts: `maxAge` needs its `auth_time` claim and
+   * `requiredFactors` its `amr` claim, so a session whose tokens lack them is re-verified.
+   *
+   * @param {SessionInfo} info - The session info of the signed-in user.
+   * @param {StepUpOptions} options - The step-up requirements.
+   * @returns {boolean} - True if the user authenticated recently enough with the required factors.
+   */
+  export const isStepUpSatisfied = (
+    info: SessionInfo,
+    options: StepUpOptions,
+  ): boolean => {
+    const { maxAge, requiredFactors = [] } = options;
+    if (maxAge === undefined && !requiredFactors.length) {
+      return false;
+    }
+  
+    // A step-up only renews some of the tokens, so the one with the latest `auth_time` is current
+    const current =
+      Object.values(info.claims).reduce<JwtClaims | undefined>(
+        (latest, tokenClaims) =>
+          typeof tokenClaims?.auth_time === "number" &&
+          tokenClaims.auth_time > (latest?.auth_time ?? -Infinity)
+            ? tokenClaims
+            : latest,
+        undefined,
+      ) ||
+      info.claims.authzToken ||
+      info.claims.accessToken;
+  
+    if (maxAge !== undefined) {
+      const authTime = current?.auth_time;
+      if (
+        typeof authTime !== "number" ||
+        Date.now() - authTime * 1000 > maxAge * 1000
+      ) {
+        return false;
+      }
+    }
+  
+    const factors: string[] = Array.isArray(current?.amr) ? current.amr : [];
+    return requiredFactors.every((factor) => factors.includes(factor));
+  };
+  
+  /**
+   * Builds the link that hands an MFA session off to another device. The session is carried in the
+   * URL fragment so it is never sent to the server hosting the page.
+   *
+   * @param {string} url - The URL of the page that continues the flow on the other device.
+   * @param {MfaCrossDeviceHandoff} handoff - The session and factor to hand off.
+   * @returns {string} - The cross-device link.
+   */
+  export const toCrossDeviceLink = (
+    url: string,
+    handoff: MfaCrossDeviceHandoff,
+  ): string => {
+    const json = new TextEncoder().encode(JSON.stringify(handoff));
+    const encoded = bufferToBase64Url(json.buffer);
+    return `${url.split("#")[0]}#${CROSS_DEVICE_LINK_PARAM}=${encoded}`;
+  };
+  
+  /**
+   * Decodes when an MFA session expires from its `exp` claim.
+   *
+   * @param {string} [session] - The MFA session.
+   * @returns {Date | undefined} - The expiry, or undefined if the session carries none.
+   */
+  export const getMfaSessionExpiry = (session?: string): Date | undefined => {
+    if (!session) {
+      return undefined;
+    }
+  
+    try {
+      const { exp } = parseJwt(session) || {};
+      return typeof exp === "number" ? new Date(exp * 1000) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  
   /**
    * Converts MFA information and token set into an `MfaSessionResult` object.
    *
@@ -74,8 +218,14 @@ import {
               (option) =>
                 (name === "otp:sms" || name === "otp:email") && option.label,
             )
-            .map((option) => option.label!)
-            .filter(Boolean);
+            .map(
+              (option): MfaContactOption => ({
+                name: option.name || option.value,
+                label: option.label!,
+                type: name === "otp:email" ? "email" : "phone",
+                masked: /[*•]/.test(option.label!),
+              }),
+            );
   
           if (options.length) {
             result.options = options;
@@ -103,10 +253,12 @@ import {
       "external",
     ];
   
-    const nextAction = factorPriority.find((name) =>
-      info?.next?.some((factor) => factor.action.name === name),
+    const nextAction = [...(info?.priority || []), ...factorPriority].find(
+      (name) => info?.next?.some((factor) => factor.action.name === name),
     );
   
+    const expiresAt = getMfaSessionExpiry(info?.session);
+  
     return {
       username: info?.username,
       ...(info?.username && { username: info.username }),
@@ -116,6 +268,9 @@ import {
       ...(nextAction && { nextAction }),
       isComplete: !!tokenSet?.accessToken || !!tokenSet?.payloadSignature,
       ...(info?.session && { session: info.session }),
+      ...(expiresAt && { expiresAt }),
+      isExpired: !!expiresAt && expiresAt.getTime() <= Date.now(),
+      ...toOtpResendStatus(getLastOtpResendInfo(info?.otpResends)),
       ...(tokenSet?.idToken && { idToken: tokenSet?.idToken }),
       ...(tokenSet?.accessToken && { accessToken: tokenSet?.accessToken }),
       ...(tokenSet?.refreshToken && { refreshToken: tokenSet?.refreshToken }),
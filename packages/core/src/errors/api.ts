@@ -0,0 +1,250 @@
+// Copyright (C) LoginID
+
+import { ApiError } from "../api/core/ApiError";
+import { getMessage } from "../i18n/messages";
+import { LocaleOptions } from "../types";
+import { ApiErrorCode } from "./types";
+
+/**
+ * Base class for errors returned by the LoginID API. Extends the generated `ApiError`, so the
+ * response `status` and `body` remain available.
+ */
+export class LoginIDApiError extends ApiError {
+  /**
+   * The message code returned by the API, or derived from the response status if missing.
+   *
+   * @type {ApiErrorCode}
+   * @memberof LoginIDApiError
+   */
+  public readonly code: ApiErrorCode;
+
+  /**
+   * Whether repeating the same request later may succeed.
+   *
+   * @type {boolean}
+   * @memberof LoginIDApiError
+   */
+  public readonly isRetryable: boolean;
+
+  /**
+   * A message suitable for display to end users, in the locale of the SDK instance that made the request.
+   *
+   * @type {string}
+   * @memberof LoginIDApiError
+   */
+  public readonly userMessage: string;
+
+  /**
+   * Initializes a new instance of LoginIDApiError from a generated `ApiError`.
+   *
+   * @param error - The error thrown by the generated API client.
+   * @param code - The API error code.
+   * @param isRetryable - Whether repeating the request may succeed.
+   * @param locale - The locale options to resolve the user message with.
+   */
+  constructor(
+    error: ApiError,
+    code: ApiErrorCode,
+    isRetryable = false,
+    locale?: LocaleOptions,
+  ) {
+    super(
+      error.request,
+      {
+        url: error.url,
+        ok: false,
+        status: error.status,
+        statusText: error.statusText,
+        body: error.body,
+      },
+      error.body?.msg || error.message,
+    );
+    this.name = "LoginIDApiError";
+    this.code = code;
+    this.isRetryable = isRetryable;
+    this.userMessage = getMessage(code, {}, locale);
+  }
+}
+
+/**
+ * The request was malformed or failed validation.
+ */
+export class BadRequestError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "bad_request", false, locale);
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * The request is missing valid authorization.
+ */
+export class UnauthorizedError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "unauthorized", false, locale);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * The caller is not allowed to perform the request.
+ */
+export class ForbiddenError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "forbidden", false, locale);
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The requested resource does not exist.
+ */
+export class NotFoundError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "not_found", false, locale);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The user does not exist.
+ */
+export class UserNotFoundError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "user_not_found", false, locale);
+    this.name = "UserNotFoundError";
+  }
+}
+
+/**
+ * The passkey used to authenticate is not registered, for example because it was deleted.
+ */
+export class CredentialNotFoundError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "credential_not_found", false, locale);
+    this.name = "CredentialNotFoundError";
+  }
+}
+
+/**
+ * The authentication or MFA session has expired.
+ */
+export class SessionExpiredError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "session_expired", false, locale);
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * The submitted one-time password is incorrect or has expired.
+ */
+export class OtpInvalidError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "invalid_otp", false, locale);
+    this.name = "OtpInvalidError";
+  }
+}
+
+/**
+ * A further authentication factor must be completed.
+ */
+export class AdditionalAuthRequiredError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "additional_auth_required", false, locale);
+    this.name = "AdditionalAuthRequiredError";
+  }
+}
+
+/**
+ * Too many requests were made in a short period of time.
+ */
+export class RateLimitedError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "too_many_requests", true, locale);
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * The API failed to process the request.
+ */
+export class InternalServerError extends LoginIDApiError {
+  constructor(error: ApiError, locale?: LocaleOptions) {
+    super(error, "internal_error", true, locale);
+    this.name = "InternalServerError";
+  }
+}
+
+/**
+ * Error classes for each known API error code.
+ */
+const ERROR_CLASSES: Partial<
+  Record<
+    ApiErrorCode,
+    new (error: ApiError, locale?: LocaleOptions) => LoginIDApiError
+  >
+> = {
+  bad_request: BadRequestError,
+  unauthorized: UnauthorizedError,
+  forbidden: ForbiddenError,
+  not_found: NotFoundError,
+  user_not_found: UserNotFoundError,
+  credential_not_found: CredentialNotFoundError,
+  session_expired: SessionExpiredError,
+  invalid_otp: OtpInvalidError,
+  additional_auth_required: AdditionalAuthRequiredError,
+  too_many_requests: RateLimitedError,
+  internal_error: InternalServerError,
+};
+
+/**
+ * Derives an API error code from the response status when the body carries no known `msgCode`.
+ *
+ * @param {number} status The response status.
+ * @returns {ApiErrorCode} The derived error code.
+ */
+const toErrorCode = (status: number): ApiErrorCode => {
+  switch (status) {
+    case 400:
+      return "bad_request";
+    case 401:
+      return "unauthorized";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not_found";
+    case 429:
+      return "too_many_requests";
+    default:
+      return status >= 500 ? "internal_error" : "unknown_error";
+  }
+};
+
+/**
+ * Converts an error thrown by the generated API client into the matching typed error.
+ *
+ * @param {ApiError} error The error thrown by the generated API client.
+ * @param {LocaleOptions} [locale] The locale options to resolve the user message with.
+ * @returns {LoginIDApiError} The typed API error.
+ */
+export const toLoginIDApiError = (
+  error: ApiError,
+  locale?: LocaleOptions,
+): LoginIDApiError => {
+  if (error instanceof LoginIDApiError) {
+    return error;
+  }
+
+  // Own properties only, so codes such as "constructor" never select a prototype member
+  const msgCode: ApiErrorCode | undefined = error.body?.msgCode;
+  const code: ApiErrorCode =
+    msgCode && Object.hasOwn(ERROR_CLASSES, msgCode)
+      ? msgCode
+      : toErrorCode(error.status);
+  const ErrorClass = ERROR_CLASSES[code];
+
+  return ErrorClass
+    ? new ErrorClass(error, locale)
+    : new LoginIDApiError(error, code, false, locale);
+};
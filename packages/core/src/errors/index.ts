@@ -5,4 +5,8 @@ export * from "./loginid";
 export * from "./passkey";
 export * from "./storage";
 export * from "./abort";
+export * from "./token";
+export * from "./otp";
+export * from "./timeout";
+export * from "./api";
 export * from "./types";
@@ -1,18 +1,29 @@
 // Copyright (C) LoginID
 
+import { LoginIDErrorCode } from "./types";
+
 /**
  * Error class for LoginID SDK related errors.
  */
 export class LoginIDError extends Error {
+    /**
+     * (Optional) A machine-readable code that identifies the error.
+     *
+     * @type {LoginIDErrorCode | undefined}
+     * @memberof LoginIDError
+     */
+    public readonly code?: LoginIDErrorCode;
+
     /**
      * Initializes a new instance of LoginIDError with the provided message.
      *
      * @type {Error}
      * @memberof AbortError
      */
-    constructor(message: string) {
+    constructor(message: string, code?: LoginIDErrorCode) {
       super(message);
       this.name = "LoginIDError";
+      this.code = code;
     }
   }
   
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Copyright (C) LoginID
+
+import { LoginIDError } from "./loginid";
+
+/**
+ * Error class for one-time password requests made before the resend cooldown has elapsed.
+ */
+export class OtpResendTooEarlyError extends LoginIDError {
+  /**
+   * When another one-time password may be requested.
+   *
+   * @type {Date}
+   * @memberof OtpResendTooEarlyError
+   */
+  public readonly canResendAt: Date;
+
+  /**
+   * Initializes a new instance of OtpResendTooEarlyError.
+   *
+   * @param message - Human-readable error message.
+   * @param canResendAt - When another one-time password may be requested.
+   */
+  constructor(message: string, canResendAt: Date) {
+    super(message, "ERROR_OTP_RESEND_TOO_EARLY");
+    this.name = "OtpResendTooEarlyError";
+    this.canResendAt = canResendAt;
+  }
+}
@@ -0,0 +1,26 @@
+// Copyright (C) LoginID
+
+/**
+ * Error class for API requests that did not complete within the configured timeout.
+ */
+export class TimeoutError extends Error {
+  /**
+   * The timeout that was exceeded, in milliseconds.
+   *
+   * @type {number}
+   * @memberof TimeoutError
+   */
+  public readonly timeoutMs: number;
+
+  /**
+   * Initializes a new instance of TimeoutError.
+   *
+   * @param message - Human-readable error message.
+   * @param timeoutMs - The timeout that was exceeded, in milliseconds.
+   */
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
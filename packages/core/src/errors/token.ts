@@ -0,0 +1,28 @@
+// Copyright (C) LoginID
+
+import { TokenVerificationErrorCode } from "./types";
+
+/**
+ * Error class for token verification errors.
+ */
+export class TokenVerificationError extends Error {
+  /**
+   * A machine-readable code that identifies why the token was rejected.
+   *
+   * @type {TokenVerificationErrorCode}
+   * @memberof TokenVerificationError
+   */
+  public readonly code: TokenVerificationErrorCode;
+
+  /**
+   * Initializes a new instance of TokenVerificationError.
+   *
+   * @param message - Human-readable error message.
+   * @param code - Specific token verification error code.
+   */
+  constructor(message: string, code: TokenVerificationErrorCode) {
+    super(message);
+    this.name = "TokenVerificationError";
+    this.code = code;
+  }
+}
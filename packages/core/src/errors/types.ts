@@ -1,5 +1,7 @@
 // Copyright (C) LoginID
 
+import { AppError } from "../api/models/AppError";
+
 export type PasskeyErrorCode =
   | "ERROR_PASSKEY_ABORTED"
   | "ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED"
@@ -22,3 +24,33 @@ export type ValidationErrorCode =
   | "ERROR_VALIDATION_REQUIRED_FIELD_MISSING"
   | "ERROR_VALIDATION_OUT_OF_RANGE"
   | "ERROR_VALIDATION_TYPE_MISMATCH";
+
+export type LoginIDErrorCode =
+  | "ERROR_MFA_SESSION_REQUIRED"
+  | "ERROR_MFA_SESSION_EXPIRED"
+  | "ERROR_MFA_PAYLOAD_REQUIRED"
+  | "ERROR_MFA_FACTOR_PAYLOAD_REQUIRED"
+  | "ERROR_MFA_FACTOR_NOT_FOUND"
+  | "ERROR_MFA_FACTOR_UNSUPPORTED"
+  | "ERROR_MFA_CONTACT_NOT_FOUND"
+  | "ERROR_MFA_CROSS_DEVICE_LINK_INVALID"
+  | "ERROR_MFA_TRANSITION_INVALID"
+  | "ERROR_OTP_RESEND_TOO_EARLY"
+  | "ERROR_STEP_UP_SESSION_REQUIRED"
+  | "ERROR_SESSION_USERNAME_MISSING"
+  | "ERROR_PASSKEY_PAYLOAD_REQUIRED"
+  | "ERROR_PASSKEY_PAYLOAD_INVALID";
+
+export type TokenVerificationErrorCode =
+  | "ERROR_TOKEN_MALFORMED"
+  | "ERROR_TOKEN_ALGORITHM_UNSUPPORTED"
+  | "ERROR_TOKEN_KEY_NOT_FOUND"
+  | "ERROR_TOKEN_SIGNATURE_INVALID"
+  | "ERROR_TOKEN_EXPIRED"
+  | "ERROR_TOKEN_EXPIRY_MISSING"
+  | "ERROR_TOKEN_NOT_YET_VALID"
+  | "ERROR_TOKEN_ISSUER_MISMATCH"
+  | "ERROR_TOKEN_AUDIENCE_MISMATCH"
+  | "ERROR_JWKS_FETCH_FAILED";
+
+export type ApiErrorCode = AppError["msgCode"] | "unknown_error";
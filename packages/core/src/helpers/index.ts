@@ -6,7 +6,15 @@ import {
     generateRandomId,
     signWithES256PrivateKey,
   } from "../utils/crypto";
-  import { TrustIDClaims } from "../types";
+  import { ApiError, AppError, MfaOtpRequestResponseBody } from "../api";
+  import {
+    OtpResendInfo,
+    OtpResendInfos,
+    OtpResendStatus,
+  } from "../controllers/types";
+  import { LocaleOptions, TrustIDClaims } from "../types";
+  import { OtpResendTooEarlyError } from "../errors";
+  import { getMessage } from "../i18n";
   
   /**
    * Along with traditional OO hierarchies, another popular way of building up classes from
@@ -69,4 +77,184 @@ import {
   
     return `${unsignedToken}.${signature}`;
   };
-  
\ No newline at end of file
+  
+  /**
+   * Default minimum time in milliseconds between two one-time password requests to the same destination.
+   */
+  export const OTP_RESEND_COOLDOWN_MS = 30 * 1000;
+  
+  /**
+   * Records that a one-time password was sent. The server's `resendAfter` hint takes precedence over
+   * the client-side cooldown.
+   * @param {Pick<MfaOtpRequestResponseBody, "resendAfter" | "attemptsRemaining">} [hint={}] - The hints returned with the request.
+   * @param {number} [cooldownMs=OTP_RESEND_COOLDOWN_MS] - The cooldown used if the server sends no hint.
+   * @returns {OtpResendInfo} The resend state.
+   */
+  export const toOtpResendInfo = (
+    hint: Pick<
+      MfaOtpRequestResponseBody,
+      "resendAfter" | "attemptsRemaining"
+    > = {},
+    cooldownMs: number = OTP_RESEND_COOLDOWN_MS,
+  ): OtpResendInfo => {
+    const sentAt = Date.now();
+    const waitMs =
+      hint.resendAfter !== undefined ? hint.resendAfter * 1000 : cooldownMs;
+  
+    return {
+      sentAt,
+      canResendAt: sentAt + Math.max(0, waitMs),
+      ...(hint.attemptsRemaining !== undefined && {
+        attemptsRemaining: hint.attemptsRemaining,
+      }),
+    };
+  };
+  
+  /**
+   * Updates the resend state after a failed one-time password request or verification from the
+   * `retryAfter` and `attemptsRemaining` hints of the error response. A rejected code without a hint
+   * uses up one of the known remaining attempts.
+   * @param {OtpResendInfo} [info] - The current resend state.
+   * @param {unknown} error - The error thrown by the request.
+   * @returns {OtpResendInfo | undefined} The updated resend state.
+   */
+  export const updateOtpResendInfo = (
+    info: OtpResendInfo | undefined,
+    error: unknown,
+  ): OtpResendInfo | undefined => {
+    if (!(error instanceof ApiError)) {
+      return info;
+    }
+  
+    const body: Partial<AppError> = error.body || {};
+    const remaining = info?.attemptsRemaining;
+    const isRejected = body.msgCode === "invalid_otp" && !!remaining;
+    if (
+      body.retryAfter === undefined &&
+      body.attemptsRemaining === undefined &&
+      !isRejected
+    ) {
+      return info;
+    }
+  
+    const next: OtpResendInfo = { canResendAt: 0, ...info };
+  
+    if (body.retryAfter !== undefined) {
+      next.canResendAt = Date.now() + body.retryAfter * 1000;
+    }
+  
+    if (body.attemptsRemaining !== undefined) {
+      next.attemptsRemaining = body.attemptsRemaining;
+    } else if (isRejected && remaining) {
+      next.attemptsRemaining = remaining - 1;
+    }
+  
+    return next;
+  };
+  
+  /**
+   * Identifies where a one-time password is sent, so the resend cooldown only applies to another
+   * code for the same delivery method and contact.
+   * @param {string} method - The delivery method, such as `"email"` or `"sms"`.
+   * @param {string} [contact] - The contact the code is sent to. Omitted for the user's default contact.
+   * @returns {string} The destination key.
+   */
+  export const toOtpDestination = (method: string, contact?: string): string => {
+    return contact ? `${method}:${contact}` : method;
+  };
+  
+  /**
+   * Returns the destination the most recent one-time password was sent to.
+   * @param {OtpResendInfos} [infos] - The resend states by destination.
+   * @returns {string | undefined} The destination, if any code was requested.
+   */
+  export const getLastOtpDestination = (
+    infos: OtpResendInfos = {},
+  ): string | undefined => {
+    let last: string | undefined;
+  
+    for (const [destination, info] of Object.entries(infos)) {
+      if (!last || (info.sentAt || 0) > (infos[last].sentAt || 0)) {
+        last = destination;
+      }
+    }
+  
+    return last;
+  };
+  
+  /**
+   * Returns the resend state of the most recent one-time password.
+   * @param {OtpResendInfos} [infos] - The resend states by destination.
+   * @returns {OtpResendInfo | undefined} The resend state, if any code was requested.
+   */
+  export const getLastOtpResendInfo = (
+    infos?: OtpResendInfos,
+  ): OtpResendInfo | undefined => {
+    const destination = getLastOtpDestination(infos);
+    return destination ? infos?.[destination] : undefined;
+  };
+  
+  /**
+   * Returns a copy of the resend states with the state of one destination replaced.
+   * @param {OtpResendInfos | undefined} infos - The resend states by destination.
+   * @param {string} destination - The destination of the one-time password.
+   * @param {OtpResendInfo} [info] - The new resend state. The destination is removed if omitted.
+   * @returns {OtpResendInfos} The updated resend states.
+   */
+  export const withOtpResendInfo = (
+    infos: OtpResendInfos | undefined,
+    destination: string,
+    info?: OtpResendInfo,
+  ): OtpResendInfos => {
+    const next = { ...infos };
+  
+    if (info) {
+      next[destination] = info;
+    } else {
+      delete next[destination];
+    }
+  
+    return next;
+  };
+  
+  /**
+   * Converts the stored resend state into the dates and counts exposed to callers.
+   * @param {OtpResendInfo} [info] - The resend state.
+   * @returns {OtpResendStatus} The resend status.
+   */
+  export const toOtpResendStatus = (info?: OtpResendInfo): OtpResendStatus => {
+    return {
+      ...(info?.sentAt && { otpSentAt: new Date(info.sentAt) }),
+      ...(info?.canResendAt && { canResendAt: new Date(info.canResendAt) }),
+      ...(info?.attemptsRemaining !== undefined && {
+        attemptsRemaining: info.attemptsRemaining,
+      }),
+    };
+  };
+  
+  /**
+   * Throws if another one-time password may not be requested yet.
+   * @param {OtpResendInfo} [info] - The resend state of the last one-time password to the same destination.
+   * @param {LocaleOptions} [locale] - The locale options to resolve the message with.
+   * @throws {OtpResendTooEarlyError} If the resend cooldown has not elapsed.
+   */
+  export const assertCanResendOtp = (
+    info?: OtpResendInfo,
+    locale?: LocaleOptions,
+  ) => {
+    const canResendAt = info?.canResendAt || 0;
+    const waitMs = canResendAt - Date.now();
+  
+    if (waitMs > 0) {
+      throw new OtpResendTooEarlyError(
+        getMessage(
+          "ERROR_OTP_RESEND_TOO_EARLY",
+          {
+            seconds: Math.ceil(waitMs / 1000),
+          },
+          locale,
+        ),
+        new Date(canResendAt),
+      );
+    }
+  };
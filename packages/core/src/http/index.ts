@@ -0,0 +1,18 @@
+// Copyright (C) LoginID
+
+import {
+  HttpMiddleware,
+  HttpRequestConstructor,
+  HttpRequestContext,
+  RetryOptions,
+} from "../types";
+
+export type {
+  HttpMiddleware,
+  HttpRequestConstructor,
+  HttpRequestContext,
+  RetryOptions,
+};
+
+export * from "./request";
+export * from "./signal";
@@ -0,0 +1,351 @@
+// Copyright (C) LoginID
+
+import {
+  catchErrorCodes,
+  getFormData,
+  getHeaders,
+  getQueryString,
+  getRequestBody,
+  getResponseBody,
+  getResponseHeader,
+} from "../api/core/request";
+import {
+  HttpMiddleware,
+  HttpRequestConstructor,
+  HttpRequestContext,
+  LocaleOptions,
+  RetryOptions,
+} from "../types";
+import { getRetryDelay, isRetryableOperation, toRetryPolicy } from "./retry";
+import { CancelablePromise } from "../api/core/CancelablePromise";
+import { ApiRequestOptions } from "../api/core/ApiRequestOptions";
+import { BaseHttpRequest } from "../api/core/BaseHttpRequest";
+import { TimeoutError, toLoginIDApiError } from "../errors";
+import { LoginIDConfig } from "../controllers/types";
+import { OpenAPIConfig } from "../api/core/OpenAPI";
+import { ApiResult } from "../api/core/ApiResult";
+import { ApiError } from "../api/core/ApiError";
+
+/**
+ * Options for the LoginID HTTP client.
+ */
+export interface LoginIDHttpRequestOptions {
+  /**
+   * The retry policy for endpoints that are safe to repeat.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Maximum time in milliseconds a request may take, including retries.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Middleware invoked around every request.
+   */
+  middleware?: HttpMiddleware[];
+
+  /**
+   * The locale options API error messages are resolved with.
+   */
+  locale?: LocaleOptions;
+}
+
+/**
+ * Time in milliseconds a long-poll request may take beyond the time the server holds it.
+ */
+const LONG_POLL_MARGIN_MS = 5000;
+
+/**
+ * Waits for the given number of milliseconds, resolving early if the signal is aborted.
+ *
+ * @param {number} ms The delay in milliseconds.
+ * @param {AbortSignal} signal The signal that ends the wait.
+ * @returns {Promise<void>}
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+};
+
+/**
+ * HTTP client for `LoginIDService` that enforces the request timeout, retries requests to
+ * endpoints that are safe to repeat and runs the configured middleware around every attempt.
+ *
+ * @example
+ * ```javascript
+ * import { LoginIDWebSDK } from "@loginid/websdk3";
+ *
+ * const lid = new LoginIDWebSDK({
+ *   baseUrl: process.env.BASE_URL,
+ *   middleware: [
+ *     {
+ *       onRequest: ({ init }) => {
+ *         init.headers.set("X-Correlation-ID", crypto.randomUUID());
+ *       },
+ *       onError: (error, context) => {
+ *         console.error(`Request to ${context?.url} failed`, error);
+ *       },
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export class LoginIDHttpRequest extends BaseHttpRequest {
+  /**
+   * The retry policy.
+   */
+  private readonly retry: Required<RetryOptions>;
+
+  /**
+   * Maximum time in milliseconds a request may take, including retries.
+   */
+  private readonly timeoutMs?: number;
+
+  /**
+   * Middleware invoked around every request.
+   */
+  private readonly middleware: HttpMiddleware[];
+
+  /**
+   * The locale options API error messages are resolved with.
+   */
+  private readonly locale?: LocaleOptions;
+
+  /**
+   * Initializes a new instance of LoginIDHttpRequest.
+   *
+   * @param {OpenAPIConfig} config The OpenAPI configuration object.
+   * @param {LoginIDHttpRequestOptions} [options={}] The retry policy, timeout, middleware and locale.
+   */
+  constructor(config: OpenAPIConfig, options: LoginIDHttpRequestOptions = {}) {
+    super(config);
+    this.retry = toRetryPolicy(options.retry);
+    this.timeoutMs = options.timeoutMs;
+    this.middleware = options.middleware || [];
+    this.locale = options.locale;
+  }
+
+  /**
+   * Sends a request, retrying network errors and retryable status codes for endpoints that are
+   * safe to repeat. Cancelling the returned promise aborts the in-flight request.
+   *
+   * @param {ApiRequestOptions} options The request options from the service.
+   * @returns {CancelablePromise<T>}
+   * @throws {LoginIDApiError} If the API responds with an error.
+   * @throws {TimeoutError} If the request does not complete within the configured timeout.
+   */
+  public override request<T>(options: ApiRequestOptions): CancelablePromise<T> {
+    return new CancelablePromise(async (resolve, reject, onCancel) => {
+      const controller = new AbortController();
+      const { signal } = controller;
+      let context: HttpRequestContext | undefined;
+      const timeoutMs = this.getTimeoutMs(options);
+      let timedOut = false;
+
+      onCancel(() => controller.abort());
+
+      const timer = timeoutMs
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
+      try {
+        const url = this.getUrl(options);
+        const formData = getFormData(options);
+        const body = getRequestBody(options);
+        const headers = await getHeaders(this.config, options);
+        const maxAttempts = isRetryableOperation(options)
+          ? this.retry.maxAttempts
+          : 1;
+
+        for (let attempt = 1; !signal.aborted; attempt++) {
+          const canRetry = attempt < maxAttempts;
+          let response: Response;
+
+          context = {
+            url,
+            init: {
+              headers: new Headers(headers),
+              body: body ?? formData,
+              method: options.method,
+              signal,
+              ...(this.config.WITH_CREDENTIALS && {
+                credentials: this.config.CREDENTIALS,
+              }),
+            },
+            options,
+            attempt,
+          };
+
+          try {
+            response = await this.send(context);
+          } catch (error) {
+            // fetch rejects with a TypeError on network failures
+            const delay = getRetryDelay(this.retry, attempt);
+            if (canRetry && error instanceof TypeError && delay !== undefined) {
+              await sleep(delay, signal);
+              continue;
+            }
+            throw error;
+          }
+
+          if (
+            canRetry &&
+            this.retry.retryableStatusCodes.includes(response.status)
+          ) {
+            const delay = getRetryDelay(
+              this.retry,
+              attempt,
+              response.headers.get("Retry-After"),
+            );
+            if (delay !== undefined) {
+              await sleep(delay, signal);
+              continue;
+            }
+          }
+
+          const responseBody = await getResponseBody(response);
+          const responseHeader = getResponseHeader(
+            response,
+            options.responseHeader,
+          );
+
+          const result: ApiResult = {
+            url: context.url,
+            ok: response.ok,
+            status: response.status,
+            statusText: response.statusText,
+            body: responseHeader ?? responseBody,
+          };
+
+          catchErrorCodes(options, result);
+
+          resolve(result.body);
+          return;
+        }
+
+        // The loop only ends without a response once the request has been aborted
+        throw new DOMException("Request aborted", "AbortError");
+      } catch (error) {
+        const failure = timedOut
+          ? new TimeoutError(
+              `Request timed out after ${timeoutMs}ms`,
+              timeoutMs!,
+            )
+          : error instanceof ApiError
+            ? toLoginIDApiError(error, this.locale)
+            : error;
+
+        for (const { onError } of this.middleware) {
+          try {
+            await onError?.(failure, context);
+          } catch (handlerError) {
+            console.error("Error in HTTP middleware onError:", handlerError);
+          }
+        }
+
+        reject(failure);
+      } finally {
+        clearTimeout(timer);
+      }
+    });
+  }
+
+  /**
+   * Returns the timeout of a request. Long-poll requests ask the server to hold the response for
+   * up to `wait` seconds, so they may take that long plus a margin even with a shorter timeout.
+   *
+   * @param {ApiRequestOptions} options The request options from the service.
+   * @returns {number | undefined} The timeout in milliseconds, or undefined if requests do not time out.
+   */
+  private getTimeoutMs(options: ApiRequestOptions): number | undefined {
+    const wait = Number(options.query?.wait);
+    if (!this.timeoutMs || !wait) {
+      return this.timeoutMs;
+    }
+
+    return Math.max(this.timeoutMs, wait * 1000 + LONG_POLL_MARGIN_MS);
+  }
+
+  /**
+   * Sends a single attempt of the request through the middleware chain.
+   *
+   * @param {HttpRequestContext} context The request attempt.
+   * @returns {Promise<Response>} The response.
+   */
+  private async send(context: HttpRequestContext): Promise<Response> {
+    for (const { onRequest } of this.middleware) {
+      await onRequest?.(context);
+    }
+
+    let response = await fetch(context.url, context.init);
+
+    for (const { onResponse } of this.middleware) {
+      response = (await onResponse?.(response, context)) || response;
+    }
+
+    return response;
+  }
+
+  /**
+   * Builds the request URL from the path template, path parameters and query.
+   *
+   * @param {ApiRequestOptions} options The request options from the service.
+   * @returns {string} The request URL.
+   */
+  private getUrl(options: ApiRequestOptions): string {
+    const encoder = this.config.ENCODE_PATH || encodeURI;
+
+    const path = options.url
+      .replace("{api-version}", this.config.VERSION)
+      .replace(/{(.*?)}/g, (substring: string, group: string) => {
+        if (options.path && group in options.path) {
+          return encoder(String(options.path[group]));
+        }
+        return substring;
+      });
+
+    const url = `${this.config.BASE}${path}`;
+    if (options.query) {
+      return `${url}${getQueryString(options.query)}`;
+    }
+    return url;
+  }
+}
+
+/**
+ * Creates the HTTP client constructor for `LoginIDService` from the SDK configuration.
+ *
+ * @param {LoginIDConfig} config Configuration object for LoginID.
+ * @returns {HttpRequestConstructor} The HTTP client constructor.
+ */
+export const createHttpRequest = (
+  config: LoginIDConfig,
+): HttpRequestConstructor => {
+  // Custom clients that extend LoginIDHttpRequest receive the options; others ignore them
+  const HttpRequest = (config.httpRequest ||
+    LoginIDHttpRequest) as typeof LoginIDHttpRequest;
+
+  return class extends HttpRequest {
+    constructor(openApiConfig: OpenAPIConfig) {
+      super(openApiConfig, {
+        retry: config.retry,
+        timeoutMs: config.requestTimeoutMs,
+        middleware: config.middleware,
+        locale: { locale: config.locale, messages: config.messages },
+      });
+    }
+  };
+};
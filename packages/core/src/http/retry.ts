@@ -0,0 +1,104 @@
+// Copyright (C) LoginID
+
+import { ApiRequestOptions } from "../api/core/ApiRequestOptions";
+import { RetryOptions } from "../types";
+
+/**
+ * Endpoints that are safe to repeat, as `METHOD url` pairs. Reads, renames and the `init` calls
+ * only create a fresh challenge, so repeating them has no side effects. Completions, OTP requests,
+ * token refreshes and MFA `begin`, which creates a server session and a trust ID, are one-shot and
+ * must not be retried.
+ */
+const RETRYABLE_OPERATIONS = new Set([
+  "GET /fido2/v2/passkeys",
+  "GET /fido2/v2/passkeys/aaguid/{aaguid}",
+  "PUT /fido2/v2/passkeys/{id}",
+  "POST /fido2/v2/client-events/submit",
+  "POST /fido2/v2/auth/init",
+  "POST /fido2/v2/reg/init",
+  "POST /fido2/v2/tx/init",
+]);
+
+/**
+ * Default retry policy.
+ */
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Merges the configured retry policy with the defaults.
+ *
+ * @param {RetryOptions} [options] The configured retry policy.
+ * @returns {Required<RetryOptions>} The complete retry policy.
+ */
+export const toRetryPolicy = (
+  options: RetryOptions = {},
+): Required<RetryOptions> => {
+  return { ...DEFAULT_RETRY_OPTIONS, ...options };
+};
+
+/**
+ * Checks whether a request targets an endpoint that is safe to repeat.
+ *
+ * @param {ApiRequestOptions} options The request options from the service.
+ * @returns {boolean} True if the request may be retried.
+ */
+export const isRetryableOperation = (options: ApiRequestOptions): boolean => {
+  return RETRYABLE_OPERATIONS.has(`${options.method} ${options.url}`);
+};
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ *
+ * @param {string | null} value The header value.
+ * @returns {number | undefined} The requested delay in milliseconds, if the header is valid.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+};
+
+/**
+ * Computes the delay before the next attempt.
+ *
+ * @param {Required<RetryOptions>} policy The retry policy.
+ * @param {number} attempt The number of the attempt that just failed, starting at 1.
+ * @param {string | null} [retryAfter] The `Retry-After` header of the failed response.
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the server asked to wait
+ * longer than the policy allows.
+ */
+export const getRetryDelay = (
+  policy: Required<RetryOptions>,
+  attempt: number,
+  retryAfter: string | null = null,
+): number | undefined => {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== undefined) {
+    return requested <= policy.maxDelayMs ? requested : undefined;
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+
+  return policy.jitter ? Math.random() * backoff : backoff;
+};
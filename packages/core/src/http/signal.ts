@@ -0,0 +1,53 @@
+// Copyright (C) LoginID
+
+import { CancelError, CancelablePromise } from "../api/core/CancelablePromise";
+import { AbortError } from "../errors";
+
+/**
+ * Cancels an API request when the given signal is aborted.
+ *
+ * @param {CancelablePromise<T>} promise The pending API request.
+ * @param {AbortSignal} [signal] The signal that cancels the request.
+ * @returns {Promise<T>} The result of the request.
+ * @throws {AbortError} If the signal was aborted before the request completed.
+ */
+export const withSignal = async <T>(
+  promise: CancelablePromise<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  if (!signal) {
+    return await promise;
+  }
+
+  const cancel = () => promise.cancel();
+  if (signal.aborted) {
+    cancel();
+  } else {
+    signal.addEventListener("abort", cancel, { once: true });
+  }
+
+  try {
+    return await promise;
+  } catch (error) {
+    if (error instanceof CancelError && signal.aborted) {
+      throw new AbortError("Request was aborted");
+    }
+    throw error;
+  } finally {
+    signal.removeEventListener("abort", cancel);
+  }
+};
+
+/**
+ * Waits for the given number of milliseconds. Cancelling the returned promise clears the timer,
+ * so it can be combined with `withSignal`.
+ *
+ * @param {number} ms The delay in milliseconds.
+ * @returns {CancelablePromise<void>}
+ */
+export const delay = (ms: number): CancelablePromise<void> => {
+  return new CancelablePromise((resolve, _, onCancel) => {
+    const timer = setTimeout(resolve, ms);
+    onCancel(() => clearTimeout(timer));
+  });
+};
@@ -0,0 +1,7 @@
+// Copyright (C) LoginID
+
+import { MessageCatalog, MessageKey } from "../types";
+
+export type { MessageCatalog, MessageKey };
+
+export * from "./messages";
@@ -0,0 +1,76 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * German messages.
+ */
+export const de: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "Die Passkey-Authentifizierung wurde abgebrochen",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Ihr Gerät unterstützt keine auffindbaren Anmeldedaten",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Ihr Gerät unterstützt keine Benutzerverifizierung",
+  ERROR_PASSKEY_EXISTS: "Auf Ihrem Gerät ist bereits ein Passkey vorhanden",
+  ERROR_GENERAL_ERROR: "Der Passkey-Vorgang ist fehlgeschlagen",
+  ERROR_PASSKEY_CREATION_FAILED:
+    "Die Erstellung des Passkeys ist fehlgeschlagen",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED:
+    "Die Authentifizierung mit dem Passkey ist fehlgeschlagen",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Ihr Gerät unterstützt die für die Passkey-Erstellung erforderlichen Algorithmen nicht",
+  ERROR_DOMAIN_MISMATCH:
+    "Die Domain der vertrauenden Partei ({rpId}) ist für diese Domain ungültig",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Ihr Gerät konnte die angeforderten Passkey-Optionen nicht verarbeiten",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "Dieses Feld darf nicht leer sein",
+  ERROR_VALIDATION_INVALID_FORMAT: "Der Wert hat ein ungültiges Format",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "Ein Pflichtfeld fehlt",
+  ERROR_VALIDATION_OUT_OF_RANGE:
+    "Der Wert liegt außerhalb des gültigen Bereichs",
+  ERROR_VALIDATION_TYPE_MISMATCH: "Der Wert hat einen ungültigen Typ",
+
+  ERROR_MFA_SESSION_REQUIRED:
+    "Für den MFA-Faktor ist eine Sitzung erforderlich.",
+  ERROR_MFA_SESSION_EXPIRED:
+    "Die MFA-Sitzung ist abgelaufen. Bitte beginnen Sie erneut.",
+  ERROR_MFA_PAYLOAD_REQUIRED:
+    "Für den MFA-Faktor ist ein Payload erforderlich.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED:
+    "Für {factorName} ist ein Payload erforderlich.",
+  ERROR_MFA_FACTOR_NOT_FOUND:
+    "Kein passender Faktor für {factorName} gefunden.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "Der MFA-Faktor {factorName} wird im aktuellen MFA-Ablauf nicht unterstützt.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "Für {factorName} wurde kein Kontakt gefunden.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "Der geräteübergreifende Link ist ungültig oder unvollständig.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "{event} ist nicht möglich, während der MFA-Ablauf im Zustand {state} ist.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "Ein neuer Code kann in {seconds} Sekunden angefordert werden.",
+  ERROR_STEP_UP_SESSION_REQUIRED:
+    "Melden Sie sich an, bevor Sie sich erneut verifizieren.",
+  ERROR_SESSION_USERNAME_MISSING: "Das Sitzungstoken enthält keinen Benutzer.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "Für Passkeys ist ein Payload erforderlich.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Ungültiger Payload für Passkeys.",
+
+  bad_request:
+    "Die Anfrage konnte nicht verarbeitet werden. Bitte versuchen Sie es erneut.",
+  unauthorized: "Sie sind nicht berechtigt, diese Aktion auszuführen.",
+  forbidden: "Diese Aktion ist nicht erlaubt.",
+  not_found: "Die angeforderte Ressource wurde nicht gefunden.",
+  internal_error:
+    "Bei uns ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+  additional_auth_required:
+    "Eine zusätzliche Authentifizierung ist erforderlich.",
+  user_not_found: "Für diesen Benutzer wurde kein Konto gefunden.",
+  credential_not_found: "Dieser Passkey ist nicht mehr registriert.",
+  session_expired: "Ihre Sitzung ist abgelaufen. Bitte beginnen Sie erneut.",
+  invalid_otp: "Der eingegebene Code ist falsch.",
+  too_many_requests:
+    "Zu viele Versuche. Bitte warten Sie einen Moment und versuchen Sie es erneut.",
+  unknown_error:
+    "Ein unerwarteter Fehler ist aufgetreten. Bitte versuchen Sie es erneut.",
+};
@@ -0,0 +1,61 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * English messages. Used when a message is missing from the current locale.
+ */
+export const en: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "Passkey authentication has been aborted",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Your device does not support discoverable credentials",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Your device does not support user verification",
+  ERROR_PASSKEY_EXISTS: "A passkey already exists on your device",
+  ERROR_GENERAL_ERROR: "The passkey operation has failed",
+  ERROR_PASSKEY_CREATION_FAILED: "Passkey creation has failed",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED: "Passkey authentication has failed",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Your device does not support the algorithms required for passkey creation",
+  ERROR_DOMAIN_MISMATCH:
+    "The domain of the relying party ({rpId}) is invalid for this domain",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Your device could not process the requested passkey options",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "This field cannot be empty",
+  ERROR_VALIDATION_INVALID_FORMAT: "The value has an invalid format",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "A required field is missing",
+  ERROR_VALIDATION_OUT_OF_RANGE: "The value is out of range",
+  ERROR_VALIDATION_TYPE_MISMATCH: "The value has an invalid type",
+
+  ERROR_MFA_SESSION_REQUIRED: "A session is required to perform MFA factor.",
+  ERROR_MFA_SESSION_EXPIRED: "The MFA session has expired. Please start again.",
+  ERROR_MFA_PAYLOAD_REQUIRED: "Payload is required to perform MFA factor.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED: "Payload is required for {factorName}.",
+  ERROR_MFA_FACTOR_NOT_FOUND: "No matching factor found for {factorName}.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "MFA factor {factorName} is not supported in the current MFA flow.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "Contact is not found for {factorName}.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "The cross-device link is invalid or incomplete.",
+  ERROR_MFA_TRANSITION_INVALID: "Cannot {event} while the MFA flow is {state}.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "A new code can be requested in {seconds} seconds.",
+  ERROR_STEP_UP_SESSION_REQUIRED: "Sign in before re-verifying.",
+  ERROR_SESSION_USERNAME_MISSING: "The session token does not identify a user.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "Payload is required for passkeys.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Invalid payload for passkeys.",
+
+  bad_request: "The request could not be processed. Please try again.",
+  unauthorized: "You are not authorized to perform this action.",
+  forbidden: "This action is not allowed.",
+  not_found: "The requested resource could not be found.",
+  internal_error: "Something went wrong on our side. Please try again.",
+  additional_auth_required: "Additional authentication is required.",
+  user_not_found: "No account was found for this user.",
+  credential_not_found: "This passkey is no longer registered.",
+  session_expired: "Your session has expired. Please start again.",
+  invalid_otp: "The code you entered is incorrect.",
+  too_many_requests: "Too many attempts. Please wait a moment and try again.",
+  unknown_error: "An unexpected error occurred. Please try again.",
+};
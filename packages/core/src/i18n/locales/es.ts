@@ -0,0 +1,71 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Spanish messages.
+ */
+export const es: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "La autenticación con llave de acceso se ha cancelado",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Tu dispositivo no admite credenciales detectables",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Tu dispositivo no admite la verificación de usuario",
+  ERROR_PASSKEY_EXISTS: "Ya existe una llave de acceso en tu dispositivo",
+  ERROR_GENERAL_ERROR: "La operación con la llave de acceso ha fallado",
+  ERROR_PASSKEY_CREATION_FAILED: "La creación de la llave de acceso ha fallado",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED:
+    "La autenticación con la llave de acceso ha fallado",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Tu dispositivo no admite los algoritmos necesarios para crear una llave de acceso",
+  ERROR_DOMAIN_MISMATCH:
+    "El dominio de la parte de confianza ({rpId}) no es válido para este dominio",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Tu dispositivo no pudo procesar las opciones de llave de acceso solicitadas",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "Este campo no puede estar vacío",
+  ERROR_VALIDATION_INVALID_FORMAT: "El valor tiene un formato no válido",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "Falta un campo obligatorio",
+  ERROR_VALIDATION_OUT_OF_RANGE: "El valor está fuera del rango permitido",
+  ERROR_VALIDATION_TYPE_MISMATCH: "El valor tiene un tipo no válido",
+
+  ERROR_MFA_SESSION_REQUIRED:
+    "Se requiere una sesión para realizar el factor MFA.",
+  ERROR_MFA_SESSION_EXPIRED: "La sesión MFA ha caducado. Vuelva a empezar.",
+  ERROR_MFA_PAYLOAD_REQUIRED:
+    "Se requiere un payload para realizar el factor MFA.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED:
+    "Se requiere un payload para {factorName}.",
+  ERROR_MFA_FACTOR_NOT_FOUND:
+    "No se encontró ningún factor coincidente para {factorName}.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "El factor MFA {factorName} no es compatible con el flujo MFA actual.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "No se encontró un contacto para {factorName}.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "El enlace entre dispositivos no es válido o está incompleto.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "No se puede ejecutar {event} mientras el flujo MFA está en {state}.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "Se puede solicitar un nuevo código en {seconds} segundos.",
+  ERROR_STEP_UP_SESSION_REQUIRED:
+    "Inicie sesión antes de volver a verificar su identidad.",
+  ERROR_SESSION_USERNAME_MISSING:
+    "El token de sesión no identifica a ningún usuario.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED:
+    "Se requiere un payload para las llaves de acceso.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Payload no válido para llaves de acceso.",
+
+  bad_request: "No se pudo procesar la solicitud. Inténtalo de nuevo.",
+  unauthorized: "No tienes autorización para realizar esta acción.",
+  forbidden: "Esta acción no está permitida.",
+  not_found: "No se encontró el recurso solicitado.",
+  internal_error: "Algo salió mal por nuestra parte. Inténtalo de nuevo.",
+  additional_auth_required: "Se requiere una autenticación adicional.",
+  user_not_found: "No se encontró ninguna cuenta para este usuario.",
+  credential_not_found: "Esta clave de acceso ya no está registrada.",
+  session_expired: "Tu sesión ha caducado. Vuelve a empezar.",
+  invalid_otp: "El código que has introducido es incorrecto.",
+  too_many_requests:
+    "Demasiados intentos. Espera un momento e inténtalo de nuevo.",
+  unknown_error: "Se produjo un error inesperado. Inténtalo de nuevo.",
+};
@@ -0,0 +1,70 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * French messages.
+ */
+export const fr: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "L'authentification par clé d'accès a été annulée",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Votre appareil ne prend pas en charge les identifiants détectables",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Votre appareil ne prend pas en charge la vérification de l'utilisateur",
+  ERROR_PASSKEY_EXISTS: "Une clé d'accès existe déjà sur votre appareil",
+  ERROR_GENERAL_ERROR: "L'opération de clé d'accès a échoué",
+  ERROR_PASSKEY_CREATION_FAILED: "La création de la clé d'accès a échoué",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED:
+    "L'authentification par clé d'accès a échoué",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Votre appareil ne prend pas en charge les algorithmes requis pour créer une clé d'accès",
+  ERROR_DOMAIN_MISMATCH:
+    "Le domaine de la partie de confiance ({rpId}) n'est pas valide pour ce domaine",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Votre appareil n'a pas pu traiter les options de clé d'accès demandées",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "Ce champ ne peut pas être vide",
+  ERROR_VALIDATION_INVALID_FORMAT: "Le format de la valeur n'est pas valide",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "Un champ obligatoire est manquant",
+  ERROR_VALIDATION_OUT_OF_RANGE: "La valeur est hors limites",
+  ERROR_VALIDATION_TYPE_MISMATCH: "Le type de la valeur n'est pas valide",
+
+  ERROR_MFA_SESSION_REQUIRED:
+    "Une session est requise pour effectuer le facteur MFA.",
+  ERROR_MFA_SESSION_EXPIRED: "La session MFA a expiré. Veuillez recommencer.",
+  ERROR_MFA_PAYLOAD_REQUIRED:
+    "Un payload est requis pour effectuer le facteur MFA.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED: "Un payload est requis pour {factorName}.",
+  ERROR_MFA_FACTOR_NOT_FOUND:
+    "Aucun facteur correspondant trouvé pour {factorName}.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "Le facteur MFA {factorName} n'est pas pris en charge dans le flux MFA actuel.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "Aucun contact trouvé pour {factorName}.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "Le lien inter-appareils est invalide ou incomplet.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "Impossible d'exécuter {event} lorsque le flux MFA est à l'état {state}.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "Un nouveau code pourra être demandé dans {seconds} secondes.",
+  ERROR_STEP_UP_SESSION_REQUIRED:
+    "Connectez-vous avant de vérifier à nouveau votre identité.",
+  ERROR_SESSION_USERNAME_MISSING:
+    "Le jeton de session n'identifie aucun utilisateur.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED:
+    "Un payload est requis pour les clés d'accès.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Payload non valide pour les clés d'accès.",
+
+  bad_request: "La requête n'a pas pu être traitée. Veuillez réessayer.",
+  unauthorized: "Vous n'êtes pas autorisé à effectuer cette action.",
+  forbidden: "Cette action n'est pas autorisée.",
+  not_found: "La ressource demandée est introuvable.",
+  internal_error: "Un problème est survenu de notre côté. Veuillez réessayer.",
+  additional_auth_required: "Une authentification supplémentaire est requise.",
+  user_not_found: "Aucun compte n'a été trouvé pour cet utilisateur.",
+  credential_not_found: "Cette clé d'accès n'est plus enregistrée.",
+  session_expired: "Votre session a expiré. Veuillez recommencer.",
+  invalid_otp: "Le code saisi est incorrect.",
+  too_many_requests:
+    "Trop de tentatives. Veuillez patienter un instant et réessayer.",
+  unknown_error: "Une erreur inattendue s'est produite. Veuillez réessayer.",
+};
@@ -0,0 +1,27 @@
+// Copyright (C) LoginID
+
+import { MessageCatalog } from "../../types";
+import { zh } from "./zh";
+import { pt } from "./pt";
+import { ko } from "./ko";
+import { ja } from "./ja";
+import { it } from "./it";
+import { fr } from "./fr";
+import { es } from "./es";
+import { en } from "./en";
+import { de } from "./de";
+
+/**
+ * Translations bundled with the SDK, keyed by language tag.
+ */
+export const BUNDLED_MESSAGES: Record<string, MessageCatalog> = {
+  de,
+  en,
+  es,
+  fr,
+  it,
+  ja,
+  ko,
+  pt,
+  zh,
+};
@@ -0,0 +1,69 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Italian messages.
+ */
+export const it: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "L'autenticazione con passkey è stata annullata",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Il tuo dispositivo non supporta le credenziali rilevabili",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Il tuo dispositivo non supporta la verifica dell'utente",
+  ERROR_PASSKEY_EXISTS: "Sul tuo dispositivo esiste già una passkey",
+  ERROR_GENERAL_ERROR: "L'operazione con la passkey non è riuscita",
+  ERROR_PASSKEY_CREATION_FAILED: "La creazione della passkey non è riuscita",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED:
+    "L'autenticazione con la passkey non è riuscita",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Il tuo dispositivo non supporta gli algoritmi necessari per creare una passkey",
+  ERROR_DOMAIN_MISMATCH:
+    "Il dominio della relying party ({rpId}) non è valido per questo dominio",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Il tuo dispositivo non è riuscito a elaborare le opzioni passkey richieste",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "Questo campo non può essere vuoto",
+  ERROR_VALIDATION_INVALID_FORMAT: "Il valore ha un formato non valido",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "Manca un campo obbligatorio",
+  ERROR_VALIDATION_OUT_OF_RANGE: "Il valore è fuori intervallo",
+  ERROR_VALIDATION_TYPE_MISMATCH: "Il valore ha un tipo non valido",
+
+  ERROR_MFA_SESSION_REQUIRED:
+    "È necessaria una sessione per eseguire il fattore MFA.",
+  ERROR_MFA_SESSION_EXPIRED: "La sessione MFA è scaduta. Ricomincia.",
+  ERROR_MFA_PAYLOAD_REQUIRED:
+    "È necessario un payload per eseguire il fattore MFA.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED:
+    "È necessario un payload per {factorName}.",
+  ERROR_MFA_FACTOR_NOT_FOUND:
+    "Nessun fattore corrispondente trovato per {factorName}.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "Il fattore MFA {factorName} non è supportato nel flusso MFA corrente.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "Nessun contatto trovato per {factorName}.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "Il link tra dispositivi non è valido o è incompleto.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "Impossibile eseguire {event} mentre il flusso MFA è nello stato {state}.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "Un nuovo codice può essere richiesto tra {seconds} secondi.",
+  ERROR_STEP_UP_SESSION_REQUIRED:
+    "Accedi prima di verificare nuovamente la tua identità.",
+  ERROR_SESSION_USERNAME_MISSING:
+    "Il token di sessione non identifica alcun utente.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "È necessario un payload per le passkey.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Payload non valido per le passkey.",
+
+  bad_request: "Impossibile elaborare la richiesta. Riprova.",
+  unauthorized: "Non sei autorizzato a eseguire questa azione.",
+  forbidden: "Questa azione non è consentita.",
+  not_found: "La risorsa richiesta non è stata trovata.",
+  internal_error: "Si è verificato un problema da parte nostra. Riprova.",
+  additional_auth_required: "È necessaria un'autenticazione aggiuntiva.",
+  user_not_found: "Nessun account trovato per questo utente.",
+  credential_not_found: "Questa passkey non è più registrata.",
+  session_expired: "La sessione è scaduta. Ricomincia.",
+  invalid_otp: "Il codice inserito non è corretto.",
+  too_many_requests: "Troppi tentativi. Attendi un momento e riprova.",
+  unknown_error: "Si è verificato un errore imprevisto. Riprova.",
+};
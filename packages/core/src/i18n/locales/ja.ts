@@ -0,0 +1,64 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Japanese messages.
+ */
+export const ja: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "パスキー認証が中止されました",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "お使いのデバイスは検出可能な認証情報に対応していません",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "お使いのデバイスはユーザー検証に対応していません",
+  ERROR_PASSKEY_EXISTS: "このデバイスにはすでにパスキーが存在します",
+  ERROR_GENERAL_ERROR: "パスキーの操作に失敗しました",
+  ERROR_PASSKEY_CREATION_FAILED: "パスキーの作成に失敗しました",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED: "パスキーによる認証に失敗しました",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "お使いのデバイスはパスキーの作成に必要なアルゴリズムに対応していません",
+  ERROR_DOMAIN_MISMATCH:
+    "依拠当事者のドメイン ({rpId}) はこのドメインでは無効です",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "お使いのデバイスは要求されたパスキーのオプションを処理できませんでした",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "この項目は空にできません",
+  ERROR_VALIDATION_INVALID_FORMAT: "値の形式が正しくありません",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "必須項目が入力されていません",
+  ERROR_VALIDATION_OUT_OF_RANGE: "値が範囲外です",
+  ERROR_VALIDATION_TYPE_MISMATCH: "値の型が正しくありません",
+
+  ERROR_MFA_SESSION_REQUIRED: "MFA 要素を実行するにはセッションが必要です。",
+  ERROR_MFA_SESSION_EXPIRED:
+    "MFA セッションの有効期限が切れました。最初からやり直してください。",
+  ERROR_MFA_PAYLOAD_REQUIRED: "MFA 要素を実行するにはペイロードが必要です。",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED: "{factorName} にはペイロードが必要です。",
+  ERROR_MFA_FACTOR_NOT_FOUND: "{factorName} に一致する要素が見つかりません。",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "MFA 要素 {factorName} は現在の MFA フローではサポートされていません。",
+  ERROR_MFA_CONTACT_NOT_FOUND: "{factorName} の連絡先が見つかりません。",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID: "デバイス間リンクが無効か不完全です。",
+  ERROR_MFA_TRANSITION_INVALID:
+    "MFA フローが {state} の間は {event} を実行できません。",
+  ERROR_OTP_RESEND_TOO_EARLY: "新しいコードは {seconds} 秒後に再送信できます。",
+  ERROR_STEP_UP_SESSION_REQUIRED: "再認証の前にサインインしてください。",
+  ERROR_SESSION_USERNAME_MISSING:
+    "セッショントークンにユーザーが含まれていません。",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "パスキーにはペイロードが必要です。",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "パスキーのペイロードが無効です。",
+
+  bad_request: "リクエストを処理できませんでした。もう一度お試しください。",
+  unauthorized: "この操作を行う権限がありません。",
+  forbidden: "この操作は許可されていません。",
+  not_found: "要求されたリソースが見つかりません。",
+  internal_error: "サーバーで問題が発生しました。もう一度お試しください。",
+  additional_auth_required: "追加の認証が必要です。",
+  user_not_found: "このユーザーのアカウントが見つかりません。",
+  credential_not_found: "このパスキーは登録されていません。",
+  session_expired:
+    "セッションの有効期限が切れました。最初からやり直してください。",
+  invalid_otp: "入力されたコードが正しくありません。",
+  too_many_requests:
+    "試行回数が多すぎます。しばらく待ってからもう一度お試しください。",
+  unknown_error: "予期しないエラーが発生しました。もう一度お試しください。",
+};
@@ -0,0 +1,61 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Korean messages.
+ */
+export const ko: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "패스키 인증이 중단되었습니다",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "기기에서 검색 가능한 자격 증명을 지원하지 않습니다",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "기기에서 사용자 확인을 지원하지 않습니다",
+  ERROR_PASSKEY_EXISTS: "기기에 패스키가 이미 있습니다",
+  ERROR_GENERAL_ERROR: "패스키 작업에 실패했습니다",
+  ERROR_PASSKEY_CREATION_FAILED: "패스키 생성에 실패했습니다",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED: "패스키 인증에 실패했습니다",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "기기에서 패스키 생성에 필요한 알고리즘을 지원하지 않습니다",
+  ERROR_DOMAIN_MISMATCH:
+    "신뢰 당사자의 도메인({rpId})이 이 도메인에 유효하지 않습니다",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "기기에서 요청된 패스키 옵션을 처리할 수 없습니다",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "이 필드는 비워 둘 수 없습니다",
+  ERROR_VALIDATION_INVALID_FORMAT: "값의 형식이 올바르지 않습니다",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "필수 필드가 누락되었습니다",
+  ERROR_VALIDATION_OUT_OF_RANGE: "값이 허용 범위를 벗어났습니다",
+  ERROR_VALIDATION_TYPE_MISMATCH: "값의 유형이 올바르지 않습니다",
+
+  ERROR_MFA_SESSION_REQUIRED: "MFA 요소를 수행하려면 세션이 필요합니다.",
+  ERROR_MFA_SESSION_EXPIRED: "MFA 세션이 만료되었습니다. 다시 시작하세요.",
+  ERROR_MFA_PAYLOAD_REQUIRED: "MFA 요소를 수행하려면 페이로드가 필요합니다.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED: "{factorName}에는 페이로드가 필요합니다.",
+  ERROR_MFA_FACTOR_NOT_FOUND: "{factorName}과(와) 일치하는 요소가 없습니다.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "MFA 요소 {factorName}은(는) 현재 MFA 흐름에서 지원되지 않습니다.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "{factorName}의 연락처를 찾을 수 없습니다.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "기기 간 링크가 올바르지 않거나 불완전합니다.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "MFA 흐름이 {state} 상태일 때는 {event}을(를) 실행할 수 없습니다.",
+  ERROR_OTP_RESEND_TOO_EARLY: "{seconds}초 후에 새 코드를 요청할 수 있습니다.",
+  ERROR_STEP_UP_SESSION_REQUIRED: "다시 인증하기 전에 로그인하세요.",
+  ERROR_SESSION_USERNAME_MISSING: "세션 토큰에 사용자 정보가 없습니다.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "패스키에는 페이로드가 필요합니다.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "패스키 페이로드가 올바르지 않습니다.",
+
+  bad_request: "요청을 처리할 수 없습니다. 다시 시도해 주세요.",
+  unauthorized: "이 작업을 수행할 권한이 없습니다.",
+  forbidden: "허용되지 않는 작업입니다.",
+  not_found: "요청한 리소스를 찾을 수 없습니다.",
+  internal_error: "서버에서 문제가 발생했습니다. 다시 시도해 주세요.",
+  additional_auth_required: "추가 인증이 필요합니다.",
+  user_not_found: "이 사용자의 계정을 찾을 수 없습니다.",
+  credential_not_found: "이 패스키는 더 이상 등록되어 있지 않습니다.",
+  session_expired: "세션이 만료되었습니다. 처음부터 다시 시작해 주세요.",
+  invalid_otp: "입력한 코드가 올바르지 않습니다.",
+  too_many_requests: "시도 횟수가 너무 많습니다. 잠시 후 다시 시도해 주세요.",
+  unknown_error: "예기치 않은 오류가 발생했습니다. 다시 시도해 주세요.",
+};
@@ -0,0 +1,70 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Portuguese (Brazil) messages.
+ */
+export const pt: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "A autenticação com chave de acesso foi cancelada",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED:
+    "Seu dispositivo não oferece suporte a credenciais detectáveis",
+  ERROR_USER_VERIFICATION_UNSUPPORTED:
+    "Seu dispositivo não oferece suporte à verificação do usuário",
+  ERROR_PASSKEY_EXISTS: "Já existe uma chave de acesso no seu dispositivo",
+  ERROR_GENERAL_ERROR: "A operação com a chave de acesso falhou",
+  ERROR_PASSKEY_CREATION_FAILED: "A criação da chave de acesso falhou",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED:
+    "A autenticação com a chave de acesso falhou",
+  ERROR_ALGORITHMS_UNSUPPORTED:
+    "Seu dispositivo não oferece suporte aos algoritmos necessários para criar uma chave de acesso",
+  ERROR_DOMAIN_MISMATCH:
+    "O domínio da parte confiável ({rpId}) não é válido para este domínio",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR:
+    "Seu dispositivo não conseguiu processar as opções de chave de acesso solicitadas",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "Este campo não pode ficar vazio",
+  ERROR_VALIDATION_INVALID_FORMAT: "O valor tem um formato inválido",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "Um campo obrigatório está faltando",
+  ERROR_VALIDATION_OUT_OF_RANGE: "O valor está fora do intervalo permitido",
+  ERROR_VALIDATION_TYPE_MISMATCH: "O valor tem um tipo inválido",
+
+  ERROR_MFA_SESSION_REQUIRED:
+    "É necessária uma sessão para realizar o fator MFA.",
+  ERROR_MFA_SESSION_EXPIRED: "A sessão MFA expirou. Comece novamente.",
+  ERROR_MFA_PAYLOAD_REQUIRED:
+    "É necessário um payload para realizar o fator MFA.",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED:
+    "É necessário um payload para {factorName}.",
+  ERROR_MFA_FACTOR_NOT_FOUND:
+    "Nenhum fator correspondente encontrado para {factorName}.",
+  ERROR_MFA_FACTOR_UNSUPPORTED:
+    "O fator MFA {factorName} não é compatível com o fluxo MFA atual.",
+  ERROR_MFA_CONTACT_NOT_FOUND: "Nenhum contato encontrado para {factorName}.",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID:
+    "O link entre dispositivos é inválido ou está incompleto.",
+  ERROR_MFA_TRANSITION_INVALID:
+    "Não é possível executar {event} enquanto o fluxo MFA está em {state}.",
+  ERROR_OTP_RESEND_TOO_EARLY:
+    "Um novo código pode ser solicitado em {seconds} segundos.",
+  ERROR_STEP_UP_SESSION_REQUIRED:
+    "Inicie sessão antes de verificar novamente a sua identidade.",
+  ERROR_SESSION_USERNAME_MISSING:
+    "O token de sessão não identifica nenhum usuário.",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED:
+    "É necessário um payload para as chaves de acesso.",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "Payload inválido para chaves de acesso.",
+
+  bad_request: "Não foi possível processar a solicitação. Tente novamente.",
+  unauthorized: "Você não tem autorização para realizar esta ação.",
+  forbidden: "Esta ação não é permitida.",
+  not_found: "O recurso solicitado não foi encontrado.",
+  internal_error: "Algo deu errado do nosso lado. Tente novamente.",
+  additional_auth_required: "É necessária uma autenticação adicional.",
+  user_not_found: "Nenhuma conta foi encontrada para este usuário.",
+  credential_not_found: "Esta chave de acesso não está mais registrada.",
+  session_expired: "Sua sessão expirou. Comece novamente.",
+  invalid_otp: "O código informado está incorreto.",
+  too_many_requests: "Muitas tentativas. Aguarde um momento e tente novamente.",
+  unknown_error: "Ocorreu um erro inesperado. Tente novamente.",
+};
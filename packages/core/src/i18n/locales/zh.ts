@@ -0,0 +1,53 @@
+// Copyright (C) LoginID
+
+import { MessageKey } from "../../types";
+
+/**
+ * Chinese (Simplified) messages.
+ */
+export const zh: Record<MessageKey, string> = {
+  ERROR_PASSKEY_ABORTED: "通行密钥验证已中止",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED: "您的设备不支持可发现凭据",
+  ERROR_USER_VERIFICATION_UNSUPPORTED: "您的设备不支持用户验证",
+  ERROR_PASSKEY_EXISTS: "您的设备上已存在通行密钥",
+  ERROR_GENERAL_ERROR: "通行密钥操作失败",
+  ERROR_PASSKEY_CREATION_FAILED: "通行密钥创建失败",
+  ERROR_PASSKEY_AUTHENTICATION_FAILED: "通行密钥身份验证失败",
+  ERROR_ALGORITHMS_UNSUPPORTED: "您的设备不支持创建通行密钥所需的算法",
+  ERROR_DOMAIN_MISMATCH: "依赖方的域名 ({rpId}) 对此域名无效",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR: "您的设备无法处理所请求的通行密钥选项",
+
+  ERROR_VALIDATION_EMPTY_INPUT: "此字段不能为空",
+  ERROR_VALIDATION_INVALID_FORMAT: "值的格式无效",
+  ERROR_VALIDATION_REQUIRED_FIELD_MISSING: "缺少必填字段",
+  ERROR_VALIDATION_OUT_OF_RANGE: "值超出范围",
+  ERROR_VALIDATION_TYPE_MISMATCH: "值的类型无效",
+
+  ERROR_MFA_SESSION_REQUIRED: "执行 MFA 因素需要会话。",
+  ERROR_MFA_SESSION_EXPIRED: "MFA 会话已过期。请重新开始。",
+  ERROR_MFA_PAYLOAD_REQUIRED: "执行 MFA 因素需要有效负载。",
+  ERROR_MFA_FACTOR_PAYLOAD_REQUIRED: "{factorName} 需要有效负载。",
+  ERROR_MFA_FACTOR_NOT_FOUND: "未找到与 {factorName} 匹配的因素。",
+  ERROR_MFA_FACTOR_UNSUPPORTED: "当前 MFA 流程不支持 MFA 因素 {factorName}。",
+  ERROR_MFA_CONTACT_NOT_FOUND: "未找到 {factorName} 的联系方式。",
+  ERROR_MFA_CROSS_DEVICE_LINK_INVALID: "跨设备链接无效或不完整。",
+  ERROR_MFA_TRANSITION_INVALID: "MFA 流程处于 {state} 状态时无法执行 {event}。",
+  ERROR_OTP_RESEND_TOO_EARLY: "{seconds} 秒后可以重新请求验证码。",
+  ERROR_STEP_UP_SESSION_REQUIRED: "请先登录，再重新验证身份。",
+  ERROR_SESSION_USERNAME_MISSING: "会话令牌未标识任何用户。",
+  ERROR_PASSKEY_PAYLOAD_REQUIRED: "通行密钥需要有效负载。",
+  ERROR_PASSKEY_PAYLOAD_INVALID: "通行密钥的有效负载无效。",
+
+  bad_request: "无法处理该请求，请重试。",
+  unauthorized: "您无权执行此操作。",
+  forbidden: "不允许执行此操作。",
+  not_found: "找不到所请求的资源。",
+  internal_error: "我们这边出现了问题，请重试。",
+  additional_auth_required: "需要进行额外的身份验证。",
+  user_not_found: "未找到该用户的账户。",
+  credential_not_found: "该通行密钥已不再注册。",
+  session_expired: "您的会话已过期，请重新开始。",
+  invalid_otp: "您输入的验证码不正确。",
+  too_many_requests: "尝试次数过多，请稍后再试。",
+  unknown_error: "发生意外错误，请重试。",
+};
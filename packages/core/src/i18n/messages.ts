@@ -0,0 +1,135 @@
+// Copyright (C) LoginID
+
+import { LocaleOptions, MessageCatalog, MessageKey } from "../types";
+import { BUNDLED_MESSAGES } from "./locales";
+
+/**
+ * The locale used when a message is missing from the current locale.
+ */
+const DEFAULT_LOCALE = "en";
+
+/**
+ * Message catalogs keyed by normalized language tag, shared by all SDK instances.
+ */
+const catalogs = new Map<string, MessageCatalog>(
+  Object.entries(BUNDLED_MESSAGES),
+);
+
+/**
+ * The locale SDK messages are resolved in.
+ */
+let currentLocale = DEFAULT_LOCALE;
+
+/**
+ * Normalizes a language tag, for example `pt_BR` to `pt-br`.
+ *
+ * @param {string} locale The language tag.
+ * @returns {string} The normalized language tag.
+ */
+const normalizeLocale = (locale: string): string => {
+  return locale.trim().replace(/_/g, "-").toLowerCase();
+};
+
+/**
+ * Lists the catalogs to search for a locale, from the most to the least specific,
+ * for example `zh-hant-tw`, `zh-hant`, `zh` and finally `en`.
+ *
+ * @param {string} locale The language tag.
+ * @returns {string[]} The normalized language tags to search.
+ */
+const getFallbackLocales = (locale: string): string[] => {
+  const subtags = normalizeLocale(locale).split("-");
+  const locales: string[] = [];
+
+  for (let i = subtags.length; i > 0; i--) {
+    locales.push(subtags.slice(0, i).join("-"));
+  }
+
+  if (!locales.includes(DEFAULT_LOCALE)) {
+    locales.push(DEFAULT_LOCALE);
+  }
+
+  return locales;
+};
+
+/**
+ * Sets the locale SDK error messages are resolved in. Regional tags such as `pt-BR` fall back to
+ * their language, and missing messages fall back to English. Applies to all SDK instances that
+ * are not configured with a `locale`.
+ *
+ * @param {string} locale A BCP 47 language tag, for example `fr` or `pt-BR`.
+ */
+export const setLocale = (locale: string) => {
+  currentLocale = normalizeLocale(locale) || DEFAULT_LOCALE;
+};
+
+/**
+ * Returns the locale SDK error messages are resolved in.
+ *
+ * @returns {string} The normalized language tag.
+ */
+export const getLocale = (): string => {
+  return currentLocale;
+};
+
+/**
+ * Adds messages for a locale, overriding bundled or previously added messages with the same key.
+ * Use it to adjust the wording of the bundled translations or to add a new language for all SDK
+ * instances; the `messages` configuration option does the same for a single instance.
+ *
+ * @param {string} locale A BCP 47 language tag, for example `nl` or `en-GB`.
+ * @param {MessageCatalog} messages The messages keyed by error code.
+ * @example
+ * ```javascript
+ * import { addMessages, setLocale } from "@loginid/websdk3";
+ *
+ * addMessages("nl", {
+ *   ERROR_PASSKEY_EXISTS: "Er staat al een passkey op uw apparaat",
+ *   invalid_otp: "De ingevoerde code is onjuist.",
+ * });
+ * setLocale("nl");
+ * ```
+ */
+export const addMessages = (locale: string, messages: MessageCatalog) => {
+  const key = normalizeLocale(locale);
+  catalogs.set(key, { ...catalogs.get(key), ...messages });
+};
+
+/**
+ * Resolves a message in the current locale and fills in its `{name}` placeholders.
+ *
+ * Passing the `locale` and `messages` of an SDK configuration resolves the message for that
+ * instance: its messages take precedence over the shared catalogs, and its locale over the
+ * current locale.
+ *
+ * @param {MessageKey} key The error code identifying the message.
+ * @param {Record<string, string | number | undefined>} [params={}] Values for the placeholders of the message.
+ * @param {string | LocaleOptions} [locale] The locale, or the locale options, to use instead of the current locale.
+ * @returns {string} The localized message, or the key if no catalog contains it.
+ */
+export const getMessage = (
+  key: MessageKey,
+  params: Record<string, string | number | undefined> = {},
+  locale: string | LocaleOptions = currentLocale,
+): string => {
+  const { locale: tag = currentLocale, messages = {} } =
+    typeof locale === "string" ? { locale } : locale;
+
+  const overrides = new Map<string, MessageCatalog>();
+  for (const [candidate, catalog] of Object.entries(messages)) {
+    overrides.set(normalizeLocale(candidate), catalog);
+  }
+
+  let message: string | undefined;
+
+  for (const candidate of getFallbackLocales(tag)) {
+    message = overrides.get(candidate)?.[key] ?? catalogs.get(candidate)?.[key];
+    if (message !== undefined) {
+      break;
+    }
+  }
+
+  return (message ?? key).replace(/{(\w+)}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+};
@@ -0,0 +1,17 @@
+// Copyright (C) LoginID
+
+import {
+  JwtClaims,
+  JwtVerifierOptions,
+  TokenVerificationOptions,
+  VerifyTokenOptions,
+} from "../types";
+
+export type {
+  JwtClaims,
+  JwtVerifierOptions,
+  TokenVerificationOptions,
+  VerifyTokenOptions,
+};
+
+export * from "./verifier";
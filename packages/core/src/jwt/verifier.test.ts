@@ -0,0 +1,146 @@
+// Copyright (C) LoginID
+
+import { TextDecoder, TextEncoder } from "node:util";
+import { TokenVerificationError } from "../errors";
+import { JwtVerifier } from "./verifier";
+import { webcrypto } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+// jsdom implements neither WebCrypto nor the Encoding API, which the verifier relies on
+Object.defineProperty(globalThis, "crypto", { value: webcrypto });
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+const baseUrl = "https://app-1.verifier.loginid.io";
+const appId = "app-1";
+const kid = "key-1";
+
+const encode = (value: string | object): string =>
+  Buffer.from(
+    typeof value === "string" ? value : JSON.stringify(value),
+  ).toString("base64url");
+
+describe("JwtVerifier", () => {
+  let keyPair: CryptoKeyPair;
+  const fetchMock = jest.fn();
+
+  const sign = async (
+    payload: string | object,
+    { detached = false } = {},
+  ): Promise<string> => {
+    const header = encode({ alg: "ES256", typ: "JWT", kid });
+    const body = encode(payload);
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      keyPair.privateKey,
+      new TextEncoder().encode(`${header}.${body}`),
+    );
+
+    return [
+      header,
+      detached ? "" : body,
+      Buffer.from(signature).toString("base64url"),
+    ].join(".");
+  };
+
+  const claims = (overrides: Record<string, unknown> = {}) => ({
+    sub: "user-1",
+    iss: baseUrl,
+    aud: appId,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    );
+    const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ keys: [{ ...jwk, kid }] }),
+    });
+    globalThis.fetch = fetchMock;
+  });
+
+  it("verifies a token signed with a key of the JWKS", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+    const token = await sign(claims());
+
+    await expect(verifier.verifyToken(token)).resolves.toMatchObject({
+      sub: "user-1",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${baseUrl}/fido2/v2/.well-known/jwks.json`,
+    );
+  });
+
+  it("checks the issuer and audience against the base URL and app ID by default", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+
+    await expect(
+      verifier.verifyToken(await sign(claims({ iss: "https://evil.example" }))),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_ISSUER_MISMATCH" });
+    await expect(
+      verifier.verifyToken(await sign(claims({ aud: "another-app" }))),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_AUDIENCE_MISMATCH" });
+  });
+
+  it("rejects tokens without an expiry or past their expiry", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+
+    await expect(
+      verifier.verifyToken(await sign(claims({ exp: undefined }))),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_EXPIRY_MISSING" });
+    await expect(
+      verifier.verifyToken(
+        await sign(claims({ exp: Math.floor(Date.now() / 1000) - 3600 })),
+      ),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_EXPIRED" });
+  });
+
+  it("rejects a token whose payload was changed after signing", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+    const [header, , signature] = (await sign(claims())).split(".");
+    const forged = [header, encode(claims({ sub: "user-2" })), signature].join(
+      ".",
+    );
+
+    await expect(verifier.verifyToken(forged)).rejects.toThrow(
+      TokenVerificationError,
+    );
+    await expect(verifier.verifyToken(forged)).rejects.toMatchObject({
+      code: "ERROR_TOKEN_SIGNATURE_INVALID",
+    });
+  });
+
+  it("verifies a detached signature over a non-ASCII payload", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+    const payload = JSON.stringify(claims({ txPayload: "Pay 10 € to Zoë" }));
+    const token = await sign(payload, { detached: true });
+
+    await expect(
+      verifier.verifyToken(token, { payload }),
+    ).resolves.toMatchObject({ txPayload: "Pay 10 € to Zoë" });
+    await expect(verifier.verifyToken(token)).rejects.toMatchObject({
+      code: "ERROR_TOKEN_MALFORMED",
+    });
+  });
+
+  it("verifies only the signature of a detached payload that is not JSON", async () => {
+    const verifier = new JwtVerifier({ baseUrl, appId });
+    const payload = "Pay 10 € to Zoë";
+    const token = await sign(payload, { detached: true });
+
+    await expect(verifier.verifyToken(token, { payload })).resolves.toEqual({});
+    await expect(
+      verifier.verifyToken(token, { payload: "Pay 1000 € to Zoë" }),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_SIGNATURE_INVALID" });
+    await expect(
+      verifier.verifyToken(await sign(payload)),
+    ).rejects.toMatchObject({ code: "ERROR_TOKEN_EXPIRY_MISSING" });
+  });
+});
@@ -0,0 +1,378 @@
+// Copyright (C) LoginID
+
+import {
+  JwtClaims,
+  JwtVerifierOptions,
+  TokenVerificationOptions,
+  VerifyTokenOptions,
+} from "../types";
+import { base64UrlToBuffer, bufferToBase64Url } from "../utils/crypto";
+import { LoginIDConfigValidator } from "../validators";
+import { TokenVerificationError } from "../errors";
+
+/**
+ * A JSON Web Key as published in the application's JWKS.
+ */
+type Jwk = JsonWebKey & { kid?: string };
+
+/**
+ * WebCrypto parameters for each supported JWS algorithm.
+ */
+const ALGORITHMS: Record<
+  string,
+  {
+    importParams: RsaHashedImportParams | EcKeyImportParams;
+    verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  }
+> = {
+  RS256: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS384: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  RS512: {
+    importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+    verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  PS256: {
+    importParams: { name: "RSA-PSS", hash: "SHA-256" },
+    verifyParams: { name: "RSA-PSS", saltLength: 32 },
+  },
+  PS384: {
+    importParams: { name: "RSA-PSS", hash: "SHA-384" },
+    verifyParams: { name: "RSA-PSS", saltLength: 48 },
+  },
+  PS512: {
+    importParams: { name: "RSA-PSS", hash: "SHA-512" },
+    verifyParams: { name: "RSA-PSS", saltLength: 64 },
+  },
+  ES256: {
+    importParams: { name: "ECDSA", namedCurve: "P-256" },
+    verifyParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+  ES384: {
+    importParams: { name: "ECDSA", namedCurve: "P-384" },
+    verifyParams: { name: "ECDSA", hash: "SHA-384" },
+  },
+  ES512: {
+    importParams: { name: "ECDSA", namedCurve: "P-521" },
+    verifyParams: { name: "ECDSA", hash: "SHA-512" },
+  },
+};
+
+/**
+ * How long a fetched JWKS is reused before it is fetched again, in milliseconds.
+ */
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Minimum time between refetches triggered by an unknown key ID, in milliseconds.
+ * Keys are rotated rarely, so this keeps forged `kid` values from flooding the JWKS endpoint.
+ */
+const JWKS_REFETCH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Fetched key sets keyed by JWKS URL, shared by all verifiers.
+ */
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+/**
+ * In-flight JWKS requests keyed by JWKS URL.
+ */
+const pendingJwks = new Map<string, Promise<Jwk[]>>();
+
+/**
+ * Decodes a base64url segment of a JWS into its JSON value.
+ *
+ * @param {string} segment The base64url-encoded segment.
+ * @returns {any} The decoded value.
+ */
+const decodeSegment = (segment: string): any => {
+  const bytes = new Uint8Array(base64UrlToBuffer(segment));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+/**
+ * Verifies JWTs and JWS signatures issued by LoginID against the application's JSON Web Key Set.
+ * Relies only on `fetch` and WebCrypto, so it runs in browsers and in Node.js 19+.
+ *
+ * @example
+ * ```javascript
+ * import { JwtVerifier } from "@loginid/websdk3";
+ *
+ * const verifier = new JwtVerifier({
+ *   baseUrl: process.env.LOGINID_BASE_URL,
+ *   appId: process.env.LOGINID_APP_ID,
+ * });
+ *
+ * const claims = await verifier.verifyToken(accessToken);
+ * console.log("Verified user:", claims.sub);
+ * ```
+ */
+export class JwtVerifier {
+  /**
+   * The URL of the JSON Web Key Set.
+   */
+  private readonly jwksUrl: string;
+
+  /**
+   * The base URL without a trailing slash, the default expected issuer.
+   */
+  private readonly baseUrl: string;
+
+  /**
+   * The base URL and application ID, used to derive the default expected audience.
+   */
+  private readonly config: LoginIDConfigValidator;
+
+  /**
+   * Default verification options applied to every call.
+   */
+  private readonly options: TokenVerificationOptions;
+
+  /**
+   * Initializes a new instance of JwtVerifier.
+   *
+   * @param {JwtVerifierOptions} options The base URL, application ID and verification options.
+   */
+  constructor({ baseUrl, appId, ...options }: JwtVerifierOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.jwksUrl =
+      options.jwksUrl || `${this.baseUrl}/fido2/v2/.well-known/jwks.json`;
+    this.config = new LoginIDConfigValidator({ baseUrl, appId });
+    this.options = options;
+  }
+
+  /**
+   * Verifies the signature of a token and validates its `iss`, `aud`, `exp` and `nbf` claims.
+   * Tokens without an `exp` claim are rejected. Works for access tokens, ID tokens and the MFA
+   * `payloadSignature`. For a detached signature, pass the signed payload in `options.payload`;
+   * its claims are validated the same way if it is a JSON object. A detached payload that is not,
+   * such as a plain-text transaction, carries no claims, so only its signature is verified.
+   *
+   * @param {string} token The compact JWS or JWT to verify.
+   * @param {VerifyTokenOptions} [options={}] Per-call options overriding the verifier defaults.
+   * @returns {Promise<JwtClaims>} The verified claims. Empty if the payload is not a JSON object.
+   * @throws {TokenVerificationError} If the token is malformed, the signature is invalid or a claim check fails.
+   */
+  public async verifyToken(
+    token: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<JwtClaims> {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new TokenVerificationError(
+        "Token is not a compact JWS",
+        "ERROR_TOKEN_MALFORMED",
+      );
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    if (!encodedPayload && !options.payload) {
+      throw new TokenVerificationError(
+        "Token has a detached payload, but no payload was given",
+        "ERROR_TOKEN_MALFORMED",
+      );
+    }
+
+    const payloadSegment =
+      encodedPayload ||
+      bufferToBase64Url(new TextEncoder().encode(options.payload).buffer);
+
+    let header: { alg?: string; kid?: string };
+    let signature: Uint8Array;
+    try {
+      header = decodeSegment(encodedHeader);
+      signature = new Uint8Array(base64UrlToBuffer(encodedSignature));
+    } catch {
+      throw new TokenVerificationError(
+        "Token header or signature could not be decoded",
+        "ERROR_TOKEN_MALFORMED",
+      );
+    }
+
+    const algorithm = header.alg ? ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new TokenVerificationError(
+        `Unsupported token algorithm: ${header.alg}`,
+        "ERROR_TOKEN_ALGORITHM_UNSUPPORTED",
+      );
+    }
+
+    const jwk = await this.getKey(header.kid);
+    let valid = false;
+    try {
+      const key = await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        algorithm.importParams,
+        false,
+        ["verify"],
+      );
+      const data = new TextEncoder().encode(
+        `${encodedHeader}.${payloadSegment}`,
+      );
+      valid = await crypto.subtle.verify(
+        algorithm.verifyParams,
+        key,
+        signature,
+        data,
+      );
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      throw new TokenVerificationError(
+        "Token signature is invalid",
+        "ERROR_TOKEN_SIGNATURE_INVALID",
+      );
+    }
+
+    let claims: JwtClaims | undefined;
+    try {
+      const decoded = decodeSegment(payloadSegment);
+      if (decoded && typeof decoded === "object" && !Array.isArray(decoded)) {
+        claims = decoded;
+      }
+    } catch {
+      // A signed payload is not required to be a JSON object
+    }
+
+    // Only a detached payload may come without claims; an embedded one must still pass the checks
+    if (claims || encodedPayload) {
+      this.validateClaims(claims || {}, options);
+    }
+
+    return claims || {};
+  }
+
+  /**
+   * Validates the registered claims of a token whose signature has been verified.
+   *
+   * @param {JwtClaims} claims The token claims.
+   * @param {VerifyTokenOptions} options Per-call options overriding the verifier defaults.
+   */
+  private validateClaims(claims: JwtClaims, options: VerifyTokenOptions) {
+    const {
+      issuer = this.options.issuer || this.baseUrl,
+      audience = this.options.audience || this.config.getAppId(),
+    } = options;
+    const tolerance = this.options.clockToleranceSeconds ?? 60;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== "number") {
+      throw new TokenVerificationError(
+        "Token has no expiry",
+        "ERROR_TOKEN_EXPIRY_MISSING",
+      );
+    }
+
+    if (now > claims.exp + tolerance) {
+      throw new TokenVerificationError(
+        "Token has expired",
+        "ERROR_TOKEN_EXPIRED",
+      );
+    }
+
+    if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+      throw new TokenVerificationError(
+        "Token is not yet valid",
+        "ERROR_TOKEN_NOT_YET_VALID",
+      );
+    }
+
+    if (claims.iss !== issuer) {
+      throw new TokenVerificationError(
+        `Token issuer ${claims.iss} does not match ${issuer}`,
+        "ERROR_TOKEN_ISSUER_MISMATCH",
+      );
+    }
+
+    const expected = Array.isArray(audience) ? audience : [audience];
+    const actual = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!expected.some((aud) => actual.includes(aud))) {
+      throw new TokenVerificationError(
+        "Token audience does not match",
+        "ERROR_TOKEN_AUDIENCE_MISMATCH",
+      );
+    }
+  }
+
+  /**
+   * Finds the signing key for the given key ID, refetching the JWKS once if the key is unknown.
+   *
+   * @param {string} [kid] The key ID from the token header.
+   * @returns {Promise<Jwk>} The matching key.
+   */
+  private async getKey(kid?: string): Promise<Jwk> {
+    const find = (keys: Jwk[]) =>
+      kid ? keys.find((key) => key.kid === kid) : keys[0];
+
+    const notFound = () =>
+      new TokenVerificationError(
+        `No signing key found for key ID ${kid}`,
+        "ERROR_TOKEN_KEY_NOT_FOUND",
+      );
+
+    const cached = jwksCache.get(this.jwksUrl);
+    if (cached) {
+      const age = Date.now() - cached.fetchedAt;
+      const key = find(cached.keys);
+
+      if (key && age < JWKS_CACHE_TTL_MS) {
+        return key;
+      }
+
+      // Unknown key IDs only trigger a refetch once the refetch interval has passed
+      if (!key && age < JWKS_REFETCH_INTERVAL_MS) {
+        throw notFound();
+      }
+    }
+
+    const key = find(await this.fetchJwks());
+    if (!key) {
+      throw notFound();
+    }
+
+    return key;
+  }
+
+  /**
+   * Fetches the JWKS and caches it. Concurrent callers share the same request.
+   *
+   * @returns {Promise<Jwk[]>} The published keys.
+   */
+  private fetchJwks(): Promise<Jwk[]> {
+    const url = this.jwksUrl;
+    let pending = pendingJwks.get(url);
+
+    if (!pending) {
+      pending = fetch(url)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const { keys } = await response.json();
+          if (!Array.isArray(keys)) {
+            throw new Error("Response has no keys");
+          }
+          jwksCache.set(url, { keys, fetchedAt: Date.now() });
+          return keys as Jwk[];
+        })
+        .catch((error) => {
+          throw new TokenVerificationError(
+            `Failed to fetch JWKS from ${url}: ${error.message}`,
+            "ERROR_JWKS_FETCH_FAILED",
+          );
+        })
+        .finally(() => pendingJwks.delete(url));
+      pendingJwks.set(url, pending);
+    }
+
+    return pending;
+  }
+}
@@ -1,5 +1,23 @@
 // Copyright (C) LoginID
 
+import {
+  MfaFlowDriver,
+  MfaFlowError,
+  MfaFlowEvent,
+  MfaFlowListener,
+  MfaFlowSnapshot,
+  MfaFlowState,
+} from "./types";
+import { MfaFlowMachine } from "./machine";
 import LoginIDMfa from "./mfa";
 
-export { LoginIDMfa };
+export type {
+  MfaFlowDriver,
+  MfaFlowError,
+  MfaFlowEvent,
+  MfaFlowListener,
+  MfaFlowSnapshot,
+  MfaFlowState,
+};
+
+export { LoginIDMfa, MfaFlowMachine };
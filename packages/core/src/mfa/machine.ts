@@ -0,0 +1,433 @@
+// Copyright (C) LoginID
+
+import {
+  MfaFlowDriver,
+  MfaFlowError,
+  MfaFlowEvent,
+  MfaFlowListener,
+  MfaFlowSnapshot,
+  MfaFlowState,
+} from "./types";
+import {
+  MfaBeginOptions,
+  MfaFactorName,
+  MfaPerformActionOptions,
+  MfaSessionResult,
+} from "../controllers";
+import { LoginIDError } from "../errors";
+import { getMessage } from "../i18n";
+
+/**
+ * The states each event may be sent in.
+ */
+const TRANSITIONS: Record<MfaFlowEvent, MfaFlowState[]> = {
+  begin: ["idle", "awaitingFactor", "otpSent", "complete", "error"],
+  performAction: ["awaitingFactor", "otpSent", "error"],
+  sync: ["idle", "awaitingFactor", "otpSent", "complete", "error"],
+  reset: [
+    "idle",
+    "starting",
+    "awaitingFactor",
+    "otpSent",
+    "verifying",
+    "complete",
+    "error",
+  ],
+};
+
+/**
+ * Keys of the MFA session details that hold tokens and are never serialized.
+ */
+const TOKEN_KEYS = new Set([
+  "idToken",
+  "accessToken",
+  "refreshToken",
+  "payloadSignature",
+]);
+
+/**
+ * Keys of the MFA session details that hold dates and are revived by `deserialize`.
+ */
+const DATE_KEYS = ["expiresAt", "otpSentAt", "canResendAt"] as const;
+
+/**
+ * Derives the snapshot of a settled flow from the MFA session details.
+ *
+ * @param {MfaSessionResult} result The MFA session details.
+ * @returns {MfaFlowSnapshot} The snapshot.
+ */
+const toSnapshot = (result: MfaSessionResult): MfaFlowSnapshot => {
+  if (result.isComplete) {
+    return { state: "complete", result };
+  }
+
+  if (result.remainingFactors.length) {
+    return { state: "awaitingFactor", result };
+  }
+
+  return { state: "idle", result };
+};
+
+/**
+ * Converts a thrown value into a serializable error description.
+ *
+ * @param {unknown} error The thrown value.
+ * @returns {MfaFlowError} The error description.
+ */
+const toFlowError = (error: unknown): MfaFlowError => {
+  if (!(error instanceof Error)) {
+    return { name: "Error", message: String(error) };
+  }
+
+  const code = (error as { code?: unknown }).code;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof code === "string" && { code }),
+  };
+};
+
+/**
+ * A framework-agnostic state machine for the MFA flow. It drives `beginFlow` and `performAction`,
+ * derives the flow state from the returned `MfaSessionResult`, rejects transitions that are not
+ * valid in the current state and notifies subscribers of every change.
+ *
+ * Failed transitions do not reject; they move the flow to the `error` state instead, from which
+ * the remaining factors can be retried or the flow restarted.
+ *
+ * @example
+ * ```javascript
+ * import { LoginIDMfa, MfaFlowMachine } from "@loginid/websdk3";
+ *
+ * const mfa = new LoginIDMfa({ baseUrl: process.env.BASE_URL });
+ * const flow = new MfaFlowMachine(mfa);
+ *
+ * // React: useSyncExternalStore(flow.subscribe, flow.getSnapshot)
+ * flow.subscribe(({ state, result }) => render(state, result));
+ *
+ * await flow.begin("user@example.com");
+ * await flow.performAction("otp:email");
+ * await flow.performAction("otp:verify", { payload: "123456" });
+ * ```
+ */
+export class MfaFlowMachine {
+  /**
+   * The MFA operations the machine drives.
+   */
+  private readonly driver: MfaFlowDriver;
+
+  /**
+   * The current snapshot.
+   */
+  private snapshot: MfaFlowSnapshot;
+
+  /**
+   * Subscribed listeners.
+   */
+  private readonly listeners = new Set<MfaFlowListener>();
+
+  /**
+   * Incremented on every transition so results of superseded operations are discarded.
+   */
+  private version = 0;
+
+  /**
+   * Initializes a new instance of MfaFlowMachine.
+   *
+   * @param {MfaFlowDriver} driver The MFA operations to drive, typically a `LoginIDMfa` instance.
+   * @param {MfaFlowSnapshot} [snapshot] A snapshot to start from, for example one restored with `deserialize`.
+   */
+  constructor(
+    driver: MfaFlowDriver,
+    snapshot: MfaFlowSnapshot = { state: "idle" },
+  ) {
+    this.driver = driver;
+
+    // Operations in progress cannot be resumed, so settle them from the last known result
+    const inProgress =
+      snapshot.state === "starting" || snapshot.state === "verifying";
+    this.snapshot = inProgress
+      ? snapshot.result
+        ? toSnapshot(snapshot.result)
+        : { state: "idle" }
+      : snapshot;
+
+    this.subscribe = this.subscribe.bind(this);
+    this.getSnapshot = this.getSnapshot.bind(this);
+  }
+
+  /**
+   * Creates a machine from a snapshot produced by `serialize`. Operations in progress do not survive
+   * serialization, so `starting` and `verifying` snapshots are restored as `idle`; call `sync` to
+   * re-derive the state from the stored MFA session.
+   *
+   * @param {MfaFlowDriver} driver The MFA operations to drive, typically a `LoginIDMfa` instance.
+   * @param {string} serialized The serialized snapshot.
+   * @returns {MfaFlowMachine} The restored machine.
+   * @throws {SyntaxError} If the serialized snapshot is not valid JSON.
+   */
+  public static deserialize(
+    driver: MfaFlowDriver,
+    serialized: string,
+  ): MfaFlowMachine {
+    const snapshot: MfaFlowSnapshot = JSON.parse(serialized);
+    const known = TRANSITIONS.reset.includes(snapshot?.state);
+    const inProgress =
+      snapshot?.state === "starting" || snapshot?.state === "verifying";
+
+    const result = snapshot?.result;
+    if (result) {
+      for (const key of DATE_KEYS) {
+        if (result[key]) {
+          result[key] = new Date(result[key]);
+        }
+      }
+    }
+
+    return new MfaFlowMachine(
+      driver,
+      known && !inProgress ? snapshot : { state: "idle" },
+    );
+  }
+
+  /**
+   * Returns the current snapshot. The same object is returned until the next transition.
+   *
+   * @returns {MfaFlowSnapshot} The current snapshot.
+   */
+  public getSnapshot(): MfaFlowSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Registers a listener invoked after every transition.
+   *
+   * @param {MfaFlowListener} listener The listener.
+   * @returns {() => void} A function that removes the listener.
+   */
+  public subscribe(listener: MfaFlowListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Checks whether an event may be sent in the current state. For `performAction`, also checks
+   * that the factor is one of the remaining factors, or that an OTP awaits verification.
+   *
+   * @param {MfaFlowEvent} event The event.
+   * @param {MfaFactorName} [factorName] The factor to perform, for `performAction`.
+   * @returns {boolean} True if the transition is allowed.
+   */
+  public can(event: MfaFlowEvent, factorName?: MfaFactorName): boolean {
+    const { state, result } = this.snapshot;
+    if (!TRANSITIONS[event].includes(state)) {
+      return false;
+    }
+
+    if (event !== "performAction" || !factorName) {
+      return true;
+    }
+
+    if (factorName === "otp:verify") {
+      return (
+        state === "otpSent" ||
+        (state === "error" && this.snapshot.factorName === "otp:verify")
+      );
+    }
+
+    return !!result?.remainingFactors.some(({ type }) => type === factorName);
+  }
+
+  /**
+   * Begins an MFA flow for the user. Moves to `starting`, then to `awaitingFactor`, `complete`
+   * or `error`.
+   *
+   * @param {string} username The username of the user.
+   * @param {MfaBeginOptions} [options={}] Optional parameters for `beginFlow`.
+   * @returns {Promise<MfaFlowSnapshot>} The snapshot once the flow has settled.
+   * @throws {LoginIDError} If the flow cannot begin in the current state.
+   */
+  public async begin(
+    username: string,
+    options: MfaBeginOptions = {},
+  ): Promise<MfaFlowSnapshot> {
+    this.assertTransition("begin");
+
+    return await this.run({ state: "starting" }, async () =>
+      toSnapshot(await this.driver.beginFlow(username, options)),
+    );
+  }
+
+  /**
+   * Performs an MFA factor. Moves to `verifying`, then to `otpSent` once an OTP was sent, or to
+   * `awaitingFactor`, `complete` or `error` depending on the result. With `autoReadSmsOtp`, the
+   * flow leaves `otpSent` on its own once the code read from the SMS has been verified.
+   *
+   * @param {MfaFactorName} factorName The factor to perform.
+   * @param {MfaPerformActionOptions} [options={}] Optional parameters for `performAction`.
+   * @returns {Promise<MfaFlowSnapshot>} The snapshot once the flow has settled.
+   * @throws {LoginIDError} If the factor cannot be performed in the current state.
+   */
+  public async performAction(
+    factorName: MfaFactorName,
+    options: MfaPerformActionOptions = {},
+  ): Promise<MfaFlowSnapshot> {
+    this.assertTransition("performAction", factorName);
+
+    const autoRead = options.autoReadSmsOtp;
+    if (factorName === "otp:sms" && autoRead) {
+      options = {
+        ...options,
+        autoReadSmsOtp: {
+          ...autoRead,
+          onVerified: (next) => {
+            // The code read from the SMS was verified while the flow waited for it
+            if (this.snapshot.state === "otpSent") {
+              this.transition(toSnapshot(next));
+            }
+            autoRead.onVerified(next);
+          },
+        },
+      };
+    }
+
+    const { result } = this.snapshot;
+    return await this.run(
+      { state: "verifying", result, factorName },
+      async () => {
+        const next = await this.driver.performAction(factorName, options);
+
+        if (factorName === "otp:email" || factorName === "otp:sms") {
+          return { state: "otpSent", result: next, factorName };
+        }
+
+        return toSnapshot(next);
+      },
+    );
+  }
+
+  /**
+   * Derives the state from the given MFA session details, for example after the flow was
+   * advanced outside the machine with `startCrossDeviceFlow`.
+   *
+   * @param {MfaSessionResult} [result] The MFA session details. Defaults to the stored session.
+   * @returns {MfaFlowSnapshot} The new snapshot.
+   * @throws {LoginIDError} If an operation is in progress.
+   */
+  public sync(
+    result: MfaSessionResult = this.driver.getMfaSessionDetails(),
+  ): MfaFlowSnapshot {
+    this.assertTransition("sync");
+    return this.transition(toSnapshot(result));
+  }
+
+  /**
+   * Returns to `idle`, discarding the result of any operation in progress.
+   * The MFA session stored by the SDK is left untouched.
+   *
+   * @returns {MfaFlowSnapshot} The new snapshot.
+   */
+  public reset(): MfaFlowSnapshot {
+    return this.transition({ state: "idle" });
+  }
+
+  /**
+   * Serializes the current snapshot, for example to persist the flow across a page reload.
+   * Tokens are left out; read them from the SDK session after restoring a completed flow.
+   *
+   * @returns {string} The serialized snapshot.
+   */
+  public serialize(): string {
+    return JSON.stringify(this.snapshot, (key, value) =>
+      TOKEN_KEYS.has(key) ? undefined : value,
+    );
+  }
+
+  /**
+   * Moves to a pending state, runs an operation and moves to the state it settles in. Failures
+   * move to `error`, keeping the last result so the remaining factors can be retried.
+   *
+   * @param {MfaFlowSnapshot} pending The snapshot while the operation runs.
+   * @param {() => Promise<MfaFlowSnapshot>} fn The operation.
+   * @returns {Promise<MfaFlowSnapshot>} The settled snapshot.
+   */
+  private async run(
+    pending: MfaFlowSnapshot,
+    fn: () => Promise<MfaFlowSnapshot>,
+  ): Promise<MfaFlowSnapshot> {
+    this.transition(pending);
+    const version = this.version;
+
+    let settled: MfaFlowSnapshot;
+    try {
+      settled = await fn();
+    } catch (error) {
+      settled = {
+        state: "error",
+        result: pending.result,
+        ...(pending.factorName && { factorName: pending.factorName }),
+        error: toFlowError(error),
+      };
+    }
+
+    // The flow was reset or restarted while the operation was running
+    if (version !== this.version) {
+      return this.snapshot;
+    }
+
+    return this.transition(settled);
+  }
+
+  /**
+   * Replaces the snapshot and notifies the listeners.
+   * Errors thrown by listeners are logged and do not interrupt the flow.
+   *
+   * @param {MfaFlowSnapshot} snapshot The new snapshot.
+   * @returns {MfaFlowSnapshot} The new snapshot.
+   */
+  private transition(snapshot: MfaFlowSnapshot): MfaFlowSnapshot {
+    this.version++;
+    this.snapshot = snapshot;
+
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error("Error in LoginID MFA flow listener:", error);
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Throws if an event may not be sent in the current state.
+   *
+   * @param {MfaFlowEvent} event The event.
+   * @param {MfaFactorName} [factorName] The factor to perform, for `performAction`.
+   * @throws {LoginIDError} If the transition is not allowed, or the factor is not available.
+   */
+  private assertTransition(event: MfaFlowEvent, factorName?: MfaFactorName) {
+    const { state } = this.snapshot;
+    const locale = this.driver.getLocaleOptions();
+    if (!TRANSITIONS[event].includes(state)) {
+      throw new LoginIDError(
+        getMessage("ERROR_MFA_TRANSITION_INVALID", { event, state }, locale),
+        "ERROR_MFA_TRANSITION_INVALID",
+      );
+    }
+
+    if (!this.can(event, factorName)) {
+      throw new LoginIDError(
+        getMessage(
+          "ERROR_MFA_FACTOR_NOT_FOUND",
+          { factorName: factorName! },
+          locale,
+        ),
+        "ERROR_MFA_FACTOR_NOT_FOUND",
+      );
+    }
+  }
+}
@@ -0,0 +1,285 @@
+// Copyright (C) LoginID
+
+import { MockLoginIDBackend, VirtualAuthenticator } from "../testing";
+import { OtpInvalidError, OtpResendTooEarlyError } from "../errors";
+import { TextDecoder, TextEncoder } from "node:util";
+import { LoginIDMfa, MfaFlowMachine } from ".";
+import { webcrypto } from "node:crypto";
+import { Buffer } from "node:buffer";
+
+// jsdom does not implement the Encoding API, which cross-device links rely on
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+const baseUrl = "https://app-1.mock.loginid.io";
+const username = "jane@example.com";
+
+describe("LoginIDMfa", () => {
+  const backend = new MockLoginIDBackend();
+  let lid: LoginIDMfa;
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend.reset();
+    backend.addUser({ username, phone: "+15555550100" });
+
+    lid = new LoginIDMfa({
+      baseUrl,
+      httpRequest: backend.httpRequest,
+      tokenStorage: "memory",
+      disableAnalytics: true,
+    });
+    // Memory token storage is shared by all SDK instances
+    lid.logout();
+  });
+
+  it("completes a sign-in that asks for another factor after the first one", async () => {
+    backend.setScenario({ mfaSteps: [["otp:email"], ["otp:sms"]] });
+
+    let result = await lid.beginFlow(username);
+    expect(result.nextAction).toBe("otp:email");
+
+    await lid.performAction("otp:email");
+    result = await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+    expect(result.isComplete).toBe(false);
+    expect(result.remainingFactors.map(({ type }) => type)).toEqual([
+      "otp:sms",
+    ]);
+
+    await lid.performAction("otp:sms");
+    expect(backend.requests.at(-1)?.body).toMatchObject({
+      method: "sms",
+      option: "+15555550100",
+    });
+
+    result = await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+    expect(result.isComplete).toBe(true);
+    expect(result.accessToken).toBeTruthy();
+    expect(lid.session.isLoggedIn()).toBe(true);
+  });
+
+  it("keeps the flow open after a wrong code", async () => {
+    backend.setScenario({ mfaSteps: [["otp:email"]], otpCode: "123456" });
+
+    await lid.beginFlow(username);
+    await lid.performAction("otp:email");
+
+    await expect(
+      lid.performAction("otp:verify", { payload: "000000" }),
+    ).rejects.toThrow(OtpInvalidError);
+
+    const result = await lid.performAction("otp:verify", {
+      payload: "123456",
+    });
+    expect(result.isComplete).toBe(true);
+  });
+
+  it("applies the resend cooldown per delivery method", async () => {
+    backend.setScenario({ mfaSteps: [["otp:email", "otp:sms"]] });
+
+    await lid.beginFlow(username);
+    await lid.performAction("otp:email");
+    await lid.performAction("otp:sms");
+
+    await expect(lid.performAction("otp:email")).rejects.toThrow(
+      OtpResendTooEarlyError,
+    );
+  });
+
+  it("keeps the factor policy of a flow resumed after a page reload", async () => {
+    backend.setScenario({
+      mfaSteps: [["otp:email"], ["otp:sms", "passkey:reg", "otp:email"]],
+    });
+    const factorConditions = { "passkey:reg": () => false };
+
+    // The flow is begun by another copy of the SDK, as if on the page before the reload
+    await jest.isolateModulesAsync(async () => {
+      const { LoginIDMfa } = await import(".");
+      await new LoginIDMfa({
+        baseUrl,
+        httpRequest: backend.httpRequest,
+        tokenStorage: "memory",
+        disableAnalytics: true,
+      }).beginFlow(username, {
+        factorPolicy: { exclude: ["otp:sms"], conditions: factorConditions },
+      });
+    });
+
+    await lid.resumeFlow({ factorConditions });
+    await lid.performAction("otp:email");
+    const result = await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+    expect(result.remainingFactors.map(({ type }) => type)).toEqual([
+      "otp:email",
+    ]);
+  });
+
+  it("keeps the factor conditions of a flow restarted on the same page", async () => {
+    backend.setScenario({
+      mfaSteps: [["otp:email"], ["otp:sms", "passkey:reg", "otp:email"]],
+    });
+    await lid.beginFlow(username, {
+      factorPolicy: {
+        exclude: ["otp:sms"],
+        conditions: { "passkey:reg": () => false },
+      },
+    });
+
+    // The stored MFA session has expired, so resuming begins a new flow
+    const now = Date.now() + 24 * 60 * 60 * 1000;
+    const dateNow = jest.spyOn(Date, "now").mockReturnValue(now);
+    try {
+      await lid.resumeFlow();
+      await lid.performAction("otp:email");
+      const result = await lid.performAction("otp:verify", {
+        payload: backend.getLastOtp(username),
+      });
+      expect(result.remainingFactors.map(({ type }) => type)).toEqual([
+        "otp:email",
+      ]);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  it("steps up a session until its tokens carry a recent auth_time", async () => {
+    backend.setScenario({ mfaSteps: [["otp:email"]] });
+    await lid.beginFlow(username);
+    await lid.performAction("otp:email");
+    await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+
+    // A token refresh renews `iat`, so it never counts as a recent authentication
+    const stepUp = await lid.stepUp({ maxAge: 300 });
+    expect(stepUp.isStepUpRequired).toBe(true);
+
+    await lid.performAction("otp:email");
+    const result = await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+    expect(result.isComplete).toBe(true);
+
+    await expect(lid.stepUp({ maxAge: 300 })).resolves.toMatchObject({
+      isStepUpRequired: false,
+    });
+    await expect(
+      lid.stepUp({ requiredFactors: ["passkey"] }),
+    ).resolves.toMatchObject({ isStepUpRequired: true });
+  });
+
+  it("restores an interrupted flow as idle until it is synced", async () => {
+    backend.setScenario({ mfaSteps: [["otp:email"]] });
+    const result = await lid.beginFlow(username);
+
+    const machine = MfaFlowMachine.deserialize(
+      lid,
+      JSON.stringify({ state: "verifying", result }),
+    );
+    expect(machine.getSnapshot()).toEqual({ state: "idle" });
+    expect(machine.sync().state).toBe("awaitingFactor");
+  });
+
+  it("localizes rejected transitions with the locale of its SDK instance", async () => {
+    const machine = new MfaFlowMachine(
+      new LoginIDMfa({
+        baseUrl,
+        httpRequest: backend.httpRequest,
+        tokenStorage: "memory",
+        disableAnalytics: true,
+        locale: "fr",
+      }),
+    );
+
+    await expect(machine.performAction("otp:email")).rejects.toThrow(
+      "Impossible",
+    );
+  });
+
+  describe("with passkeys", () => {
+    const authenticator = new VirtualAuthenticator({
+      crypto: webcrypto as Crypto,
+    });
+
+    beforeAll(() => {
+      authenticator.install();
+    });
+
+    afterAll(() => {
+      authenticator.uninstall();
+    });
+
+    beforeEach(() => {
+      authenticator.reset();
+    });
+
+    it("signs up with a new passkey and signs in with it", async () => {
+      const newUser = "john@example.com";
+
+      await lid.beginFlow(newUser);
+      let result = await lid.performAction("passkey:reg");
+      expect(result.isComplete).toBe(true);
+      expect(result.flow).toBe("signUp");
+      expect(authenticator.getCredentials()).toHaveLength(1);
+
+      lid.logout();
+
+      result = await lid.beginFlow(newUser);
+      expect(result.nextAction).toBe("passkey:auth");
+
+      result = await lid.performAction("passkey:auth");
+      expect(result.isComplete).toBe(true);
+      expect(result.flow).toBe("signIn");
+    });
+
+    it("keeps the flow open when the passkey prompt fails", async () => {
+      await lid.beginFlow("john@example.com");
+
+      authenticator.failNext("ERROR_GENERAL_ERROR");
+      await expect(lid.performAction("passkey:reg")).rejects.toMatchObject({
+        code: "ERROR_GENERAL_ERROR",
+        message: "Passkey creation has failed",
+      });
+
+      const result = await lid.performAction("otp:email");
+      expect(result.isComplete).toBe(false);
+    });
+
+    it("completes a passkey factor on another device that signs in only here", async () => {
+      const phone = new LoginIDMfa({
+        baseUrl,
+        httpRequest: backend.httpRequest,
+        tokenStorage: "memory",
+        disableAnalytics: true,
+      });
+      const setTokenSet = jest.spyOn(phone.session, "setTokenSet");
+      let completed: Promise<void> | undefined;
+
+      await lid.beginFlow("john@example.com");
+      const result = await lid.startCrossDeviceFlow({
+        pollIntervalMs: 10,
+        onLink: (link) => {
+          const [, encoded] = link.split("#")[1].split("=");
+          const handoff = JSON.parse(
+            Buffer.from(encoded, "base64url").toString(),
+          );
+          expect(Object.keys(handoff).sort()).toEqual([
+            "factorName",
+            "session",
+          ]);
+
+          completed = phone.continueOnThisDevice(link);
+        },
+      });
+
+      await completed;
+      expect(result.isComplete).toBe(true);
+      expect(authenticator.getCredentials()).toHaveLength(1);
+      expect(setTokenSet).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -2,13 +2,14 @@
 
 import { LoginIDBase, MFA, Utils } from "../controllers";
 import type { LoginIDConfig } from "../controllers";
+import type { SessionManager } from "../session";
 import { applyMixins } from "../helpers";
 
 interface LoginIDMfa extends MFA, Utils {}
 
 class LoginIDMfa extends LoginIDBase {
-  constructor(config: LoginIDConfig) {
-    super(config);
+  constructor(config: LoginIDConfig, session?: SessionManager) {
+    super(config, session);
   }
 }
 
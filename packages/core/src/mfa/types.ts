@@ -0,0 +1,88 @@
+// Copyright (C) LoginID
+
+import { MFA, MfaFactorName, MfaSessionResult } from "../controllers";
+
+/**
+ * The state of an MFA flow.
+ *
+ * - `idle`: No MFA session has been started.
+ * - `starting`: `beginFlow` is in progress.
+ * - `awaitingFactor`: The user must complete one of the remaining factors.
+ * - `otpSent`: A one-time password was sent and must be verified with `otp:verify`.
+ * - `verifying`: A factor is being performed.
+ * - `complete`: All factors were completed and the tokens were issued.
+ * - `error`: The last transition failed. The flow can be restarted, or retried if factors remain.
+ */
+export type MfaFlowState =
+  | "idle"
+  | "starting"
+  | "awaitingFactor"
+  | "otpSent"
+  | "verifying"
+  | "complete"
+  | "error";
+
+/**
+ * The events that move an MFA flow between states.
+ */
+export type MfaFlowEvent = "begin" | "performAction" | "sync" | "reset";
+
+/**
+ * A serializable description of the error that moved the flow to the `error` state.
+ */
+export interface MfaFlowError {
+  /**
+   * The name of the error class, for example `OtpInvalidError`.
+   */
+  name: string;
+
+  /**
+   * The error message.
+   */
+  message: string;
+
+  /**
+   * The machine-readable error code, if the error has one.
+   */
+  code?: string;
+}
+
+/**
+ * An immutable snapshot of an MFA flow. A new object is created on every transition.
+ */
+export interface MfaFlowSnapshot {
+  /**
+   * The current state.
+   */
+  state: MfaFlowState;
+
+  /**
+   * The latest MFA session details, including the remaining factors and the issued tokens.
+   */
+  result?: MfaSessionResult;
+
+  /**
+   * The factor in progress: the factor being performed while `verifying`, and the OTP method
+   * while `otpSent`.
+   */
+  factorName?: MfaFactorName;
+
+  /**
+   * The error that moved the flow to the `error` state.
+   */
+  error?: MfaFlowError;
+}
+
+/**
+ * Called with the new snapshot after every transition.
+ */
+export type MfaFlowListener = (snapshot: MfaFlowSnapshot) => void;
+
+/**
+ * The MFA operations the state machine drives. `LoginIDMfa` implements them. Transition errors are
+ * localized with the driver's locale options.
+ */
+export type MfaFlowDriver = Pick<
+  MFA,
+  "beginFlow" | "performAction" | "getMfaSessionDetails" | "getLocaleOptions"
+>;
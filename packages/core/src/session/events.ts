@@ -0,0 +1,87 @@
+// Copyright (C) LoginID
+
+import {
+  SessionEventHandler,
+  SessionEventMap,
+  SessionEventName,
+  TokenExpiredEvent,
+} from "../types";
+
+export type {
+  SessionEventHandler,
+  SessionEventMap,
+  SessionEventName,
+  TokenExpiredEvent,
+};
+
+/**
+ * A minimal typed event emitter for session lifecycle events.
+ */
+export class SessionEventEmitter {
+  /**
+   * Registered handlers keyed by event name.
+   */
+  private readonly handlers = new Map<
+    SessionEventName,
+    Set<SessionEventHandler<any>>
+  >();
+
+  /**
+   * Registers a handler for the given event.
+   *
+   * @param {SessionEventName} event The event to listen to.
+   * @param {SessionEventHandler} handler The handler to invoke.
+   * @returns {() => void} A function that removes the handler.
+   */
+  public on<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Removes a previously registered handler.
+   *
+   * @param {SessionEventName} event The event the handler was registered for.
+   * @param {SessionEventHandler} handler The handler to remove.
+   */
+  public off<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ) {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Invokes all handlers registered for the given event.
+   * Errors thrown by handlers are logged and do not interrupt the SDK flow.
+   *
+   * @param {SessionEventName} event The event to emit.
+   * @param {SessionEventMap[E]} payload The event payload.
+   */
+  public emit<E extends SessionEventName>(
+    event: E,
+    payload: SessionEventMap[E],
+  ) {
+    const handlers = this.handlers.get(event);
+    if (!handlers) {
+      return;
+    }
+
+    for (const handler of [...handlers]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in LoginID "${event}" event handler:`, error);
+      }
+    }
+  }
+}
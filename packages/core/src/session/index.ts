@@ -1,11 +1,66 @@
 // Copyright (C) LoginID
 
-import { AuthzTokenOptions, LoginIDTokenSet, SessionInfo } from "../types";
-import { deleteCookie, getCookie, setCookie } from "../utils/browser";
+import {
+  AuthzTokenOptions,
+  JwtClaims,
+  LoginIDTokenSet,
+  SessionEventHandler,
+  SessionEventName,
+  SessionInfo,
+  TokenExpiredEvent,
+  TokenStorage,
+  TokenType,
+  VerifyTokenOptions,
+} from "../types";
+import { SessionSync, SessionSyncMessage, getSessionSync } from "./sync";
+import { LoginIDConfig, MfaInfo } from "../controllers";
 import { LoginIDConfigValidator } from "../validators";
-import { LoginIDConfig } from "../controllers";
+import { ApiError, LoginIDService, Mfa } from "../api";
+import { DeviceStore, MfaStore } from "../store";
+import { createTokenStorage } from "./storage";
+import { SessionEventEmitter } from "./events";
+import { createHttpRequest } from "../http";
 import { parseJwt } from "../utils/crypto";
-import { Mfa } from "../api";
+import { LoginIDError } from "../errors";
+import { JwtVerifier } from "../jwt";
+
+export * from "./storage";
+export * from "./events";
+export * from "./sync";
+
+export type { JwtClaims, SessionInfo };
+
+/**
+ * Number of seconds before expiry at which `retrieveValidToken` considers a token stale and refreshes it.
+ */
+const REFRESH_LEEWAY_SECONDS = 30;
+
+/**
+ * In-flight refresh requests keyed by app ID. Concurrent callers share the same request
+ * so the refresh token is only exchanged once.
+ */
+const pendingRefreshes = new Map<string, Promise<LoginIDTokenSet>>();
+
+/**
+ * The longest delay accepted by `setTimeout`. Longer expiry timers are scheduled in steps.
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Checks whether the given JWT expires within the given number of seconds.
+ *
+ * @param {string} token The JWT to check.
+ * @param {number} seconds The number of seconds to look ahead.
+ * @returns {boolean} `true` if the token has an `exp` claim that falls within the window.
+ */
+const expiresWithin = (token: string, seconds: number): boolean => {
+  try {
+    const { exp } = parseJwt(token);
+    return typeof exp === "number" && exp * 1000 - Date.now() <= seconds * 1000;
+  } catch {
+    return false;
+  }
+};
 
 export class SessionManager {
   /**
@@ -13,6 +68,39 @@ export class SessionManager {
    */
   protected config: LoginIDConfigValidator;
 
+  /**
+   * Instance of LoginIDService, used to exchange the refresh token for a new token set.
+   */
+  protected service: LoginIDService;
+
+  /**
+   * The storage backend holding the session tokens.
+   */
+  protected storage: TokenStorage;
+
+  /**
+   * Emits session lifecycle events.
+   */
+  protected readonly events = new SessionEventEmitter();
+
+  /**
+   * Pending expiry timers keyed by token type.
+   */
+  private readonly expiryTimers = new Map<
+    TokenExpiredEvent["tokenType"],
+    ReturnType<typeof setTimeout>
+  >();
+
+  /**
+   * The cross-tab session synchronizer, if enabled in the configuration.
+   */
+  private readonly sync?: SessionSync;
+
+  /**
+   * Verifies session tokens against the application's JWKS.
+   */
+  private readonly verifier: JwtVerifier;
+
   /**
    * Initializes a new instance of SessionManager with the provided configuration.
    *
@@ -20,10 +108,63 @@ export class SessionManager {
    */
   constructor(config: LoginIDConfig) {
     this.config = new LoginIDConfigValidator(config);
+    this.service = new LoginIDService(
+      { BASE: config.baseUrl },
+      createHttpRequest(config),
+    );
+    this.storage = createTokenStorage(
+      config.tokenStorage,
+      config.cookieOptions,
+    );
+    this.verifier = new JwtVerifier({
+      ...config.tokenVerification,
+      baseUrl: config.baseUrl,
+      appId: config.appId,
+    });
+
+    if (config.crossTabSync) {
+      this.sync = getSessionSync(this.config.getAppId());
+      this.sync.subscribe((message) => this.handleSyncMessage(message));
+    }
+
+    // Tokens stored by a previous page load still expire and refresh on time
+    this.scheduleStoredTokens();
+  }
+
+  /**
+   * Registers a handler for a session lifecycle event.
+   *
+   * - `login`: New tokens were stored after a successful sign-in.
+   * - `logout`: The stored session was cleared.
+   * - `tokenRefreshed`: The token set was refreshed with the refresh token.
+   * - `tokenExpired`: A stored token reached its `exp` claim.
+   *
+   * @param {SessionEventName} event The event to listen to.
+   * @param {SessionEventHandler} handler The handler to invoke.
+   * @returns {() => void} A function that removes the handler.
+   */
+  public on<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ): () => void {
+    return this.events.on(event, handler);
   }
 
   /**
-   * Retrieves the authentication token from the provided options or from cookies if not available in options.
+   * Removes a previously registered session event handler.
+   *
+   * @param {SessionEventName} event The event the handler was registered for.
+   * @param {SessionEventHandler} handler The handler to remove.
+   */
+  public off<E extends SessionEventName>(
+    event: E,
+    handler: SessionEventHandler<E>,
+  ) {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Retrieves the authentication token from the provided options or from the token storage if not available in options.
    *
    * @param {AuthzTokenOptions} options Options containing the token.
    * @returns {string} The authentication token.
@@ -41,26 +182,115 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Retrieves the authentication token like `getToken`, but falls back to the stored access token
+   * and refreshes it with the refresh token when it is missing or about to expire.
+   *
+   * @param {AuthzTokenOptions} options Options containing the token.
+   * @returns {Promise<string>} The authentication token, or an empty string if none is available.
+   */
+  public async getValidToken(options: AuthzTokenOptions = {}): Promise<string> {
+    const token = this.getToken(options);
+    if (token) {
+      return token;
+    }
+
+    return await this.retrieveValidToken("accessToken");
+  }
+
   /**
    * Retrieves the currently authenticated user's session information.
    *
-   * @returns {LoginIDUser | null} The currently authenticated user's information, including username and id.
-   * It will return null if user is not authenticated
+   * If the access token has expired and a refresh token is stored, the session is refreshed in the
+   * background and the information of the expired token is returned until then.
+   *
+   * @returns {SessionInfo | null} The currently authenticated user's information, including username, id,
+   * expiry, authentication context and the raw token claims.
+   * It will return null if user is not authenticated, or if only a refresh token is stored and the
+   * session has not been refreshed yet.
    */
   public getSessionInfo(): SessionInfo | null {
     if (!this.isLoggedIn()) {
       return null;
     }
-    const data = parseJwt(
-      this.getJwtCookie() || this.retrieveToken("accessToken") || "{}",
-    );
+
+    const parse = (token?: string) => (token ? parseJwt(token) : undefined);
+    const claims = {
+      authzToken: parse(this.getJwtCookie()),
+      accessToken: parse(this.retrieveToken("accessToken")),
+      idToken: parse(this.retrieveToken("idToken")),
+    };
+
+    const appId = this.config.getAppId();
+    const data = claims.authzToken || claims.accessToken;
+    if (!data) {
+      return null;
+    }
+
+    const mfaInfo = MfaStore.getInfo(appId);
+    const amr = data.amr || claims.idToken?.amr;
+
+    const issuedAt = data.iat ? new Date(data.iat * 1000) : undefined;
+    const expiresAt = data.exp ? new Date(data.exp * 1000) : undefined;
+
+    // A step-up only renews some of the tokens, so the most recent authentication counts. `iat`
+    // is not a fallback, since every token refresh renews it
+    const authTimes = Object.values(claims)
+      .map((tokenClaims) => tokenClaims?.auth_time)
+      .filter((time): time is number => typeof time === "number");
+    const authenticatedAt = authTimes.length
+      ? new Date(Math.max(...authTimes) * 1000)
+      : undefined;
+
+    const expiresIn = () => {
+      if (!expiresAt) {
+        return Infinity;
+      }
+      return Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+    };
+
+    const deviceId =
+      data.deviceId ||
+      claims.idToken?.deviceId ||
+      DeviceStore.getDeviceId(appId);
+
     const user: SessionInfo = {
       username: data.username,
       id: data.sub,
+      ...(issuedAt && { issuedAt }),
+      ...(expiresAt && { expiresAt }),
+      ...(authenticatedAt && { authenticatedAt }),
+      ...(mfaInfo?.flow && { flow: mfaInfo.flow }),
+      factors: Array.isArray(amr) ? amr : mfaInfo?.factors || [],
+      ...(deviceId && { deviceId }),
+      claims,
+      expiresIn,
+      isExpired: () => expiresIn() === 0,
     };
     return user;
   }
 
+  /**
+   * Verifies a token's signature against the application's JWKS and validates its claims.
+   * Defaults to the stored authorization token, or the access token if there is none.
+   *
+   * @param {string} [token] The token to verify.
+   * @param {VerifyTokenOptions} [options={}] Per-call verification options.
+   * @returns {Promise<JwtClaims>} The verified claims.
+   */
+  public async verifyToken(
+    token?: string,
+    options: VerifyTokenOptions = {},
+  ): Promise<JwtClaims> {
+    const value =
+      token || this.getJwtCookie() || this.retrieveToken("accessToken");
+    if (!value) {
+      throw new LoginIDError("No session token is available to verify");
+    }
+
+    return await this.verifier.verifyToken(value, options);
+  }
+
   /**
    * Returns the dynamic Cookie name holding the authorization token for the given application.
    *
@@ -107,15 +337,19 @@ export class SessionManager {
   }
 
   /**
-   * Set jwt token to local Cookie
+   * Set jwt token to the token storage.
    *
    * @param {string} jwt Configuration object for LoginID API, including the base URL.
    */
   public setJwtCookie(jwt: string) {
     const token = parseJwt(jwt);
-    const expiry = new Date(token.exp * 1000).toUTCString();
-    const cookie = `${this.getJwtCookieName()}=${jwt}; expires=${expiry}`;
-    setCookie(cookie);
+    const name = this.getJwtCookieName();
+    const expiry = new Date(token.exp * 1000);
+
+    this.storage.setItem(name, jwt, expiry);
+    this.scheduleExpiry("authzToken", jwt);
+    this.emitLogin();
+    this.sync?.publish({ type: "login" });
   }
 
   /**
@@ -124,70 +358,393 @@ export class SessionManager {
    * @returns {string | undefined} The JWT access token.
    */
   public getJwtCookie(): string | undefined {
-    return getCookie(this.getJwtCookieName());
+    return this.storage.getItem(this.getJwtCookieName()) || undefined;
   }
 
   /**
-   * Checks if the user is logged in.
+   * Checks if the user is logged in. A stored refresh token counts as a session; if the access
+   * token has expired, it is refreshed in the background.
    *
    * @returns {boolean}
    */
   public isLoggedIn(): boolean {
-    return !!this.getJwtCookie() || !!this.retrieveToken("accessToken");
+    if (this.getJwtCookie()) {
+      return true;
+    }
+
+    const refreshToken = this.retrieveToken("refreshToken");
+    const accessToken = this.retrieveToken("accessToken");
+    if (
+      refreshToken &&
+      (!accessToken || expiresWithin(accessToken, REFRESH_LEEWAY_SECONDS))
+    ) {
+      this.refreshSession().catch(() => {});
+    }
+
+    return !!accessToken || !!refreshToken;
   }
 
   /**
-   * Deletes the jwt cookie.
+   * Deletes all session tokens from the token storage.
    */
   public logout() {
-    deleteCookie(this.getJwtCookieName());
-    deleteCookie(this.getIdTokenName());
-    deleteCookie(this.getAccessTokenName());
-    deleteCookie(this.getRefreshTokenName());
-    deleteCookie(this.getPayloadSignatureName());
+    if (this.clearTokens()) {
+      this.events.emit("logout", undefined);
+      this.sync?.publish({ type: "logout" });
+    }
   }
 
   /**
-   * Set the successful result token set to local Cookie.
+   * Removes all session tokens from the token storage and cancels their expiry timers.
+   *
+   * @returns {boolean} `true` if a session was stored.
+   */
+  private clearTokens(): boolean {
+    const wasLoggedIn =
+      !!this.getJwtCookie() ||
+      !!this.storage.getItem(this.getAccessTokenName()) ||
+      !!this.storage.getItem(this.getRefreshTokenName());
+
+    const names = [
+      this.getJwtCookieName(),
+      this.getIdTokenName(),
+      this.getAccessTokenName(),
+      this.getRefreshTokenName(),
+      this.getPayloadSignatureName(),
+    ];
+    for (const name of names) {
+      this.storage.removeItem(name);
+    }
+
+    this.clearExpiryTimers();
+
+    return wasLoggedIn;
+  }
+
+  /**
+   * Propagates the MFA session info to other tabs when cross-tab synchronization is enabled.
+   *
+   * @param {MfaInfo | null} info The current MFA session info.
+   */
+  public syncMfaInfo(info: MfaInfo | null) {
+    this.sync?.publish({ type: "mfa", info });
+  }
+
+  /**
+   * Set the successful result token set to the token storage.
    *
    * @param {Mfa} result Configuration object for LoginID API, including the base URL.
    */
   public setTokenSet(result: Mfa) {
+    this.storeTokenSet(result);
+
+    if (result.accessToken || result.idToken) {
+      this.emitLogin();
+      this.sync?.publish({ type: "login" });
+    }
+  }
+
+  /**
+   * Writes each token of the token set to the token storage and schedules its expiry timer.
+   *
+   * @param {Mfa} result The token set to store.
+   */
+  private storeTokenSet(result: Mfa) {
     const { accessToken, idToken, payloadSignature, refreshToken } = result;
 
-    const setTokenCookie = (name: string, token: string) => {
+    // Refreshable tokens outlive their `exp`, so the session stays readable until it is refreshed
+    const isRefreshable =
+      !!refreshToken || !!this.storage.getItem(this.getRefreshTokenName());
+
+    const setTokenCookie = (
+      name: string,
+      tokenType: TokenType,
+      token: string,
+      keepExpired = false,
+    ) => {
       if (!token) return;
       const tokenPayload = parseJwt(token);
-      const expiry = tokenPayload?.exp
-        ? new Date(tokenPayload.exp * 1000).toUTCString()
-        : "";
-      document.cookie = `${name}=${token}; Expires=${expiry};`;
+      const expiry =
+        tokenPayload?.exp && !keepExpired
+          ? new Date(tokenPayload.exp * 1000)
+          : undefined;
+      this.storage.setItem(name, token, expiry);
+      this.scheduleExpiry(tokenType, token);
     };
 
-    setTokenCookie(this.getIdTokenName(), idToken);
-    setTokenCookie(this.getAccessTokenName(), accessToken);
-    setTokenCookie(this.getRefreshTokenName(), refreshToken);
-    setTokenCookie(this.getPayloadSignatureName(), payloadSignature);
+    setTokenCookie(this.getIdTokenName(), "idToken", idToken, isRefreshable);
+    setTokenCookie(
+      this.getAccessTokenName(),
+      "accessToken",
+      accessToken,
+      isRefreshable,
+    );
+    setTokenCookie(this.getRefreshTokenName(), "refreshToken", refreshToken);
+    setTokenCookie(
+      this.getPayloadSignatureName(),
+      "payloadSignature",
+      payloadSignature,
+    );
+  }
+
+  /**
+   * Schedules the `tokenExpired` event for the given token based on its `exp` claim.
+   * When the access token expires and a refresh token is available, the session is refreshed.
+   *
+   * @param {TokenExpiredEvent["tokenType"]} tokenType The type of the token.
+   * @param {string} token The token to watch.
+   */
+  private scheduleExpiry(
+    tokenType: TokenExpiredEvent["tokenType"],
+    token: string,
+  ) {
+    clearTimeout(this.expiryTimers.get(tokenType));
+    this.expiryTimers.delete(tokenType);
+
+    let exp: unknown;
+    try {
+      exp = parseJwt(token)?.exp;
+    } catch {
+      return;
+    }
+    if (typeof exp !== "number") {
+      return;
+    }
+
+    const expiredAt = new Date(exp * 1000);
+    const delay = expiredAt.getTime() - Date.now();
+
+    const timer = setTimeout(
+      () => {
+        this.expiryTimers.delete(tokenType);
+
+        if (delay > MAX_TIMER_DELAY_MS) {
+          this.scheduleExpiry(tokenType, token);
+          return;
+        }
+
+        this.events.emit("tokenExpired", { tokenType, expiredAt });
+
+        // Skip the refresh if another tab has already stored a newer access token.
+        const storedToken = this.storage.getItem(this.getAccessTokenName());
+        if (
+          tokenType === "accessToken" &&
+          (!storedToken || storedToken === token) &&
+          this.storage.getItem(this.getRefreshTokenName())
+        ) {
+          this.refreshSession().catch(() => {});
+        }
+      },
+      Math.max(0, Math.min(delay, MAX_TIMER_DELAY_MS)),
+    );
+
+    this.expiryTimers.set(tokenType, timer);
+  }
+
+  /**
+   * Emits the login event with the information of the newly stored session.
+   */
+  private emitLogin() {
+    const session = this.getSessionInfo();
+    if (session) {
+      this.events.emit("login", session);
+    }
+  }
+
+  /**
+   * Cancels all pending expiry timers.
+   */
+  private clearExpiryTimers() {
+    for (const timer of this.expiryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.expiryTimers.clear();
+  }
+
+  /**
+   * Applies a change received from another tab. Messages carry no tokens, so this tab re-reads its
+   * own token storage; a storage that is not shared between tabs, such as **`memory`**, keeps its
+   * session until the user signs out in another tab.
+   *
+   * @param {SessionSyncMessage} message The received change.
+   */
+  private handleSyncMessage(message: SessionSyncMessage) {
+    switch (message.type) {
+      case "login":
+        this.scheduleStoredTokens();
+        this.emitLogin();
+        break;
+
+      case "refreshed":
+        this.scheduleStoredTokens();
+        if (this.retrieveToken("accessToken")) {
+          this.events.emit("tokenRefreshed", this.getTokenSet());
+        }
+        break;
+
+      case "logout":
+        if (this.clearTokens()) {
+          this.events.emit("logout", undefined);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Schedules expiry timers for tokens that were stored outside this instance, for example by a
+   * previous page load or by another tab.
+   */
+  private scheduleStoredTokens() {
+    const jwt = this.getJwtCookie();
+    if (jwt) {
+      this.scheduleExpiry("authzToken", jwt);
+    }
+
+    const tokenTypes: TokenType[] = [
+      "idToken",
+      "accessToken",
+      "refreshToken",
+      "payloadSignature",
+    ];
+    for (const tokenType of tokenTypes) {
+      const token = this.storage.getItem(this.getTokenName(tokenType));
+      if (token) {
+        this.scheduleExpiry(tokenType, token);
+      }
+    }
   }
 
   /**
-   * Retrieves a specific token by type.
+   * Retrieves a specific token by type. The token set is never refreshed here; use
+   * `retrieveValidToken` to refresh a missing or expiring token.
    *
    * @param {string} tokenType The type of token to retrieve ('idToken', 'accessToken', 'refreshToken', 'payloadSignature').
    * @returns {string | undefined} The token value, or null if not found.
    */
-  public retrieveToken(
-    tokenType: "idToken" | "accessToken" | "refreshToken" | "payloadSignature",
-  ): string {
-    const tokenNameMap = {
-      idToken: this.getIdTokenName(),
-      accessToken: this.getAccessTokenName(),
-      refreshToken: this.getRefreshTokenName(),
-      payloadSignature: this.getPayloadSignatureName(),
-    };
-    const tokenName = tokenNameMap[tokenType];
-    // NOTE: Later check for undefined and attempt to use refresh token with service
-    return getCookie(tokenName) || "";
+  public retrieveToken(tokenType: TokenType): string {
+    return this.storage.getItem(this.getTokenName(tokenType)) || "";
+  }
+
+  /**
+   * Retrieves a specific token by type, refreshing the token set first if the access or ID token
+   * is missing or about to expire and a refresh token is available.
+   *
+   * @param {TokenType} tokenType The type of token to retrieve.
+   * @returns {Promise<string>} The token value, or an empty string if not found.
+   */
+  public async retrieveValidToken(tokenType: TokenType): Promise<string> {
+    const token = this.storage.getItem(this.getTokenName(tokenType)) || "";
+    const canRefresh = tokenType === "accessToken" || tokenType === "idToken";
+
+    if (
+      token &&
+      !(canRefresh && expiresWithin(token, REFRESH_LEEWAY_SECONDS))
+    ) {
+      return token;
+    }
+
+    if (!canRefresh || !this.storage.getItem(this.getRefreshTokenName())) {
+      return token;
+    }
+
+    try {
+      const tokenSet = await this.refreshSession();
+      return tokenSet[tokenType] || "";
+    } catch {
+      return this.storage.getItem(this.getTokenName(tokenType)) || "";
+    }
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new token set and stores it.
+   *
+   * Concurrent calls for the same application share a single request. If LoginID rejects
+   * the refresh token, the stored session is cleared.
+   *
+   * @returns {Promise<LoginIDTokenSet>} The refreshed token set.
+   * @throws {LoginIDError} If no refresh token is available.
+   * @throws {ApiError} If the refresh request fails.
+   */
+  public async refreshSession(): Promise<LoginIDTokenSet> {
+    const appId = this.config.getAppId();
+    const pending = pendingRefreshes.get(appId);
+    if (pending) {
+      return await pending;
+    }
+
+    const refreshToken = this.storage.getItem(this.getRefreshTokenName());
+    if (!refreshToken) {
+      throw new LoginIDError(
+        "No refresh token is available to refresh the session.",
+      );
+    }
+
+    const refresh = this.exchangeRefreshToken(refreshToken).finally(() =>
+      pendingRefreshes.delete(appId),
+    );
+    pendingRefreshes.set(appId, refresh);
+
+    return await refresh;
+  }
+
+  /**
+   * Exchanges the given refresh token for a new token set and stores it.
+   * Clears the session if LoginID rejects the refresh token.
+   *
+   * @param {string} refreshToken The refresh token to exchange.
+   * @returns {Promise<LoginIDTokenSet>} The refreshed token set.
+   */
+  private async exchangeRefreshToken(
+    refreshToken: string,
+  ): Promise<LoginIDTokenSet> {
+    try {
+      const result = await this.service.mfa.mfaMfaTokenRefresh({
+        requestBody: { refreshToken },
+      });
+
+      this.storeTokenSet(result);
+
+      const tokenSet: LoginIDTokenSet = {
+        idToken: result.idToken,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken || refreshToken,
+        ...(result.payloadSignature && {
+          payloadSignature: result.payloadSignature,
+        }),
+      };
+
+      this.events.emit("tokenRefreshed", tokenSet);
+      this.sync?.publish({ type: "refreshed" });
+
+      return tokenSet;
+    } catch (error) {
+      if (
+        error instanceof ApiError &&
+        (error.status === 400 || error.status === 401)
+      ) {
+        this.logout();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the dynamic Cookie name holding the given token type.
+   *
+   * @param {TokenType} tokenType The type of token.
+   * @returns {string} The name of the cookie
+   */
+  private getTokenName(tokenType: TokenType): string {
+    switch (tokenType) {
+      case "idToken":
+        return this.getIdTokenName();
+      case "accessToken":
+        return this.getAccessTokenName();
+      case "refreshToken":
+        return this.getRefreshTokenName();
+      case "payloadSignature":
+        return this.getPayloadSignatureName();
+    }
   }
 
   /**
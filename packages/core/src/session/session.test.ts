@@ -0,0 +1,175 @@
+// Copyright (C) LoginID
+
+import { MemoryTokenStorage, createTokenStorage } from "./storage";
+import { MockLoginIDBackend } from "../testing";
+import { UnauthorizedError } from "../errors";
+import { LoginIDMfa } from "../mfa";
+
+const baseUrl = "https://app-1.mock.loginid.io";
+const username = "jane@example.com";
+
+describe("SessionManager", () => {
+  const backend = new MockLoginIDBackend();
+  let lid: LoginIDMfa;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    backend.reset();
+    backend.addUser({ username });
+    backend.setScenario({ mfaSteps: [["otp:email"]] });
+
+    lid = new LoginIDMfa({
+      baseUrl,
+      httpRequest: backend.httpRequest,
+      tokenStorage: "memory",
+      disableAnalytics: true,
+    });
+
+    await lid.beginFlow(username);
+    await lid.performAction("otp:email");
+    await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+  });
+
+  it("exchanges the refresh token for a new token set", async () => {
+    const previous = lid.session.getTokenSet();
+    const onRefreshed = jest.fn();
+    lid.session.on("tokenRefreshed", onRefreshed);
+
+    const tokenSet = await lid.session.refreshSession();
+
+    expect(tokenSet.accessToken).not.toBe(previous.accessToken);
+    expect(tokenSet.refreshToken).not.toBe(previous.refreshToken);
+    expect(lid.session.getTokenSet()).toMatchObject(tokenSet);
+    expect(onRefreshed).toHaveBeenCalledWith(tokenSet);
+  });
+
+  it("shares one request between concurrent refreshes", async () => {
+    const [first, second] = await Promise.all([
+      lid.session.refreshSession(),
+      lid.session.refreshSession(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(
+      backend.requests.filter(({ path }) => path.endsWith("/token/refresh")),
+    ).toHaveLength(1);
+  });
+
+  it("refreshes a missing access token when it is requested", async () => {
+    const { refreshToken } = lid.session.getTokenSet();
+    lid.session.logout();
+    lid.session.setTokenSet({
+      accessToken: "",
+      flow: "signIn",
+      idToken: "",
+      payload: "",
+      payloadSignature: "",
+      refreshToken,
+    });
+
+    expect(lid.session.retrieveToken("accessToken")).toBe("");
+    await expect(
+      lid.session.retrieveValidToken("accessToken"),
+    ).resolves.toBeTruthy();
+  });
+
+  it("stays signed in with an expired access token and refreshes it on read", async () => {
+    const { accessToken } = lid.session.getTokenSet();
+    const dateNow = jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + 2 * 60 * 60 * 1000);
+
+    try {
+      expect(lid.session.isLoggedIn()).toBe(true);
+      expect(lid.session.getSessionInfo()).toMatchObject({ username });
+
+      await lid.session.refreshSession();
+      expect(
+        backend.requests.filter(({ path }) => path.endsWith("/token/refresh")),
+      ).toHaveLength(1);
+      expect(lid.session.retrieveToken("accessToken")).not.toBe(accessToken);
+      expect(lid.session.getSessionInfo()?.isExpired()).toBe(false);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  it("refreshes the stored session when constructed after the access token expired", async () => {
+    const { accessToken } = lid.session.getTokenSet();
+    const dateNow = jest
+      .spyOn(Date, "now")
+      .mockReturnValue(Date.now() + 2 * 60 * 60 * 1000);
+
+    try {
+      // A new instance, as on the next page load, with no handler registered
+      const reloaded = new LoginIDMfa({
+        baseUrl,
+        httpRequest: backend.httpRequest,
+        tokenStorage: "memory",
+        disableAnalytics: true,
+      });
+      await new Promise((resolve) => reloaded.on("tokenRefreshed", resolve));
+
+      expect(
+        backend.requests.filter(({ path }) => path.endsWith("/token/refresh")),
+      ).toHaveLength(1);
+      expect(reloaded.session.retrieveToken("accessToken")).not.toBe(
+        accessToken,
+      );
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  it("clears the session when the refresh token is rejected", async () => {
+    const onLogout = jest.fn();
+    lid.session.on("logout", onLogout);
+    backend.respondOnce("POST /fido2/v2/mfa/token/refresh", {
+      status: 401,
+      body: { msgCode: "unauthorized", msg: "Invalid refresh token" },
+    });
+
+    await expect(lid.session.refreshSession()).rejects.toThrow(
+      UnauthorizedError,
+    );
+    expect(lid.session.isLoggedIn()).toBe(false);
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes every token on logout", () => {
+    const onLogout = jest.fn();
+    lid.session.on("logout", onLogout);
+
+    lid.session.logout();
+    lid.session.logout();
+
+    expect(lid.session.isLoggedIn()).toBe(false);
+    expect(lid.session.getTokenSet()).toEqual({
+      idToken: "",
+      accessToken: "",
+      refreshToken: "",
+      payloadSignature: "",
+    });
+    expect(onLogout).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createTokenStorage", () => {
+  it("falls back to memory storage when Web Storage is blocked", () => {
+    const getLocalStorage = jest
+      .spyOn(window, "localStorage", "get")
+      .mockImplementation(() => {
+        throw new DOMException("The operation is insecure.", "SecurityError");
+      });
+
+    try {
+      expect(createTokenStorage("localStorage")).toBeInstanceOf(
+        MemoryTokenStorage,
+      );
+    } finally {
+      getLocalStorage.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,212 @@
+// Copyright (C) LoginID
+
+import { CookieOptions, TokenStorage, TokenStorageType } from "../types";
+import { getCookie } from "../utils/browser";
+
+export type { CookieOptions, TokenStorage, TokenStorageType };
+
+/**
+ * Stores tokens in `document.cookie` with configurable cookie attributes.
+ */
+export class CookieTokenStorage implements TokenStorage {
+  /**
+   * Attributes applied to every cookie written by this storage.
+   */
+  private readonly options: CookieOptions;
+
+  /**
+   * Initializes a new instance of CookieTokenStorage.
+   *
+   * @param {CookieOptions} options Attributes applied to every cookie.
+   */
+  constructor(options: CookieOptions = {}) {
+    this.options = options;
+  }
+
+  public getItem(name: string): string | undefined {
+    return getCookie(name);
+  }
+
+  public setItem(name: string, value: string, expiresAt?: Date) {
+    const expires = expiresAt ? `; Expires=${expiresAt.toUTCString()}` : "";
+    document.cookie = `${name}=${value}${expires}${this.getAttributes()}`;
+  }
+
+  public removeItem(name: string) {
+    const expires = new Date(0).toUTCString();
+    document.cookie = `${name}=; Expires=${expires}${this.getAttributes()}`;
+  }
+
+  /**
+   * Builds the attribute part of the cookie string.
+   *
+   * @returns {string} The cookie attributes, each prefixed with `; `.
+   */
+  private getAttributes(): string {
+    const { path, domain, secure, sameSite } = this.options;
+    let attributes = "";
+
+    if (path) {
+      attributes += `; Path=${path}`;
+    }
+    if (domain) {
+      attributes += `; Domain=${domain}`;
+    }
+    if (sameSite) {
+      attributes += `; SameSite=${sameSite}`;
+    }
+    // Browsers reject SameSite=None cookies that are not secure.
+    if (secure || sameSite === "None") {
+      attributes += "; Secure";
+    }
+
+    return attributes;
+  }
+}
+
+/**
+ * Stores tokens in a Web Storage area such as `localStorage` or `sessionStorage`.
+ * Expiry is stored alongside the value and enforced on read.
+ */
+export class WebStorageTokenStorage implements TokenStorage {
+  /**
+   * The underlying Web Storage area.
+   */
+  private readonly storage: Storage;
+
+  /**
+   * Initializes a new instance of WebStorageTokenStorage.
+   *
+   * @param {Storage} storage The Web Storage area to use.
+   */
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  public getItem(name: string): string | null {
+    const raw = this.storage.getItem(name);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const { value, expiresAt } = JSON.parse(raw);
+      if (expiresAt && expiresAt <= Date.now()) {
+        this.storage.removeItem(name);
+        return null;
+      }
+      return value ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  public setItem(name: string, value: string, expiresAt?: Date) {
+    const item = {
+      value,
+      ...(expiresAt && { expiresAt: expiresAt.getTime() }),
+    };
+    this.storage.setItem(name, JSON.stringify(item));
+  }
+
+  public removeItem(name: string) {
+    this.storage.removeItem(name);
+  }
+}
+
+/**
+ * Keeps tokens in memory. Tokens are lost when the page, worker or process ends.
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  /**
+   * Stored values and their expiry timestamps in milliseconds.
+   */
+  private readonly items = new Map<
+    string,
+    { value: string; expiresAt?: number }
+  >();
+
+  public getItem(name: string): string | null {
+    const item = this.items.get(name);
+    if (!item) {
+      return null;
+    }
+
+    if (item.expiresAt && item.expiresAt <= Date.now()) {
+      this.items.delete(name);
+      return null;
+    }
+
+    return item.value;
+  }
+
+  public setItem(name: string, value: string, expiresAt?: Date) {
+    this.items.set(name, { value, expiresAt: expiresAt?.getTime() });
+  }
+
+  public removeItem(name: string) {
+    this.items.delete(name);
+  }
+}
+
+/**
+ * Memory storage shared by all SDK instances configured with `tokenStorage: "memory"`,
+ * so tokens set by one instance are visible to the others.
+ */
+const sharedMemoryStorage = new MemoryTokenStorage();
+
+/**
+ * Reads a Web Storage area of the page. Access throws in workers and during SSR, where there is no
+ * `window`, and when storage is blocked, such as a `SecurityError` in some private browsing modes.
+ *
+ * @param {"localStorage" | "sessionStorage"} name The storage area.
+ * @returns {Storage | undefined} The storage area, or undefined if it cannot be accessed.
+ */
+const getWebStorage = (
+  name: "localStorage" | "sessionStorage",
+): Storage | undefined => {
+  try {
+    return window[name] ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Resolves the token storage backend from the configured option. Web Storage that cannot be
+ * accessed falls back to memory storage.
+ *
+ * @param {TokenStorageType | TokenStorage} [tokenStorage] The configured storage type or custom storage.
+ * @param {CookieOptions} [cookieOptions] Attributes for the cookie storage.
+ * @returns {TokenStorage} The token storage backend.
+ */
+export const createTokenStorage = (
+  tokenStorage?: TokenStorageType | TokenStorage,
+  cookieOptions?: CookieOptions,
+): TokenStorage => {
+  if (tokenStorage && typeof tokenStorage === "object") {
+    return tokenStorage;
+  }
+
+  switch (tokenStorage) {
+    case "localStorage":
+    case "sessionStorage": {
+      const storage = getWebStorage(tokenStorage);
+      return storage
+        ? new WebStorageTokenStorage(storage)
+        : sharedMemoryStorage;
+    }
+
+    case "memory":
+      return sharedMemoryStorage;
+
+    case "cookie":
+      return new CookieTokenStorage(cookieOptions);
+
+    default:
+      if (typeof document === "undefined") {
+        return sharedMemoryStorage;
+      }
+      return new CookieTokenStorage(cookieOptions);
+  }
+};
@@ -0,0 +1,160 @@
+// Copyright (C) LoginID
+
+import { MfaInfo } from "../controllers/types";
+import { MfaStore } from "../store";
+
+/**
+ * A session change propagated between tabs of the same application. Token changes carry no
+ * tokens; each tab re-reads its own token storage, so tokens never leave the storage the
+ * application configured.
+ */
+export type SessionSyncMessage =
+  | { type: "login" }
+  | { type: "refreshed" }
+  | { type: "logout" }
+  | { type: "mfa"; info: MfaInfo | null };
+
+/**
+ * A handler invoked for session changes received from other tabs.
+ */
+export type SessionSyncListener = (message: SessionSyncMessage) => void;
+
+/**
+ * Propagates session changes between tabs of the same application.
+ *
+ * Uses `BroadcastChannel` where available and falls back to `storage` events otherwise.
+ * Received MFA session info is written to this tab's MFA store before listeners are notified.
+ */
+export class SessionSync {
+  /**
+   * The application ID whose session is synchronized.
+   */
+  private readonly appId: string;
+
+  /**
+   * Name of the channel, also used as the `localStorage` key for the fallback.
+   */
+  private readonly channelName: string;
+
+  /**
+   * The broadcast channel, if supported by the environment.
+   */
+  private readonly channel?: BroadcastChannel;
+
+  /**
+   * Listeners notified after a received change has been applied.
+   */
+  private readonly listeners = new Set<SessionSyncListener>();
+
+  /**
+   * Initializes a new instance of SessionSync and starts listening for changes from other tabs.
+   *
+   * @param {string} appId The application ID whose session is synchronized.
+   */
+  constructor(appId: string) {
+    this.appId = appId;
+    this.channelName = `LoginID_${appId}_session_sync`;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = (event: MessageEvent) => {
+        this.receive(event.data);
+      };
+    } else if (typeof window !== "undefined") {
+      window.addEventListener("storage", (event: StorageEvent) => {
+        if (event.key !== this.channelName || !event.newValue) {
+          return;
+        }
+
+        try {
+          this.receive(JSON.parse(event.newValue).message);
+        } catch {
+          // Ignore malformed messages
+        }
+      });
+    }
+  }
+
+  /**
+   * Registers a listener for changes received from other tabs.
+   *
+   * @param {SessionSyncListener} listener The listener to register.
+   */
+  public subscribe(listener: SessionSyncListener) {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * Propagates a session change to other tabs.
+   *
+   * @param {SessionSyncMessage} message The change to propagate.
+   */
+  public publish(message: SessionSyncMessage) {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    if (typeof localStorage === "undefined") {
+      return;
+    }
+
+    // Writing and immediately removing the key fires a storage event in the other tabs
+    // without leaving the message behind.
+    try {
+      const nonce = `${Date.now()}-${Math.random()}`;
+      localStorage.setItem(
+        this.channelName,
+        JSON.stringify({ nonce, message }),
+      );
+      localStorage.removeItem(this.channelName);
+    } catch {
+      // Storage may be unavailable, for example in private browsing modes
+    }
+  }
+
+  /**
+   * Applies a change received from another tab and notifies the listeners.
+   *
+   * @param {SessionSyncMessage} message The received change.
+   */
+  private receive(message: SessionSyncMessage) {
+    switch (message?.type) {
+      case "login":
+      case "refreshed":
+      case "logout":
+        break;
+
+      case "mfa":
+        MfaStore.persistInfo(this.appId, message.info || { next: [] });
+        break;
+
+      default:
+        return;
+    }
+
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+  }
+}
+
+/**
+ * Synchronizers shared by all SDK instances of the same application in this tab.
+ */
+const syncs = new Map<string, SessionSync>();
+
+/**
+ * Returns the session synchronizer for the given application, creating it on first use.
+ *
+ * @param {string} appId The application ID.
+ * @returns {SessionSync} The shared session synchronizer.
+ */
+export const getSessionSync = (appId: string): SessionSync => {
+  let sync = syncs.get(appId);
+  if (!sync) {
+    sync = new SessionSync(appId);
+    syncs.set(appId, sync);
+  }
+  return sync;
+};
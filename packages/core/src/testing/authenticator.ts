@@ -0,0 +1,885 @@
+// Copyright (C) LoginID
+
+import { VirtualAuthenticatorOptions, VirtualCredential } from "./types";
+import { bufferToBase64Url } from "../utils/crypto";
+import { PasskeyExtensionResults } from "../types";
+import { encodeCbor, encodeUtf8 } from "./cbor";
+import { PasskeyErrorCode } from "../errors";
+
+/**
+ * The COSE identifier of ES256, the only algorithm the virtual authenticator supports.
+ */
+const ES256 = -7;
+
+/**
+ * The DOMException each passkey error code is identified from.
+ */
+const FAILURE_NAMES: Record<PasskeyErrorCode, string> = {
+  ERROR_PASSKEY_ABORTED: "AbortError",
+  ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED: "ConstraintError",
+  ERROR_USER_VERIFICATION_UNSUPPORTED: "ConstraintError",
+  ERROR_PASSKEY_EXISTS: "InvalidStateError",
+  ERROR_GENERAL_ERROR: "NotAllowedError",
+  ERROR_ALGORITHMS_UNSUPPORTED: "NotSupportedError",
+  ERROR_DOMAIN_MISMATCH: "SecurityError",
+  ERROR_AUTHENTICATOR_UNKNOWN_ERROR: "UnknownError",
+};
+
+/**
+ * Authenticator data flags.
+ */
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * A credential together with its private key, PRF secret and large blob.
+ */
+interface StoredCredential {
+  rawId: Uint8Array;
+  rpId: string;
+  userHandle: Uint8Array;
+  userName: string;
+  displayName: string;
+  discoverable: boolean;
+  signCount: number;
+  keyPair: CryptoKeyPair;
+  prfSecret: Uint8Array;
+  largeBlob?: Uint8Array;
+}
+
+/**
+ * The extension inputs the virtual authenticator processes.
+ */
+interface ExtensionInputs {
+  credProps?: boolean;
+  prf?: AuthenticationExtensionsPRFInputs;
+  largeBlob?: {
+    support?: string;
+    read?: boolean;
+    write?: BufferSource;
+  };
+}
+
+/**
+ * Copies a `BufferSource` into a `Uint8Array`. Avoids `instanceof ArrayBuffer`, which fails for
+ * buffers created in another realm, as happens in jsdom.
+ *
+ * @param {BufferSource} source The buffer.
+ * @returns {Uint8Array} The bytes.
+ */
+const toBytes = (source: BufferSource): Uint8Array => {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(
+        source.buffer,
+        source.byteOffset,
+        source.byteLength,
+      ).slice()
+    : new Uint8Array(source as ArrayBuffer).slice();
+};
+
+/**
+ * Concatenates byte arrays.
+ *
+ * @param {Uint8Array[]} parts The byte arrays.
+ * @returns {Uint8Array} The joined bytes.
+ */
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Converts a raw `r || s` ECDSA signature, as produced by WebCrypto, to the ASN.1 DER encoding
+ * WebAuthn requires.
+ *
+ * @param {Uint8Array} raw The raw signature.
+ * @returns {Uint8Array} The DER-encoded signature.
+ */
+const toDerSignature = (raw: Uint8Array): Uint8Array => {
+  const encodeInteger = (value: Uint8Array): number[] => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) {
+      start++;
+    }
+    const bytes = Array.from(value.slice(start));
+    // A set high bit would make the integer negative
+    if (bytes[0] & 0x80) {
+      bytes.unshift(0);
+    }
+    return [0x02, bytes.length, ...bytes];
+  };
+
+  const half = raw.length / 2;
+  const r = encodeInteger(raw.slice(0, half));
+  const s = encodeInteger(raw.slice(half));
+
+  return new Uint8Array([0x30, r.length + s.length, ...r, ...s]);
+};
+
+/**
+ * Creates the `DOMException` a browser would reject with.
+ *
+ * @param {string} name The exception name.
+ * @param {string} message The message.
+ * @returns {DOMException} The exception.
+ */
+const toDomException = (name: string, message: string): DOMException => {
+  return new DOMException(message, name);
+};
+
+/**
+ * A software WebAuthn authenticator for tests. Installs a `navigator.credentials` polyfill that
+ * creates ES256 credentials and answers assertions with real signatures, so `WebAuthnHelper` and
+ * the SDK run end to end in environments without an authenticator, such as jsdom.
+ *
+ * Errors are rejected with the same `DOMException` names as browsers, so the SDK turns them into
+ * the matching `PasskeyError`. Use `failNext()` to force a failure.
+ *
+ * @example
+ * ```javascript
+ * import { MockLoginIDBackend, VirtualAuthenticator } from "@loginid/core/testing";
+ * import { webcrypto } from "node:crypto";
+ *
+ * const authenticator = new VirtualAuthenticator({ crypto: webcrypto });
+ * authenticator.install();
+ *
+ * const lid = new LoginIDWebSDK({ baseUrl, httpRequest: new MockLoginIDBackend().httpRequest });
+ * await lid.createPasskey("jane@example.com");
+ *
+ * authenticator.failNext("ERROR_GENERAL_ERROR");
+ * await expect(lid.authenticateWithPasskey("jane@example.com")).rejects.toThrow(PasskeyError);
+ *
+ * authenticator.uninstall();
+ * ```
+ */
+export class VirtualAuthenticator {
+  /**
+   * The authenticator options with defaults applied.
+   */
+  private readonly options: Required<
+    Omit<VirtualAuthenticatorOptions, "origin">
+  > &
+    Pick<VirtualAuthenticatorOptions, "origin">;
+
+  /**
+   * The stored credentials, oldest first.
+   */
+  private readonly credentials: StoredCredential[] = [];
+
+  /**
+   * Failures to reject the next operations with, in order.
+   */
+  private readonly failures: PasskeyErrorCode[] = [];
+
+  /**
+   * The `navigator.credentials` property replaced by `install()`.
+   */
+  private previousCredentials?: PropertyDescriptor;
+
+  /**
+   * Whether `install()` defined the global `PublicKeyCredential`.
+   */
+  private definedPublicKeyCredential = false;
+
+  /**
+   * Initializes a new instance of VirtualAuthenticator.
+   *
+   * @param {VirtualAuthenticatorOptions} [options={}] The authenticator capabilities.
+   */
+  constructor(options: VirtualAuthenticatorOptions = {}) {
+    this.options = {
+      attestation: options.attestation || "none",
+      aaguid: options.aaguid || "00000000-0000-0000-0000-000000000000",
+      residentKeys: options.residentKeys ?? true,
+      userVerification: options.userVerification ?? true,
+      transports: options.transports || ["internal"],
+      origin: options.origin,
+      crypto: options.crypto || globalThis.crypto,
+    };
+  }
+
+  /**
+   * Replaces `navigator.credentials` with this authenticator and defines a minimal global
+   * `PublicKeyCredential` if the environment has none. Its Signal API methods remove the
+   * credentials the relying party reports as unknown and update the reported user details.
+   */
+  public install() {
+    this.previousCredentials = Object.getOwnPropertyDescriptor(
+      navigator,
+      "credentials",
+    );
+
+    Object.defineProperty(navigator, "credentials", {
+      configurable: true,
+      value: {
+        create: (options?: CredentialCreationOptions) => this.create(options),
+        get: (options?: CredentialRequestOptions) => this.get(options),
+        store: async (credential: Credential) => credential,
+        preventSilentAccess: async () => {},
+      },
+    });
+
+    const global = globalThis as any;
+    if (typeof global.PublicKeyCredential === "undefined") {
+      const userVerification = this.options.userVerification;
+      const keep = (predicate: (credential: VirtualCredential) => boolean) =>
+        this.keepCredentials(predicate);
+      const update = (
+        predicate: (credential: VirtualCredential) => boolean,
+        details: Pick<VirtualCredential, "userName" | "displayName">,
+      ) => this.updateCredentials(predicate, details);
+
+      global.PublicKeyCredential = class {
+        static async isUserVerifyingPlatformAuthenticatorAvailable() {
+          return userVerification;
+        }
+
+        static async isConditionalMediationAvailable() {
+          return true;
+        }
+
+        static async getClientCapabilities() {
+          return {
+            conditionalCreate: true,
+            conditionalGet: true,
+            hybridTransport: false,
+            passkeyPlatformAuthenticator: true,
+            relatedOrigins: false,
+            signalAllAcceptedCredentials: true,
+            signalCurrentUserDetails: true,
+            signalUnknownCredential: true,
+            userVerifyingPlatformAuthenticator: userVerification,
+          };
+        }
+
+        static async signalUnknownCredential(options: {
+          rpId: string;
+          credentialId: string;
+        }) {
+          keep(
+            ({ rpId, id }) =>
+              rpId !== options.rpId || id !== options.credentialId,
+          );
+        }
+
+        static async signalAllAcceptedCredentials(options: {
+          rpId: string;
+          userId: string;
+          allAcceptedCredentialIds: string[];
+        }) {
+          keep(
+            ({ rpId, userHandle, id }) =>
+              rpId !== options.rpId ||
+              userHandle !== options.userId ||
+              options.allAcceptedCredentialIds.includes(id),
+          );
+        }
+
+        static async signalCurrentUserDetails(options: {
+          rpId: string;
+          userId: string;
+          name: string;
+          displayName: string;
+        }) {
+          update(
+            ({ rpId, userHandle }) =>
+              rpId === options.rpId && userHandle === options.userId,
+            { userName: options.name, displayName: options.displayName },
+          );
+        }
+      };
+      this.definedPublicKeyCredential = true;
+    }
+  }
+
+  /**
+   * Restores the `navigator.credentials` and `PublicKeyCredential` replaced by `install()`.
+   */
+  public uninstall() {
+    if (this.previousCredentials) {
+      Object.defineProperty(navigator, "credentials", this.previousCredentials);
+    } else {
+      delete (navigator as any).credentials;
+    }
+
+    if (this.definedPublicKeyCredential) {
+      delete (globalThis as any).PublicKeyCredential;
+      this.definedPublicKeyCredential = false;
+    }
+  }
+
+  /**
+   * Makes the next `create` or `get` call reject with the `DOMException` the SDK identifies as
+   * the given passkey error. Calls queue up, one failure per operation.
+   *
+   * Some codes depend on the request: the SDK reports a `ConstraintError` as
+   * `ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED` only if `requireResidentKey` is set, a
+   * `SecurityError` as `ERROR_DOMAIN_MISMATCH` only if the RP ID differs from the page host name,
+   * and an `AbortError` as `ERROR_PASSKEY_ABORTED` only for authentication with an abort signal.
+   *
+   * @param {PasskeyErrorCode} code The passkey error to simulate.
+   */
+  public failNext(code: PasskeyErrorCode) {
+    this.failures.push(code);
+  }
+
+  /**
+   * Returns the stored credentials.
+   *
+   * @returns {VirtualCredential[]} The credentials, oldest first.
+   */
+  public getCredentials(): VirtualCredential[] {
+    return this.credentials.map((credential) => ({
+      id: bufferToBase64Url(credential.rawId.buffer as ArrayBuffer),
+      rpId: credential.rpId,
+      userHandle: bufferToBase64Url(
+        credential.userHandle.buffer as ArrayBuffer,
+      ),
+      userName: credential.userName,
+      displayName: credential.displayName,
+      discoverable: credential.discoverable,
+      signCount: credential.signCount,
+    }));
+  }
+
+  /**
+   * Removes the stored credentials that do not match the predicate.
+   *
+   * @param {Function} predicate Returns true for the credentials to keep.
+   */
+  private keepCredentials(
+    predicate: (credential: VirtualCredential) => boolean,
+  ) {
+    const credentials = this.getCredentials();
+    for (let i = credentials.length - 1; i >= 0; i--) {
+      if (!predicate(credentials[i])) {
+        this.credentials.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Updates the user details of the stored credentials that match the predicate.
+   *
+   * @param {Function} predicate Returns true for the credentials to update.
+   * @param {object} details The new user name and display name.
+   */
+  private updateCredentials(
+    predicate: (credential: VirtualCredential) => boolean,
+    details: Pick<VirtualCredential, "userName" | "displayName">,
+  ) {
+    const credentials = this.getCredentials();
+    credentials.forEach((credential, i) => {
+      if (predicate(credential)) {
+        Object.assign(this.credentials[i], details);
+      }
+    });
+  }
+
+  /**
+   * Removes all stored credentials and queued failures.
+   */
+  public reset() {
+    this.credentials.length = 0;
+    this.failures.length = 0;
+  }
+
+  /**
+   * Implements `navigator.credentials.create()` for public key credentials. Conditional requests
+   * create the credential immediately, as after a recent password sign-in.
+   *
+   * @param {CredentialCreationOptions} [options] The creation options.
+   * @returns {Promise<Credential>} The new credential.
+   */
+  public async create(
+    options?: CredentialCreationOptions,
+  ): Promise<Credential> {
+    const publicKey = options?.publicKey;
+    this.checkRequest(options?.signal);
+
+    if (!publicKey) {
+      throw toDomException(
+        "NotSupportedError",
+        "Only public key credentials are supported",
+      );
+    }
+
+    const rpId = this.getRpId(publicKey.rp.id);
+    const selection = publicKey.authenticatorSelection || {};
+
+    const requiresResidentKey =
+      selection.requireResidentKey === true ||
+      selection.residentKey === "required";
+    if (requiresResidentKey && !this.options.residentKeys) {
+      throw toDomException(
+        "ConstraintError",
+        "Resident keys are not supported",
+      );
+    }
+
+    if (
+      selection.userVerification === "required" &&
+      !this.options.userVerification
+    ) {
+      throw toDomException(
+        "ConstraintError",
+        "User verification is not supported",
+      );
+    }
+
+    const algorithms = publicKey.pubKeyCredParams.map(({ alg }) => alg);
+    if (algorithms.length && !algorithms.includes(ES256)) {
+      throw toDomException(
+        "NotSupportedError",
+        "No supported algorithm was requested",
+      );
+    }
+
+    const excluded = (publicKey.excludeCredentials || []).map(({ id }) =>
+      bufferToBase64Url(toBytes(id).buffer as ArrayBuffer),
+    );
+    const exists = this.getCredentials().some(
+      (credential) =>
+        credential.rpId === rpId && excluded.includes(credential.id),
+    );
+    if (exists) {
+      throw toDomException(
+        "InvalidStateError",
+        "The credential is already registered",
+      );
+    }
+
+    const { subtle } = this.options.crypto;
+    const keyPair = (await subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"],
+    )) as CryptoKeyPair;
+
+    const credential: StoredCredential = {
+      rawId: this.options.crypto.getRandomValues(new Uint8Array(16)),
+      rpId,
+      userHandle: toBytes(publicKey.user.id),
+      userName: publicKey.user.name,
+      displayName: publicKey.user.displayName,
+      discoverable:
+        this.options.residentKeys &&
+        (requiresResidentKey || selection.residentKey === "preferred"),
+      signCount: 0,
+      keyPair,
+      prfSecret: this.options.crypto.getRandomValues(new Uint8Array(32)),
+    };
+
+    const rawPublicKey = new Uint8Array(
+      await subtle.exportKey("raw", keyPair.publicKey),
+    );
+    const cosePublicKey = encodeCbor(
+      new Map<number, number | Uint8Array>([
+        [1, 2],
+        [3, ES256],
+        [-1, 1],
+        [-2, rawPublicKey.slice(1, 33)],
+        [-3, rawPublicKey.slice(33, 65)],
+      ]),
+    );
+
+    const aaguid = Uint8Array.from(
+      this.options.aaguid.replace(/-/g, "").match(/../g) || [],
+      (hex) => parseInt(hex, 16),
+    );
+    const attestedCredentialData = concat(
+      aaguid,
+      new Uint8Array([
+        credential.rawId.length >> 8,
+        credential.rawId.length & 0xff,
+      ]),
+      credential.rawId,
+      cosePublicKey,
+    );
+
+    const authenticatorData = await this.getAuthenticatorData(
+      credential,
+      selection.userVerification,
+      attestedCredentialData,
+    );
+    const clientDataJSON = this.getClientData(
+      "webauthn.create",
+      publicKey.challenge,
+    );
+
+    let attStmt: Record<string, number | Uint8Array> = {};
+    if (this.options.attestation === "packed") {
+      attStmt = {
+        alg: ES256,
+        sig: await this.sign(credential, authenticatorData, clientDataJSON),
+      };
+    }
+
+    const attestationObject = encodeCbor({
+      fmt: this.options.attestation,
+      attStmt,
+      authData: authenticatorData,
+    });
+
+    this.credentials.push(credential);
+
+    const extensionResults = await this.processExtensions(
+      credential,
+      publicKey.extensions,
+      true,
+    );
+    const spki = await subtle.exportKey("spki", keyPair.publicKey);
+    const transports = [...this.options.transports];
+
+    return this.toPublicKeyCredential(
+      credential,
+      {
+        clientDataJSON: clientDataJSON.slice().buffer,
+        attestationObject: attestationObject.slice().buffer,
+        getAuthenticatorData: () => authenticatorData.slice().buffer,
+        getPublicKey: () => spki,
+        getPublicKeyAlgorithm: () => ES256,
+        getTransports: () => transports,
+      },
+      extensionResults,
+    );
+  }
+
+  /**
+   * Implements `navigator.credentials.get()` for public key credentials. Conditional requests
+   * resolve immediately with the newest discoverable credential.
+   *
+   * @param {CredentialRequestOptions} [options] The request options.
+   * @returns {Promise<Credential>} The assertion.
+   */
+  public async get(options?: CredentialRequestOptions): Promise<Credential> {
+    const publicKey = options?.publicKey;
+    this.checkRequest(options?.signal);
+
+    if (!publicKey) {
+      throw toDomException(
+        "NotSupportedError",
+        "Only public key credentials are supported",
+      );
+    }
+
+    const rpId = this.getRpId(publicKey.rpId);
+
+    if (
+      publicKey.userVerification === "required" &&
+      !this.options.userVerification
+    ) {
+      throw toDomException(
+        "NotAllowedError",
+        "User verification is not supported",
+      );
+    }
+
+    const allowed = (publicKey.allowCredentials || []).map(({ id }) =>
+      bufferToBase64Url(toBytes(id).buffer as ArrayBuffer),
+    );
+    const candidates = this.credentials.filter((credential) => {
+      if (credential.rpId !== rpId) {
+        return false;
+      }
+      if (allowed.length) {
+        return allowed.includes(
+          bufferToBase64Url(credential.rawId.buffer as ArrayBuffer),
+        );
+      }
+      return credential.discoverable;
+    });
+
+    const credential = candidates[candidates.length - 1];
+    if (!credential) {
+      throw toDomException(
+        "NotAllowedError",
+        "No matching credential was found",
+      );
+    }
+
+    credential.signCount++;
+
+    const authenticatorData = await this.getAuthenticatorData(
+      credential,
+      publicKey.userVerification,
+    );
+    const clientDataJSON = this.getClientData(
+      "webauthn.get",
+      publicKey.challenge,
+    );
+    const signature = await this.sign(
+      credential,
+      authenticatorData,
+      clientDataJSON,
+    );
+
+    const extensionResults = await this.processExtensions(
+      credential,
+      publicKey.extensions,
+      false,
+    );
+
+    return this.toPublicKeyCredential(
+      credential,
+      {
+        clientDataJSON: clientDataJSON.slice().buffer,
+        authenticatorData: authenticatorData.slice().buffer,
+        signature: signature.slice().buffer,
+        userHandle: credential.discoverable
+          ? credential.userHandle.slice().buffer
+          : null,
+      },
+      extensionResults,
+    );
+  }
+
+  /**
+   * Rejects with a queued failure or if the request has already been aborted.
+   *
+   * @param {AbortSignal | undefined} signal The request signal.
+   */
+  private checkRequest(signal?: AbortSignal) {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw toDomException(
+        FAILURE_NAMES[failure],
+        `Simulated failure: ${failure}`,
+      );
+    }
+
+    if (signal?.aborted) {
+      throw toDomException("AbortError", "The operation was aborted");
+    }
+  }
+
+  /**
+   * Returns the origin written to the client data.
+   *
+   * @returns {string} The origin.
+   */
+  private getOrigin(): string {
+    return (
+      this.options.origin || globalThis.location?.origin || "https://localhost"
+    );
+  }
+
+  /**
+   * Resolves the RP ID and checks that it is valid for the origin.
+   *
+   * @param {string} [rpId] The requested RP ID.
+   * @returns {string} The RP ID.
+   */
+  private getRpId(rpId?: string): string {
+    const host = new URL(this.getOrigin()).hostname;
+    const id = rpId || host;
+
+    if (host !== id && !host.endsWith(`.${id}`)) {
+      throw toDomException(
+        "SecurityError",
+        `The RP ID ${id} is not valid for the origin ${this.getOrigin()}`,
+      );
+    }
+
+    return id;
+  }
+
+  /**
+   * Builds the client data JSON.
+   *
+   * @param {string} type The ceremony type.
+   * @param {BufferSource} challenge The challenge.
+   * @returns {Uint8Array} The UTF-8 encoded client data.
+   */
+  private getClientData(type: string, challenge: BufferSource): Uint8Array {
+    return encodeUtf8(
+      JSON.stringify({
+        type,
+        challenge: bufferToBase64Url(toBytes(challenge).buffer as ArrayBuffer),
+        origin: this.getOrigin(),
+        crossOrigin: false,
+      }),
+    );
+  }
+
+  /**
+   * Builds the authenticator data.
+   *
+   * @param {StoredCredential} credential The credential.
+   * @param {UserVerificationRequirement} [userVerification] The requested user verification.
+   * @param {Uint8Array} [attestedCredentialData] The attested credential data of a new credential.
+   * @returns {Promise<Uint8Array>} The authenticator data.
+   */
+  private async getAuthenticatorData(
+    credential: StoredCredential,
+    userVerification?: UserVerificationRequirement,
+    attestedCredentialData?: Uint8Array,
+  ): Promise<Uint8Array> {
+    const rpIdHash = new Uint8Array(
+      await this.options.crypto.subtle.digest(
+        "SHA-256",
+        encodeUtf8(credential.rpId),
+      ),
+    );
+
+    let flags = FLAG_USER_PRESENT;
+    if (this.options.userVerification && userVerification !== "discouraged") {
+      flags |= FLAG_USER_VERIFIED;
+    }
+    if (attestedCredentialData) {
+      flags |= FLAG_ATTESTED_CREDENTIAL_DATA;
+    }
+
+    const count = credential.signCount;
+    const signCount = new Uint8Array([
+      (count >>> 24) & 0xff,
+      (count >> 16) & 0xff,
+      (count >> 8) & 0xff,
+      count & 0xff,
+    ]);
+
+    return concat(
+      rpIdHash,
+      new Uint8Array([flags]),
+      signCount,
+      attestedCredentialData || new Uint8Array(),
+    );
+  }
+
+  /**
+   * Signs the authenticator data and the client data hash with the credential key.
+   *
+   * @param {StoredCredential} credential The credential.
+   * @param {Uint8Array} authenticatorData The authenticator data.
+   * @param {Uint8Array} clientDataJSON The client data.
+   * @returns {Promise<Uint8Array>} The DER-encoded signature.
+   */
+  private async sign(
+    credential: StoredCredential,
+    authenticatorData: Uint8Array,
+    clientDataJSON: Uint8Array,
+  ): Promise<Uint8Array> {
+    const { subtle } = this.options.crypto;
+    const clientDataHash = new Uint8Array(
+      await subtle.digest("SHA-256", clientDataJSON),
+    );
+    const signature = await subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      credential.keyPair.privateKey,
+      concat(authenticatorData, clientDataHash),
+    );
+    return toDerSignature(new Uint8Array(signature));
+  }
+
+  /**
+   * Processes the `credProps`, `prf` and `largeBlob` extensions. Large blobs are only supported
+   * for discoverable credentials, as in browsers.
+   *
+   * @param {StoredCredential} credential The credential.
+   * @param {ExtensionInputs} [extensions] The extension inputs.
+   * @param {boolean} isCreate Whether the ceremony creates the credential.
+   * @returns {Promise<PasskeyExtensionResults>} The client extension results.
+   */
+  private async processExtensions(
+    credential: StoredCredential,
+    extensions: ExtensionInputs = {},
+    isCreate: boolean,
+  ): Promise<PasskeyExtensionResults> {
+    const results: PasskeyExtensionResults = {};
+
+    if (isCreate && extensions.credProps) {
+      results.credProps = { rk: credential.discoverable };
+    }
+
+    if (extensions.prf) {
+      const id = bufferToBase64Url(credential.rawId.slice().buffer);
+      const values =
+        extensions.prf.evalByCredential?.[id] || extensions.prf.eval;
+      results.prf = isCreate ? { enabled: true } : {};
+      if (values) {
+        results.prf.results = {
+          first: await this.evaluatePrf(credential, values.first),
+          ...(values.second && {
+            second: await this.evaluatePrf(credential, values.second),
+          }),
+        };
+      }
+    }
+
+    const { largeBlob } = extensions;
+    if (largeBlob && isCreate && largeBlob.support) {
+      results.largeBlob = { supported: credential.discoverable };
+    } else if (largeBlob?.read && !isCreate) {
+      results.largeBlob = credential.largeBlob
+        ? { blob: credential.largeBlob.slice().buffer }
+        : {};
+    } else if (largeBlob?.write && !isCreate) {
+      if (credential.discoverable) {
+        credential.largeBlob = toBytes(largeBlob.write);
+      }
+      results.largeBlob = { written: credential.discoverable };
+    }
+
+    return results;
+  }
+
+  /**
+   * Evaluates the PRF of a credential as CTAP2 `hmac-secret` does, over the salt hashed with the
+   * WebAuthn PRF context string.
+   *
+   * @param {StoredCredential} credential The credential.
+   * @param {BufferSource} salt The PRF input.
+   * @returns {Promise<ArrayBuffer>} The 32-byte PRF output.
+   */
+  private async evaluatePrf(
+    credential: StoredCredential,
+    salt: BufferSource,
+  ): Promise<ArrayBuffer> {
+    const { subtle } = this.options.crypto;
+    const hashedSalt = await subtle.digest(
+      "SHA-256",
+      concat(encodeUtf8("WebAuthn PRF"), new Uint8Array([0]), toBytes(salt)),
+    );
+    const key = await subtle.importKey(
+      "raw",
+      credential.prfSecret,
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    return await subtle.sign("HMAC", key, hashedSalt);
+  }
+
+  /**
+   * Wraps an authenticator response in an object shaped like a `PublicKeyCredential`.
+   *
+   * @param {StoredCredential} credential The credential.
+   * @param {object} response The authenticator response.
+   * @param {PasskeyExtensionResults} extensionResults The client extension results.
+   * @returns {Credential} The credential.
+   */
+  private toPublicKeyCredential(
+    credential: StoredCredential,
+    response: Record<string, unknown>,
+    extensionResults: PasskeyExtensionResults,
+  ): Credential {
+    const rawId = credential.rawId.slice().buffer;
+
+    return {
+      id: bufferToBase64Url(rawId),
+      rawId,
+      type: "public-key",
+      authenticatorAttachment: "platform",
+      response,
+      getClientExtensionResults: () => extensionResults,
+    } as Credential;
+  }
+}
@@ -0,0 +1,1394 @@
+// Copyright (C) LoginID
+
+import {
+  AuthInit,
+  Mfa,
+  MfaAction,
+  MfaNext,
+  Passkey,
+  PublicKeyCredentialCreationOptions,
+  PublicKeyCredentialRequestOptions,
+  SubmitRequestBody,
+} from "../api";
+import {
+  MockBackendOptions,
+  MockFactorName,
+  MockPasskey,
+  MockRequest,
+  MockResponse,
+  MockScenario,
+  MockUser,
+  MockUserOptions,
+} from "./types";
+import { createMockHttpRequest } from "./http-request";
+import { bufferToBase64Url } from "../utils/crypto";
+import { HttpRequestConstructor } from "../types";
+import { ApiErrorCode } from "../errors";
+
+/**
+ * Lifetime of issued tokens, in seconds.
+ */
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * The lifetime of MFA sessions in seconds.
+ */
+const MFA_SESSION_TTL_SECONDS = 10 * 60;
+
+/**
+ * Seconds until another MFA one-time password may be requested, sent as a hint.
+ */
+const OTP_RESEND_AFTER_SECONDS = 30;
+
+/**
+ * Number of attempts to verify an MFA one-time password.
+ */
+const OTP_MAX_ATTEMPTS = 5;
+
+/**
+ * The AAGUID reported for every passkey.
+ */
+const MOCK_AAGUID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * A pending flow keyed by its session ID.
+ */
+interface MockSession {
+  id: string;
+  type: "auth" | "reg" | "tx" | "mfa";
+  challenge: string;
+  username?: string;
+  deviceId?: string;
+  txPayload?: string;
+  flow?: Mfa["flow"];
+  steps?: MockFactorName[][];
+  step?: number;
+  otpFactor?: MockFactorName;
+  otp?: string;
+  otpAttempts?: number;
+  stepUp?: boolean;
+  amr?: string[];
+  expiresAt?: number;
+}
+
+/**
+ * A handler for one endpoint.
+ */
+type MockHandler = (request: MockRequest, params: string[]) => MockResponse;
+
+/**
+ * Creates a random base64url string.
+ *
+ * @param {number} length The number of random bytes.
+ * @returns {string} The encoded bytes.
+ */
+const randomBase64Url = (length: number): string => {
+  return bufferToBase64Url(
+    crypto.getRandomValues(new Uint8Array(length)).buffer,
+  );
+};
+
+/**
+ * Creates a random identifier in UUID format.
+ *
+ * @returns {string} The identifier.
+ */
+const randomId = (): string => {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Encodes a value as base64url JSON, the format of JWT segments and MFA passkey payloads.
+ *
+ * @param {any} value The value to encode.
+ * @returns {string} The encoded value.
+ */
+const encodeJson = (value: any): string => {
+  const binary = encodeURIComponent(JSON.stringify(value)).replace(
+    /%([0-9A-F]{2})/g,
+    (_, hex: string) => String.fromCharCode(parseInt(hex, 16)),
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+/**
+ * Builds an error response in the format of the API.
+ *
+ * @param {number} status The HTTP status.
+ * @param {ApiErrorCode} msgCode The message code.
+ * @param {string} msg The message.
+ * @returns {MockResponse} The response.
+ */
+const errorResponse = (
+  status: number,
+  msgCode: ApiErrorCode,
+  msg: string,
+): MockResponse => {
+  return { status, body: { msgCode, msg } };
+};
+
+/**
+ * An in-memory LoginID backend implementing the `/fido2/v2` API for local development and
+ * integration tests. Passkey signatures are not verified: any assertion for a registered
+ * credential ID succeeds, so the backend can be paired with a stubbed or virtual authenticator.
+ *
+ * Plug it into the SDK with the `httpRequest` option, or serve it over HTTP with `startMockServer()`.
+ * Requests sent through `httpRequest` skip the retries, timeouts and middleware of `LoginIDHttpRequest`.
+ *
+ * @example
+ * ```javascript
+ * import { MockLoginIDBackend } from "@loginid/core/testing";
+ * import { LoginIDWebSDK } from "@loginid/websdk3";
+ *
+ * const backend = new MockLoginIDBackend({ scenario: { otpCode: "123456" } });
+ * backend.addUser({ username: "jane@example.com", credentialIds: ["Y3JlZC0x"] });
+ *
+ * const lid = new LoginIDWebSDK({
+ *   baseUrl: "https://app.mock.loginid.io",
+ *   httpRequest: backend.httpRequest,
+ * });
+ *
+ * backend.setScenario({ authAction: "crossAuth" });
+ * const result = await lid.authenticateWithPasskey("jane@example.com");
+ * ```
+ */
+export class MockLoginIDBackend {
+  /**
+   * The HTTP client constructor to pass as the `httpRequest` SDK option.
+   */
+  public readonly httpRequest: HttpRequestConstructor;
+
+  /**
+   * Every request received, in order.
+   */
+  public readonly requests: MockRequest[] = [];
+
+  /**
+   * The client events submitted to `client-events/submit`.
+   */
+  public readonly events: SubmitRequestBody[] = [];
+
+  /**
+   * The relying party ID of issued WebAuthn options.
+   */
+  private readonly rpId: string;
+
+  /**
+   * The global scenario.
+   */
+  private scenario: MockScenario;
+
+  /**
+   * Users keyed by username.
+   */
+  private readonly users = new Map<string, MockUser>();
+
+  /**
+   * Pending flows keyed by session ID.
+   */
+  private readonly sessions = new Map<string, MockSession>();
+
+  /**
+   * Usernames keyed by the access tokens issued for them.
+   */
+  private readonly tokens = new Map<string, string>();
+
+  /**
+   * Usernames keyed by the refresh tokens issued for them.
+   */
+  private readonly refreshTokens = new Map<string, string>();
+
+  /**
+   * Usernames keyed by pending authentication codes.
+   */
+  private readonly authCodes = new Map<string, string>();
+
+  /**
+   * The last one-time password sent to each user.
+   */
+  private readonly otps = new Map<string, string>();
+
+  /**
+   * Scripted responses keyed by `METHOD url` operation, returned before the regular handler.
+   */
+  private readonly queued = new Map<string, MockResponse[]>();
+
+  /**
+   * Responses of completed MFA steps keyed by the consumed session ID, reported by `GET mfa/status`.
+   */
+  private readonly outcomes = new Map<string, MockResponse>();
+
+  /**
+   * Endpoint handlers keyed by `METHOD url` operation, using the URL templates of the API client.
+   */
+  private readonly routes: Record<string, MockHandler> = {
+    "POST /fido2/v2/auth/init": (request) => this.authInit(request),
+    "POST /fido2/v2/auth/complete": (request) => this.authComplete(request),
+    "POST /fido2/v2/auth/otp": (request) => this.authCodeRequest(request),
+    "POST /fido2/v2/auth/otp/email": (request) => this.authOtpSend(request),
+    "POST /fido2/v2/auth/otp/sms": (request) => this.authOtpSend(request),
+    "POST /fido2/v2/auth/otp/verify": (request) => this.authOtpVerify(request),
+    "POST /fido2/v2/client-events/submit": (request) =>
+      this.clientEventsSubmit(request),
+    "POST /fido2/v2/reg/init": (request) => this.regInit(request),
+    "POST /fido2/v2/reg/complete": (request) => this.regComplete(request),
+    "POST /fido2/v2/tx/init": (request) => this.txInit(request),
+    "POST /fido2/v2/tx/complete": (request) => this.txComplete(request),
+    "GET /fido2/v2/passkeys": (request) => this.passkeysList(request),
+    "DELETE /fido2/v2/passkeys/{id}": (request, [id]) =>
+      this.passkeyDelete(request, id),
+    "PUT /fido2/v2/passkeys/{id}": (request, [id]) =>
+      this.passkeyRename(request, id),
+    "GET /fido2/v2/passkeys/aaguid/{aaguid}": (_, [aaguid]) =>
+      this.aaguidMetadata(aaguid),
+    "POST /fido2/v2/mfa/begin": (request) => this.mfaBegin(request),
+    "GET /fido2/v2/mfa/next": (request) => this.mfaNext(request),
+    "POST /fido2/v2/mfa/otp/request": (request) => this.mfaOtpRequest(request),
+    "POST /fido2/v2/mfa/otp/verify": (request) => this.mfaOtpVerify(request),
+    "POST /fido2/v2/mfa/passkey/auth": (request) =>
+      this.mfaPasskeyAuth(request, "passkey:auth"),
+    "POST /fido2/v2/mfa/passkey/tx": (request) =>
+      this.mfaPasskeyAuth(request, "passkey:tx"),
+    "POST /fido2/v2/mfa/passkey/reg": (request) => this.mfaPasskeyReg(request),
+    "GET /fido2/v2/mfa/status": (request) => this.mfaStatus(request),
+    "POST /fido2/v2/mfa/third-party/verify": (request) =>
+      this.mfaThirdPartyVerify(request),
+    "POST /fido2/v2/mfa/token/refresh": (request) =>
+      this.mfaTokenRefresh(request),
+  };
+
+  /**
+   * Initializes a new instance of MockLoginIDBackend.
+   *
+   * @param {MockBackendOptions} [options={}] The relying party ID and global scenario.
+   */
+  constructor(options: MockBackendOptions = {}) {
+    this.rpId = options.rpId || "localhost";
+    this.scenario = options.scenario || {};
+    this.httpRequest = createMockHttpRequest(this);
+  }
+
+  /**
+   * Adds a user, replacing any user with the same username.
+   *
+   * @param {MockUserOptions} options The user and their registered passkeys.
+   * @returns {MockUser} The stored user.
+   */
+  public addUser({
+    credentialIds = [],
+    ...options
+  }: MockUserOptions): MockUser {
+    const user: MockUser = {
+      ...options,
+      id: randomBase64Url(16),
+      passkeys: [],
+    };
+
+    for (const credentialId of credentialIds) {
+      this.addPasskey(user, credentialId);
+    }
+
+    this.users.set(user.username, user);
+    return user;
+  }
+
+  /**
+   * Returns a stored user, including users created by sign-up flows.
+   *
+   * @param {string} username The username.
+   * @returns {MockUser | undefined} The user, if it exists.
+   */
+  public getUser(username: string): MockUser | undefined {
+    return this.users.get(username);
+  }
+
+  /**
+   * Merges the given settings into the global scenario.
+   *
+   * @param {MockScenario} scenario The settings to change.
+   */
+  public setScenario(scenario: MockScenario) {
+    this.scenario = { ...this.scenario, ...scenario };
+  }
+
+  /**
+   * Returns the last one-time password sent to a user.
+   *
+   * @param {string} username The username.
+   * @returns {string | undefined} The code, if one was sent.
+   */
+  public getLastOtp(username: string): string | undefined {
+    return this.otps.get(username);
+  }
+
+  /**
+   * Queues a response for the next request to an operation, for example to simulate an outage.
+   * Queued responses are returned in order, one per request.
+   *
+   * @param {string} operation The operation as `METHOD url`, for example `POST /fido2/v2/auth/init`.
+   * @param {MockResponse} response The response to return.
+   */
+  public respondOnce(operation: string, response: MockResponse) {
+    this.queued.set(operation, [
+      ...(this.queued.get(operation) || []),
+      response,
+    ]);
+  }
+
+  /**
+   * Removes all users, sessions, tokens, queued responses and recorded requests, and clears the
+   * global scenario.
+   */
+  public reset() {
+    this.scenario = {};
+    this.users.clear();
+    this.sessions.clear();
+    this.tokens.clear();
+    this.refreshTokens.clear();
+    this.authCodes.clear();
+    this.otps.clear();
+    this.queued.clear();
+    this.outcomes.clear();
+    this.requests.length = 0;
+    this.events.length = 0;
+  }
+
+  /**
+   * Handles a request.
+   *
+   * @param {MockRequest} request The request.
+   * @returns {MockResponse} The response.
+   */
+  public handle(request: MockRequest): MockResponse {
+    this.requests.push(request);
+
+    for (const [operation, handler] of Object.entries(this.routes)) {
+      const [method, template] = operation.split(" ");
+      const pattern = new RegExp(
+        `^${template.replace(/{[^}]+}/g, "([^/]+)")}$`,
+      );
+      const match = request.path.match(pattern);
+
+      if (method !== request.method.toUpperCase() || !match) {
+        continue;
+      }
+
+      const queued = this.queued.get(operation);
+      if (queued?.length) {
+        return queued.shift()!;
+      }
+
+      return handler(request, match.slice(1).map(decodeURIComponent));
+    }
+
+    return errorResponse(404, "not_found", "Endpoint not found");
+  }
+
+  /**
+   * Handles `POST auth/init`, answering with the scripted action.
+   */
+  private authInit({ body }: MockRequest): MockResponse {
+    const username: string | undefined = body?.user?.username;
+    const user = username ? this.users.get(username) : undefined;
+    const scenario = this.getScenario(user);
+
+    if (username && !user && !scenario.authAction) {
+      return errorResponse(404, "user_not_found", "User not found");
+    }
+
+    const session = this.createSession({
+      type: "auth",
+      username,
+      deviceId: body?.deviceInfo?.deviceId,
+    });
+    const action =
+      scenario.authAction || (user?.passkeys.length ? "proceed" : "crossAuth");
+
+    const result: AuthInit = {
+      action,
+      assertionOptions: this.toRequestOptions(session, user),
+      crossAuthMethods:
+        action === "crossAuth"
+          ? scenario.crossAuthMethods || ["otp:email"]
+          : [],
+      fallbackMethods:
+        action === "fallback" ? scenario.fallbackMethods || ["ciam"] : [],
+      session: session.id,
+    };
+
+    return { status: 200, body: result };
+  }
+
+  /**
+   * Handles `POST auth/complete` for any registered credential of the user.
+   */
+  private authComplete({ body }: MockRequest): MockResponse {
+    const session = this.sessions.get(body?.session);
+    if (session?.type !== "auth") {
+      return errorResponse(401, "session_expired", "Session has expired");
+    }
+
+    const found = this.findPasskey(
+      body.assertionResult?.credentialId,
+      session.username,
+    );
+    if (!found) {
+      return errorResponse(404, "credential_not_found", "Unknown credential");
+    }
+
+    this.sessions.delete(body.session);
+    return {
+      status: 200,
+      body: this.issueJwt(found.user, found.passkey, session.deviceId),
+    };
+  }
+
+  /**
+   * Handles `POST auth/otp`, issuing a code for the authorized user.
+   */
+  private authCodeRequest(request: MockRequest): MockResponse {
+    const user = this.authorize(request);
+    if (!user) {
+      return errorResponse(401, "unauthorized", "Invalid authorization token");
+    }
+
+    const code = this.sendOtp(user);
+    this.authCodes.set(code, user.username);
+
+    return {
+      status: 200,
+      body: {
+        code,
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Handles `POST auth/otp/email` and `POST auth/otp/sms`.
+   */
+  private authOtpSend({ body }: MockRequest): MockResponse {
+    // The API succeeds for unknown users so it cannot be used to discover accounts
+    const user = this.users.get(body?.user?.username);
+    if (user) {
+      this.authCodes.set(this.sendOtp(user), user.username);
+    }
+    return { status: 204 };
+  }
+
+  /**
+   * Handles `POST auth/otp/verify`.
+   */
+  private authOtpVerify({ body }: MockRequest): MockResponse {
+    const username = body?.user?.username;
+    const user = this.users.get(username);
+
+    if (!user || this.authCodes.get(body?.authCode) !== username) {
+      return errorResponse(400, "invalid_otp", "Invalid OTP code");
+    }
+
+    this.authCodes.delete(body.authCode);
+    return { status: 200, body: this.issueJwt(user) };
+  }
+
+  /**
+   * Handles `POST client-events/submit`, recording the event.
+   */
+  private clientEventsSubmit({ body }: MockRequest): MockResponse {
+    this.events.push(body);
+    return { status: 200, body: {} };
+  }
+
+  /**
+   * Handles `POST reg/init`, creating the user if needed.
+   */
+  private regInit(request: MockRequest): MockResponse {
+    const { body } = request;
+    const username: string | undefined = body?.user?.username;
+    if (!username) {
+      return errorResponse(400, "bad_request", "Username is required");
+    }
+
+    const existing = this.users.get(username);
+    const scenario = this.getScenario(existing);
+
+    if (existing?.passkeys.length && !this.authorize(request)) {
+      return errorResponse(
+        401,
+        "unauthorized",
+        "Authorization is required to add a passkey",
+      );
+    }
+
+    const user =
+      existing ||
+      this.addUser({ username, displayName: body.user.displayName });
+    const session = this.createSession({
+      type: "reg",
+      username,
+      deviceId: body.deviceInfo?.deviceId,
+    });
+
+    return {
+      status: 200,
+      body: {
+        action: scenario.regAction || "proceed",
+        registrationRequestOptions: this.toCreationOptions(session, user),
+        session: session.id,
+      },
+    };
+  }
+
+  /**
+   * Handles `POST reg/complete`, registering the created credential.
+   */
+  private regComplete({ body }: MockRequest): MockResponse {
+    const session = this.sessions.get(body?.session);
+    const user = session?.username && this.users.get(session.username);
+    if (session?.type !== "reg" || !user) {
+      return errorResponse(401, "session_expired", "Session has expired");
+    }
+
+    const passkey = this.addPasskey(
+      user,
+      body.creationResult?.credentialId,
+      body.passkeyName,
+    );
+
+    this.sessions.delete(body.session);
+    return {
+      status: 200,
+      body: this.issueJwt(user, passkey, session.deviceId),
+    };
+  }
+
+  /**
+   * Handles `POST tx/init`.
+   */
+  private txInit({ body }: MockRequest): MockResponse {
+    const user = this.users.get(body?.username);
+    if (!user) {
+      return errorResponse(404, "user_not_found", "User not found");
+    }
+
+    const session = this.createSession({
+      type: "tx",
+      username: user.username,
+      txPayload: body.txPayload,
+    });
+
+    return {
+      status: 200,
+      body: {
+        assertionOptions: this.toRequestOptions(session, user),
+        session: session.id,
+        txId: randomId(),
+      },
+    };
+  }
+
+  /**
+   * Handles `POST tx/complete` for any registered credential of the user.
+   */
+  private txComplete({ body }: MockRequest): MockResponse {
+    const session = this.sessions.get(body?.session);
+    if (session?.type !== "tx") {
+      return errorResponse(401, "session_expired", "Session has expired");
+    }
+
+    const found = this.findPasskey(body.keyHandle, session.username);
+    if (!found) {
+      return errorResponse(401, "unauthorized", "Unknown credential");
+    }
+
+    this.sessions.delete(body.session);
+    return {
+      status: 200,
+      body: {
+        authCred: this.toPasskey(found.passkey, found.user),
+        credentialId: found.passkey.credentialId,
+        token: this.issueToken(found.user, { txPayload: session.txPayload }),
+      },
+    };
+  }
+
+  /**
+   * Handles `GET passkeys`.
+   */
+  private passkeysList(request: MockRequest): MockResponse {
+    const user = this.authorize(request);
+    if (!user) {
+      return errorResponse(401, "unauthorized", "Invalid authorization token");
+    }
+
+    return {
+      status: 200,
+      body: user.passkeys.map((passkey) => this.toPasskey(passkey, user)),
+    };
+  }
+
+  /**
+   * Handles `DELETE passkeys/{id}`.
+   */
+  private passkeyDelete(request: MockRequest, id: string): MockResponse {
+    const user = this.authorize(request);
+    if (!user) {
+      return errorResponse(401, "unauthorized", "Invalid authorization token");
+    }
+
+    const index = user.passkeys.findIndex((passkey) => passkey.id === id);
+    if (index < 0) {
+      return errorResponse(404, "not_found", "Passkey not found");
+    }
+
+    user.passkeys.splice(index, 1);
+    return { status: 204 };
+  }
+
+  /**
+   * Handles `PUT passkeys/{id}`.
+   */
+  private passkeyRename(request: MockRequest, id: string): MockResponse {
+    const user = this.authorize(request);
+    if (!user) {
+      return errorResponse(401, "unauthorized", "Invalid authorization token");
+    }
+
+    const passkey = user.passkeys.find((passkey) => passkey.id === id);
+    if (!passkey) {
+      return errorResponse(404, "not_found", "Passkey not found");
+    }
+
+    if (!request.body?.name) {
+      return errorResponse(400, "bad_request", "Name is required");
+    }
+
+    passkey.name = request.body.name;
+    return { status: 204 };
+  }
+
+  /**
+   * Handles `GET passkeys/aaguid/{aaguid}`.
+   */
+  private aaguidMetadata(aaguid: string): MockResponse {
+    return {
+      status: 200,
+      body: {
+        id: aaguid,
+        name: "Mock Authenticator",
+        iconLight: "",
+        iconDark: "",
+      },
+    };
+  }
+
+  /**
+   * Handles `POST mfa/begin`, starting a sign-in flow for known users and a sign-up flow otherwise.
+   * A step-up flow requires the token of the same user and asks for the required factors only.
+   */
+  private mfaBegin(request: MockRequest): MockResponse {
+    const { body } = request;
+    const username: string | undefined = body?.user?.username;
+    if (!username) {
+      return errorResponse(400, "bad_request", "Username is required");
+    }
+
+    if (body.stepUp) {
+      return this.mfaStepUpBegin(request, username);
+    }
+
+    let user = this.users.get(username);
+    const flow: Mfa["flow"] = user ? "signIn" : "signUp";
+    if (!user) {
+      user = this.addUser({ username, displayName: body.user.displayName });
+    }
+
+    const txPayload: string | undefined = body.payload;
+    const defaultSteps: MockFactorName[][] = user.passkeys.length
+      ? [[txPayload ? "passkey:tx" : "passkey:auth", "otp:email"]]
+      : [["passkey:reg", "otp:email"]];
+
+    const session = this.createSession({
+      type: "mfa",
+      username,
+      deviceId: body.deviceInfo?.deviceId,
+      txPayload,
+      flow,
+      steps: this.getScenario(user).mfaSteps || defaultSteps,
+      step: 0,
+    });
+
+    return { status: 200, body: this.toMfaNext(session, user) };
+  }
+
+  /**
+   * Starts a step-up flow for the signed-in user, with one step per required factor.
+   *
+   * @param {MockRequest} request The `mfa/begin` request.
+   * @param {string} username The username in the request.
+   * @returns {MockResponse} The response.
+   */
+  private mfaStepUpBegin(request: MockRequest, username: string): MockResponse {
+    const user = this.authorize(request);
+    if (user?.username !== username) {
+      return errorResponse(401, "unauthorized", "Invalid authorization token");
+    }
+
+    // Users without passkeys prove possession of their email instead
+    const hasPasskeys = user.passkeys.length > 0;
+    const required: string[] = request.body.stepUp.requiredFactors || [];
+    const steps = required
+      .filter((factor) => factor === "passkey" || factor === "otp")
+      .map((factor): MockFactorName[] =>
+        factor === "passkey" && hasPasskeys ? ["passkey:auth"] : ["otp:email"],
+      );
+    const defaultSteps: MockFactorName[][] = hasPasskeys
+      ? [["passkey:auth", "otp:email"]]
+      : [["otp:email"]];
+
+    const session = this.createSession({
+      type: "mfa",
+      username,
+      deviceId: request.body.deviceInfo?.deviceId,
+      flow: "signIn",
+      steps: steps.length ? steps : defaultSteps,
+      step: 0,
+      stepUp: true,
+    });
+
+    return { status: 200, body: this.toMfaNext(session, user) };
+  }
+
+  /**
+   * Handles `GET mfa/next`, returning the current step of an MFA session.
+   */
+  private mfaNext(request: MockRequest): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    return { status: 200, body: this.toMfaNext(session, user) };
+  }
+
+  /**
+   * Handles `POST mfa/otp/request`.
+   */
+  private mfaOtpRequest(request: MockRequest): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    const factor: MockFactorName =
+      request.body?.method === "sms" ? "otp:sms" : "otp:email";
+    if (!this.isFactorAllowed(session, factor)) {
+      return errorResponse(
+        400,
+        "bad_request",
+        `Factor ${factor} is not allowed`,
+      );
+    }
+
+    session.otpFactor = factor;
+    session.otp = this.sendOtp(user);
+    session.otpAttempts = OTP_MAX_ATTEMPTS;
+
+    return {
+      status: 200,
+      body: {
+        session: session.id,
+        resendAfter: OTP_RESEND_AFTER_SECONDS,
+        attemptsRemaining: OTP_MAX_ATTEMPTS,
+      },
+    };
+  }
+
+  /**
+   * Handles `POST mfa/otp/verify`, completing the OTP factor that was requested.
+   */
+  private mfaOtpVerify(request: MockRequest): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    if (!session.otpFactor || !session.otpAttempts) {
+      return errorResponse(400, "bad_request", "No OTP has been requested");
+    }
+
+    if (request.body?.otp !== session.otp) {
+      session.otpAttempts--;
+      if (!session.otpAttempts) {
+        session.otp = undefined;
+      }
+
+      const response = errorResponse(400, "invalid_otp", "Invalid OTP code");
+      return {
+        ...response,
+        body: { ...response.body, attemptsRemaining: session.otpAttempts },
+      };
+    }
+
+    return this.completeMfaStep(session, user, session.otpFactor);
+  }
+
+  /**
+   * Handles `POST mfa/passkey/auth` and `POST mfa/passkey/tx`.
+   */
+  private mfaPasskeyAuth(
+    request: MockRequest,
+    factor: "passkey:auth" | "passkey:tx",
+  ): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    const credentialId = request.body?.assertionResult?.credentialId;
+    if (!this.findPasskey(credentialId, user.username)) {
+      return errorResponse(401, "unauthorized", "Unknown credential");
+    }
+
+    return this.completeMfaStep(session, user, factor);
+  }
+
+  /**
+   * Handles `POST mfa/passkey/reg`, registering the created credential.
+   */
+  private mfaPasskeyReg(request: MockRequest): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    const credentialId = request.body?.creationResult?.credentialId;
+    if (!credentialId) {
+      return errorResponse(400, "bad_request", "Creation result is required");
+    }
+
+    if (!this.isFactorAllowed(session, "passkey:reg")) {
+      return errorResponse(
+        400,
+        "bad_request",
+        "Factor passkey:reg is not allowed",
+      );
+    }
+
+    this.addPasskey(user, credentialId);
+    return this.completeMfaStep(session, user, "passkey:reg");
+  }
+
+  /**
+   * Handles `POST mfa/third-party/verify`, accepting any token.
+   */
+  private mfaThirdPartyVerify(request: MockRequest): MockResponse {
+    const { session, user, error } = this.getMfaSession(request);
+    if (error) {
+      return error;
+    }
+
+    if (!request.body?.token) {
+      return errorResponse(400, "bad_request", "Token is required");
+    }
+
+    return this.completeMfaStep(session, user, "external");
+  }
+
+  /**
+   * Handles `GET mfa/status`, answering immediately instead of waiting for the session to change.
+   * Responds with the outcome of the completed step, or with `204` while the session is pending.
+   */
+  private mfaStatus(request: MockRequest): MockResponse {
+    const id = this.getAuthorization(request);
+    const outcome = id && this.outcomes.get(id);
+    if (outcome) {
+      return outcome;
+    }
+
+    const session = id ? this.sessions.get(id) : undefined;
+    if (session?.type === "mfa" && !this.isExpired(session)) {
+      return { status: 204 };
+    }
+
+    return errorResponse(401, "session_expired", "Session has expired");
+  }
+
+  /**
+   * Handles `POST mfa/token/refresh`.
+   */
+  private mfaTokenRefresh({ body }: MockRequest): MockResponse {
+    const username = this.refreshTokens.get(body?.refreshToken);
+    const user = username && this.users.get(username);
+    if (!user) {
+      return errorResponse(401, "unauthorized", "Invalid refresh token");
+    }
+
+    this.refreshTokens.delete(body.refreshToken);
+    return { status: 200, body: this.issueMfaTokens(user, "signIn") };
+  }
+
+  /**
+   * Looks up the MFA session from the `Authorization` header.
+   *
+   * @param {MockRequest} request The request.
+   * @returns The session and its user, or an error response.
+   */
+  private getMfaSession(
+    request: MockRequest,
+  ):
+    | { session: MockSession; user: MockUser; error?: undefined }
+    | { session?: undefined; user?: undefined; error: MockResponse } {
+    const id = this.getAuthorization(request);
+    const session = id ? this.sessions.get(id) : undefined;
+    const user = session?.username && this.users.get(session.username);
+
+    if (session?.type !== "mfa" || !user || this.isExpired(session)) {
+      return {
+        error: errorResponse(401, "session_expired", "Session has expired"),
+      };
+    }
+
+    return { session, user };
+  }
+
+  /**
+   * Completes the current step of an MFA flow. Responds with the next `MfaNext` as a `401` while
+   * steps remain, and with the token set once the flow is complete.
+   *
+   * @param {MockSession} session The MFA session.
+   * @param {MockUser} user The user.
+   * @param {MockFactorName} factor The factor that was completed.
+   * @returns {MockResponse} The response.
+   */
+  private completeMfaStep(
+    session: MockSession,
+    user: MockUser,
+    factor: MockFactorName,
+  ): MockResponse {
+    const steps = session.steps!;
+    const step = session.step!;
+
+    if (!this.isFactorAllowed(session, factor)) {
+      return errorResponse(
+        400,
+        "bad_request",
+        `Factor ${factor} is not allowed`,
+      );
+    }
+
+    this.sessions.delete(session.id);
+    session.amr = [...(session.amr || []), factor.split(":")[0]];
+
+    let response: MockResponse;
+    if (step + 1 < steps.length) {
+      const next = this.createSession({
+        ...session,
+        challenge: undefined,
+        step: step + 1,
+        otpFactor: undefined,
+        otp: undefined,
+        otpAttempts: undefined,
+      });
+
+      response = {
+        status: 401,
+        body: {
+          ...this.toMfaNext(next, user),
+          msgCode: "additional_auth_required",
+          msg: "Additional authentication is required",
+        },
+      };
+    } else {
+      response = {
+        status: 200,
+        body: this.issueMfaTokens(user, session.flow!, session),
+      };
+    }
+
+    this.outcomes.set(session.id, response);
+    return response;
+  }
+
+  /**
+   * Checks whether a session has outlived its expiry.
+   *
+   * @param {MockSession} session The session.
+   * @returns {boolean} True if the session has expired.
+   */
+  private isExpired(session: MockSession): boolean {
+    return !!session.expiresAt && session.expiresAt <= Date.now();
+  }
+
+  /**
+   * Checks whether a factor may complete the current step of an MFA flow.
+   *
+   * @param {MockSession} session The MFA session.
+   * @param {MockFactorName} factor The factor.
+   * @returns {boolean} True if the factor is part of the current step.
+   */
+  private isFactorAllowed(
+    session: MockSession,
+    factor: MockFactorName,
+  ): boolean {
+    return !!session.steps?.[session.step!]?.includes(factor);
+  }
+
+  /**
+   * Builds the `MfaNext` describing the current step of an MFA flow.
+   *
+   * @param {MockSession} session The MFA session.
+   * @param {MockUser} user The user.
+   * @returns {MfaNext} The next actions.
+   */
+  private toMfaNext(session: MockSession, user: MockUser): MfaNext {
+    const actions: MfaAction[] = session.steps![session.step!].map((name) => {
+      switch (name) {
+        case "passkey:reg":
+          return {
+            action: { name, label: "Create a passkey" },
+            options: [
+              { value: encodeJson(this.toCreationOptions(session, user)) },
+            ],
+          };
+
+        case "passkey:auth":
+        case "passkey:tx":
+          return {
+            action: { name, label: "Sign in with a passkey" },
+            options: [
+              { value: encodeJson(this.toRequestOptions(session, user)) },
+            ],
+          };
+
+        case "otp:email": {
+          const email =
+            user.email || (user.username.includes("@") ? user.username : "");
+          return {
+            action: { name, label: "Email a code" },
+            options: email
+              ? [{ name: "email:primary", label: email, value: email }]
+              : [],
+          };
+        }
+
+        case "otp:sms":
+          return {
+            action: { name, label: "Text a code" },
+            options: user.phone
+              ? [
+                  {
+                    name: "phone:primary",
+                    label: user.phone,
+                    value: user.phone,
+                  },
+                ]
+              : [],
+          };
+
+        case "external":
+          return { action: { name, label: "Continue with external provider" } };
+      }
+    });
+
+    return {
+      flow: session.flow,
+      msg: "",
+      msgCode: "",
+      next: actions,
+      session: session.id,
+    };
+  }
+
+  /**
+   * Builds WebAuthn request options for the user's passkeys.
+   *
+   * @param {MockSession} session The session holding the challenge.
+   * @param {MockUser} [user] The user, if known.
+   * @returns {PublicKeyCredentialRequestOptions} The request options.
+   */
+  private toRequestOptions(
+    session: MockSession,
+    user?: MockUser,
+  ): PublicKeyCredentialRequestOptions {
+    return {
+      allowCredentials: (user?.passkeys || []).map((passkey) => ({
+        id: passkey.credentialId,
+        type: "public-key",
+      })),
+      challenge: session.challenge,
+      rpId: this.rpId,
+      timeout: 60000,
+      userVerification: "preferred",
+    };
+  }
+
+  /**
+   * Builds WebAuthn creation options for a new passkey of the user.
+   *
+   * @param {MockSession} session The session holding the challenge.
+   * @param {MockUser} user The user.
+   * @returns {PublicKeyCredentialCreationOptions} The creation options.
+   */
+  private toCreationOptions(
+    session: MockSession,
+    user: MockUser,
+  ): PublicKeyCredentialCreationOptions {
+    return {
+      attestation: "none",
+      authenticatorSelection: {
+        residentKey: "required",
+        requireResidentKey: true,
+        userVerification: "preferred",
+      },
+      challenge: session.challenge,
+      excludeCredentials: user.passkeys.map((passkey) => ({
+        id: passkey.credentialId,
+        type: "public-key",
+      })),
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      rp: { id: this.rpId, name: "LoginID Mock" },
+      timeout: 60000,
+      user: {
+        id: user.id,
+        name: user.username,
+        displayName: user.displayName || user.username,
+      },
+    };
+  }
+
+  /**
+   * Stores a session with a fresh ID and challenge.
+   *
+   * @param {Omit<MockSession, "id" | "challenge">} state The session state.
+   * @returns {MockSession} The stored session.
+   */
+  private createSession(
+    state: Omit<MockSession, "id" | "challenge"> & { challenge?: undefined },
+  ): MockSession {
+    const session: MockSession = {
+      ...state,
+      id: randomBase64Url(24),
+      challenge: randomBase64Url(32),
+    };
+
+    // MFA sessions are unsigned JWTs so clients can read their expiry
+    if (session.type === "mfa") {
+      const exp = Math.floor(Date.now() / 1000) + MFA_SESSION_TTL_SECONDS;
+      session.id = [
+        encodeJson({ alg: "none", typ: "JWT" }),
+        encodeJson({ jti: session.id, exp }),
+        "",
+      ].join(".");
+      session.expiresAt = exp * 1000;
+    }
+
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Resolves the user of the token in the `Authorization` header.
+   *
+   * @param {MockRequest} request The request.
+   * @returns {MockUser | undefined} The user, if the token is valid.
+   */
+  private authorize(request: MockRequest): MockUser | undefined {
+    const token = this.getAuthorization(request);
+    const username = token ? this.tokens.get(token) : undefined;
+    return username ? this.users.get(username) : undefined;
+  }
+
+  /**
+   * Reads the `Authorization` header, with or without the `Bearer` prefix.
+   *
+   * @param {MockRequest} request The request.
+   * @returns {string | undefined} The credential.
+   */
+  private getAuthorization(request: MockRequest): string | undefined {
+    return request.headers.authorization?.replace(/^Bearer\s+/i, "");
+  }
+
+  /**
+   * Finds a registered passkey by credential ID.
+   *
+   * @param {string} credentialId The credential ID.
+   * @param {string} [username] Restricts the search to this user.
+   * @returns The passkey and its user, if found.
+   */
+  private findPasskey(
+    credentialId: string | undefined,
+    username?: string,
+  ): { user: MockUser; passkey: MockPasskey } | undefined {
+    for (const user of this.users.values()) {
+      if (username && user.username !== username) {
+        continue;
+      }
+
+      const passkey = user.passkeys.find(
+        (passkey) => passkey.credentialId === credentialId,
+      );
+      if (passkey) {
+        passkey.lastUsedAt = new Date().toISOString();
+        return { user, passkey };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Registers a passkey for a user.
+   *
+   * @param {MockUser} user The user.
+   * @param {string} credentialId The credential ID.
+   * @param {string} [name] The passkey name.
+   * @returns {MockPasskey} The passkey.
+   */
+  private addPasskey(
+    user: MockUser,
+    credentialId: string,
+    name?: string,
+  ): MockPasskey {
+    const passkey: MockPasskey = {
+      id: randomId(),
+      aaguid: MOCK_AAGUID,
+      createdAt: new Date().toISOString(),
+      credentialId,
+      credentialSynced: false,
+      name: name || `Passkey ${user.passkeys.length + 1}`,
+      providerName: "Mock Authenticator",
+    };
+    user.passkeys.push(passkey);
+    return passkey;
+  }
+
+  /**
+   * Converts a stored passkey to the shape returned by the API.
+   *
+   * @param {MockPasskey} passkey The stored passkey.
+   * @param {MockUser} user The owner of the passkey.
+   * @returns {Passkey} The passkey as returned by the API.
+   */
+  private toPasskey(passkey: MockPasskey, user: MockUser): Passkey {
+    return { ...passkey, userHandle: user.id };
+  }
+
+  /**
+   * Sends a one-time password to a user.
+   *
+   * @param {MockUser} user The user.
+   * @returns {string} The code.
+   */
+  private sendOtp(user: MockUser): string {
+    const code =
+      this.getScenario(user).otpCode ||
+      String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(
+        6,
+        "0",
+      );
+    this.otps.set(user.username, code);
+    return code;
+  }
+
+  /**
+   * Merges the scenario of a user into the global scenario.
+   *
+   * @param {MockUser} [user] The user.
+   * @returns {MockScenario} The effective scenario.
+   */
+  private getScenario(user?: MockUser): MockScenario {
+    return { ...this.scenario, ...user?.scenario };
+  }
+
+  /**
+   * Issues an unsigned JWT for a user and records it as an access token.
+   *
+   * @param {MockUser} user The user.
+   * @param {Record<string, any>} [claims={}] Additional claims.
+   * @returns {string} The token.
+   */
+  private issueToken(user: MockUser, claims: Record<string, any> = {}): string {
+    const now = Math.floor(Date.now() / 1000);
+    const token = [
+      encodeJson({ alg: "none", typ: "JWT" }),
+      encodeJson({
+        jti: randomId(),
+        sub: user.id,
+        username: user.username,
+        iat: now,
+        exp: now + TOKEN_TTL_SECONDS,
+        ...claims,
+      }),
+      "",
+    ].join(".");
+
+    this.tokens.set(token, user.username);
+    return token;
+  }
+
+  /**
+   * Issues the response of a passkey or OTP sign-in.
+   *
+   * @param {MockUser} user The user.
+   * @param {MockPasskey} [passkey] The passkey used.
+   * @param {string} [deviceId] The device ID sent by the client.
+   * @returns The JWT response.
+   */
+  private issueJwt(user: MockUser, passkey?: MockPasskey, deviceId?: string) {
+    return {
+      deviceId: deviceId || randomId(),
+      jwtAccess: this.issueToken(user, { amr: [passkey ? "passkey" : "otp"] }),
+      passkeyId: passkey?.id,
+      userId: user.id,
+    };
+  }
+
+  /**
+   * Issues the token set of a completed MFA flow.
+   *
+   * @param {MockUser} user The user.
+   * @param {Mfa["flow"]} flow The MFA flow.
+   * @param {MockSession} [session] The completed session.
+   * @returns {Mfa} The token set.
+   */
+  private issueMfaTokens(
+    user: MockUser,
+    flow: Mfa["flow"],
+    session?: MockSession,
+  ): Mfa {
+    const deviceId = session?.deviceId || randomId();
+    const payload = session?.txPayload || "";
+    const refreshToken = randomBase64Url(32);
+
+    this.refreshTokens.set(refreshToken, user.username);
+
+    const claims = {
+      deviceId,
+      ...(session?.stepUp && {
+        auth_time: Math.floor(Date.now() / 1000),
+        amr: [...new Set(session.amr)],
+        acr: "step-up",
+      }),
+    };
+
+    return {
+      accessToken: this.issueToken(user, claims),
+      deviceId,
+      flow,
+      idToken: this.issueToken(user, claims),
+      payload,
+      payloadSignature: this.issueToken(user, { payload }),
+      refreshToken,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+// Copyright (C) LoginID
+
+/**
+ * A value the CBOR encoder supports. Maps with integer keys, such as COSE keys, use `Map`.
+ */
+export type CborValue =
+  | number
+  | string
+  | Uint8Array
+  | CborValue[]
+  | Map<number | string, CborValue>
+  | { [key: string]: CborValue };
+
+/**
+ * Encodes the head of a CBOR data item.
+ *
+ * @param {number} majorType The major type, from 0 to 7.
+ * @param {number} length The argument, such as the length or the integer value.
+ * @returns {number[]} The encoded head.
+ */
+const encodeHead = (majorType: number, length: number): number[] => {
+  const type = majorType << 5;
+
+  if (length < 24) {
+    return [type | length];
+  }
+  if (length < 0x100) {
+    return [type | 24, length];
+  }
+  if (length < 0x10000) {
+    return [type | 25, length >> 8, length & 0xff];
+  }
+  return [
+    type | 26,
+    (length >>> 24) & 0xff,
+    (length >> 16) & 0xff,
+    (length >> 8) & 0xff,
+    length & 0xff,
+  ];
+};
+
+/**
+ * Encodes a string as UTF-8. Avoids `TextEncoder`, which jsdom does not provide.
+ *
+ * @param {string} value The string.
+ * @returns {Uint8Array} The UTF-8 bytes.
+ */
+export const encodeUtf8 = (value: string): Uint8Array => {
+  const binary = encodeURIComponent(value).replace(
+    /%([0-9A-F]{2})/g,
+    (_, hex: string) => String.fromCharCode(parseInt(hex, 16)),
+  );
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Encodes a value as CBOR, supporting the subset of types used by WebAuthn attestation objects
+ * and COSE keys: integers, text and byte strings, arrays and maps.
+ *
+ * @param {CborValue} value The value to encode.
+ * @returns {Uint8Array} The encoded value.
+ */
+export const encodeCbor = (value: CborValue): Uint8Array => {
+  const bytes: number[] = [];
+
+  const encode = (item: CborValue) => {
+    if (typeof item === "number") {
+      if (!Number.isInteger(item)) {
+        throw new TypeError("Only integers can be encoded");
+      }
+      bytes.push(
+        ...(item >= 0 ? encodeHead(0, item) : encodeHead(1, -1 - item)),
+      );
+    } else if (typeof item === "string") {
+      const utf8 = encodeUtf8(item);
+      bytes.push(...encodeHead(3, utf8.length), ...utf8);
+    } else if (item instanceof Uint8Array) {
+      bytes.push(...encodeHead(2, item.length), ...item);
+    } else if (Array.isArray(item)) {
+      bytes.push(...encodeHead(4, item.length));
+      item.forEach(encode);
+    } else {
+      const entries =
+        item instanceof Map ? Array.from(item.entries()) : Object.entries(item);
+      bytes.push(...encodeHead(5, entries.length));
+      for (const [key, entry] of entries) {
+        encode(key);
+        encode(entry);
+      }
+    }
+  };
+
+  encode(value);
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,38 @@
+// Copyright (C) LoginID
+
+import { MockLoginIDBackend } from "./backend";
+import { LoginIDService } from "../api";
+
+describe("MockHttpRequest", () => {
+  const backend = new MockLoginIDBackend();
+  const service = new LoginIDService(
+    { BASE: "https://app-1.mock.loginid.io" },
+    backend.httpRequest,
+  );
+
+  beforeEach(() => {
+    backend.reset();
+  });
+
+  it("passes the query parameters to the backend", async () => {
+    await service.mfa
+      .mfaMfaStatus({ authorization: "unknown", wait: 30 })
+      .catch(() => undefined);
+
+    expect(backend.requests.at(-1)).toMatchObject({
+      method: "GET",
+      path: "/fido2/v2/mfa/status",
+      query: { wait: "30" },
+    });
+  });
+
+  it("throws typed API errors", async () => {
+    await expect(
+      service.mfa.mfaMfaStatus({ authorization: "unknown" }),
+    ).rejects.toMatchObject({
+      name: "SessionExpiredError",
+      code: "session_expired",
+      status: 401,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// Copyright (C) LoginID
+
+import { CancelablePromise } from "../api/core/CancelablePromise";
+import { ApiRequestOptions } from "../api/core/ApiRequestOptions";
+import { BaseHttpRequest } from "../api/core/BaseHttpRequest";
+import { catchErrorCodes } from "../api/core/request";
+import { OpenAPIConfig } from "../api/core/OpenAPI";
+import type { MockLoginIDBackend } from "./backend";
+import { ApiResult } from "../api/core/ApiResult";
+import { HttpRequestConstructor } from "../types";
+import { ApiError } from "../api/core/ApiError";
+import { toLoginIDApiError } from "../errors";
+
+/**
+ * HTTP client for `LoginIDService` that sends every request to an in-memory mock backend.
+ */
+export class MockHttpRequest extends BaseHttpRequest {
+  /**
+   * The backend handling the requests.
+   */
+  private readonly backend: MockLoginIDBackend;
+
+  /**
+   * Initializes a new instance of MockHttpRequest.
+   *
+   * @param {OpenAPIConfig} config The OpenAPI configuration object.
+   * @param {MockLoginIDBackend} backend The backend handling the requests.
+   */
+  constructor(config: OpenAPIConfig, backend: MockLoginIDBackend) {
+    super(config);
+    this.backend = backend;
+  }
+
+  /**
+   * Sends a request to the mock backend. Errors are thrown as the same typed API errors as
+   * `LoginIDHttpRequest` throws.
+   *
+   * @param {ApiRequestOptions} options The request options from the service.
+   * @returns {CancelablePromise<T>}
+   * @throws {LoginIDApiError} If the backend responds with an error.
+   */
+  public override request<T>(options: ApiRequestOptions): CancelablePromise<T> {
+    return new CancelablePromise((resolve, reject) => {
+      const path = options.url.replace(/{(.*?)}/g, (substring, group) =>
+        options.path && group in options.path
+          ? encodeURIComponent(String(options.path[group]))
+          : substring,
+      );
+
+      const query: Record<string, string> = {};
+      for (const [name, value] of Object.entries(options.query || {})) {
+        if (value !== undefined && value !== null) {
+          query[name] = String(value);
+        }
+      }
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(options.headers || {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = String(value);
+        }
+      }
+
+      // Round-trip the body through JSON so the backend never shares objects with the caller
+      const body =
+        options.body === undefined
+          ? undefined
+          : JSON.parse(JSON.stringify(options.body));
+
+      const response = this.backend.handle({
+        method: options.method,
+        path,
+        query,
+        headers,
+        body,
+      });
+
+      const result: ApiResult = {
+        url: `${this.config.BASE}${path}`,
+        ok: response.status >= 200 && response.status < 300,
+        status: response.status,
+        statusText: "",
+        body: response.body,
+      };
+
+      try {
+        catchErrorCodes(options, result);
+        resolve(result.body);
+      } catch (error) {
+        reject(error instanceof ApiError ? toLoginIDApiError(error) : error);
+      }
+    });
+  }
+}
+
+/**
+ * Creates the HTTP client constructor that routes `LoginIDService` requests to a mock backend.
+ *
+ * @param {MockLoginIDBackend} backend The backend handling the requests.
+ * @returns {HttpRequestConstructor} The HTTP client constructor.
+ */
+export const createMockHttpRequest = (
+  backend: MockLoginIDBackend,
+): HttpRequestConstructor => {
+  return class extends MockHttpRequest {
+    constructor(config: OpenAPIConfig) {
+      super(config, backend);
+    }
+  };
+};
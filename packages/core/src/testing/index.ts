@@ -0,0 +1,39 @@
+// Copyright (C) LoginID
+
+// Dev-only: left out of the published build. The jest and TypeScript configs of the SDK packages
+// resolve `@loginid/core/testing` to this directory.
+
+import {
+  MockBackendOptions,
+  MockFactorName,
+  MockPasskey,
+  MockRequest,
+  MockResponse,
+  MockScenario,
+  MockServer,
+  MockServerOptions,
+  MockUser,
+  MockUserOptions,
+  VirtualAuthenticatorOptions,
+  VirtualCredential,
+} from "./types";
+
+export type {
+  MockBackendOptions,
+  MockFactorName,
+  MockPasskey,
+  MockRequest,
+  MockResponse,
+  MockScenario,
+  MockServer,
+  MockServerOptions,
+  MockUser,
+  MockUserOptions,
+  VirtualAuthenticatorOptions,
+  VirtualCredential,
+};
+
+export * from "./authenticator";
+export * from "./backend";
+export * from "./http-request";
+export * from "./server";
@@ -0,0 +1,113 @@
+// Copyright (C) LoginID
+
+import { MockServer, MockServerOptions } from "./types";
+import type { MockLoginIDBackend } from "./backend";
+
+/**
+ * Headers allowing browsers on any origin to call the mock server.
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, User-Agent",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+};
+
+/**
+ * Serves a mock backend over HTTP, for example to point a development build or an end-to-end
+ * test at it. Requires Node.js.
+ *
+ * @param {MockLoginIDBackend} backend The backend handling the requests.
+ * @param {MockServerOptions} [options={}] The port and host name to listen on.
+ * @returns {Promise<MockServer>} The running server.
+ * @example
+ * ```javascript
+ * import { MockLoginIDBackend, startMockServer } from "@loginid/core/testing";
+ *
+ * const server = await startMockServer(new MockLoginIDBackend(), { port: 4010 });
+ * console.log(`Mock LoginID API listening on ${server.url}`);
+ *
+ * // ...
+ *
+ * await server.close();
+ * ```
+ */
+export const startMockServer = async (
+  backend: MockLoginIDBackend,
+  options: MockServerOptions = {},
+): Promise<MockServer> => {
+  const { createServer } = await import("node:http");
+  const hostname = options.hostname || "127.0.0.1";
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+      }
+
+      let body: any;
+      try {
+        const text = Buffer.concat(chunks).toString("utf8");
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        res.writeHead(400, {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({ msgCode: "bad_request", msg: "Invalid JSON" }),
+        );
+        return;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+          headers[name] = Array.isArray(value) ? value.join(", ") : value;
+        }
+      }
+
+      const url = new URL(req.url || "/", `http://${hostname}`);
+      const response = backend.handle({
+        method: req.method || "GET",
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers,
+        body,
+      });
+
+      if (response.body === undefined) {
+        res.writeHead(response.status, CORS_HEADERS);
+        res.end();
+        return;
+      }
+
+      res.writeHead(response.status, {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port || 0, hostname, () => resolve());
+  });
+
+  const address = server.address();
+  const port =
+    typeof address === "object" && address ? address.port : options.port;
+
+  return {
+    url: `http://${hostname}:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+};
@@ -0,0 +1,282 @@
+// Copyright (C) LoginID
+
+import { AuthInit, MfaAction, Passkey, RegInit } from "../api";
+
+/**
+ * The name of an MFA factor the mock backend can ask for.
+ */
+export type MockFactorName = Exclude<MfaAction["action"]["name"], "otp:verify">;
+
+/**
+ * Scripted behaviour of the mock backend. Set globally with `setScenario()` or per user.
+ */
+export interface MockScenario {
+  /**
+   * The action returned by `auth/init`. Defaults to **`proceed`** if the user has a passkey and
+   * **`crossAuth`** otherwise.
+   */
+  authAction?: AuthInit["action"];
+
+  /**
+   * The cross-authentication methods returned by `auth/init` with the **`crossAuth`** action.
+   * Defaults to **`["otp:email"]`**.
+   */
+  crossAuthMethods?: AuthInit["crossAuthMethods"];
+
+  /**
+   * The fallback methods returned by `auth/init` with the **`fallback`** action.
+   * Defaults to **`["ciam"]`**.
+   */
+  fallbackMethods?: AuthInit["fallbackMethods"];
+
+  /**
+   * The action returned by `reg/init`. Defaults to **`proceed`**.
+   */
+  regAction?: RegInit["action"];
+
+  /**
+   * The factors an MFA flow requires, one entry per step. Each step lists the factors that may
+   * complete it. Every step except the last answers with a `401` carrying the next `MfaNext`.
+   * Defaults to a single step of **`passkey:auth`** (or **`passkey:tx`** with a transaction
+   * payload) and **`otp:email`** for users with passkeys, and **`passkey:reg`** and **`otp:email`**
+   * for everyone else.
+   */
+  mfaSteps?: MockFactorName[][];
+
+  /**
+   * The one-time password sent by the OTP endpoints. A random six-digit code is used if omitted.
+   */
+  otpCode?: string;
+}
+
+/**
+ * A passkey stored by the mock backend.
+ */
+export interface MockPasskey extends Passkey {
+  /**
+   * The base64url-encoded WebAuthn credential ID.
+   */
+  credentialId: string;
+}
+
+/**
+ * A user stored by the mock backend.
+ */
+export interface MockUser {
+  /**
+   * The base64url-encoded WebAuthn user handle.
+   */
+  id: string;
+
+  /**
+   * The username.
+   */
+  username: string;
+
+  /**
+   * The display name.
+   */
+  displayName?: string;
+
+  /**
+   * The email address OTPs are sent to. Defaults to the username if it is an email address.
+   */
+  email?: string;
+
+  /**
+   * The phone number OTPs are sent to.
+   */
+  phone?: string;
+
+  /**
+   * The registered passkeys.
+   */
+  passkeys: MockPasskey[];
+
+  /**
+   * Scripted behaviour for this user, overriding the global scenario.
+   */
+  scenario?: MockScenario;
+}
+
+/**
+ * Options for seeding a user into the mock backend.
+ */
+export interface MockUserOptions extends Omit<MockUser, "id" | "passkeys"> {
+  /**
+   * Credential IDs of passkeys the user has already registered.
+   */
+  credentialIds?: string[];
+}
+
+/**
+ * Options for the mock backend.
+ */
+export interface MockBackendOptions {
+  /**
+   * The relying party ID of issued WebAuthn options. Defaults to **`localhost`**.
+   */
+  rpId?: string;
+
+  /**
+   * The global scenario.
+   */
+  scenario?: MockScenario;
+}
+
+/**
+ * A request received by the mock backend.
+ */
+export interface MockRequest {
+  /**
+   * The HTTP method.
+   */
+  method: string;
+
+  /**
+   * The request path, for example `/fido2/v2/auth/init`.
+   */
+  path: string;
+
+  /**
+   * The query parameters, for example `{ wait: "30" }`.
+   */
+  query: Record<string, string>;
+
+  /**
+   * The request headers with lower-case names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * The parsed JSON body.
+   */
+  body?: any;
+}
+
+/**
+ * A response of the mock backend.
+ */
+export interface MockResponse {
+  /**
+   * The HTTP status.
+   */
+  status: number;
+
+  /**
+   * The JSON body.
+   */
+  body?: any;
+}
+
+/**
+ * Options for the standalone mock server.
+ */
+export interface MockServerOptions {
+  /**
+   * The port to listen on. A free port is chosen if omitted.
+   */
+  port?: number;
+
+  /**
+   * The host name to listen on. Defaults to **`127.0.0.1`**.
+   */
+  hostname?: string;
+}
+
+/**
+ * A running standalone mock server.
+ */
+export interface MockServer {
+  /**
+   * The base URL to configure the SDK with.
+   */
+  url: string;
+
+  /**
+   * Stops the server.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Options for the virtual authenticator.
+ */
+export interface VirtualAuthenticatorOptions {
+  /**
+   * The attestation statement format of new credentials. **`packed`** produces a self attestation
+   * signed with the credential key. Defaults to **`none`**.
+   */
+  attestation?: "none" | "packed";
+
+  /**
+   * The AAGUID of the authenticator. Defaults to all zeros.
+   */
+  aaguid?: string;
+
+  /**
+   * Whether the authenticator can store discoverable credentials. Defaults to true.
+   */
+  residentKeys?: boolean;
+
+  /**
+   * Whether the authenticator can verify the user. Defaults to true.
+   */
+  userVerification?: boolean;
+
+  /**
+   * The transports reported for new credentials. Defaults to **`["internal"]`**.
+   */
+  transports?: AuthenticatorTransport[];
+
+  /**
+   * The origin written to the client data. Defaults to the current page origin.
+   */
+  origin?: string;
+
+  /**
+   * The WebCrypto implementation used for keys and signatures. Defaults to the global `crypto`.
+   * Pass `require("node:crypto").webcrypto` in environments such as jsdom that lack `crypto.subtle`.
+   */
+  crypto?: Crypto;
+}
+
+/**
+ * A credential stored by the virtual authenticator.
+ */
+export interface VirtualCredential {
+  /**
+   * The base64url-encoded credential ID.
+   */
+  id: string;
+
+  /**
+   * The relying party ID the credential is scoped to.
+   */
+  rpId: string;
+
+  /**
+   * The base64url-encoded user handle.
+   */
+  userHandle: string;
+
+  /**
+   * The user name given at creation or by the last `signalCurrentUserDetails`.
+   */
+  userName: string;
+
+  /**
+   * The display name given at creation or by the last `signalCurrentUserDetails`.
+   */
+  displayName: string;
+
+  /**
+   * Whether the credential is discoverable (a resident key).
+   */
+  discoverable: boolean;
+
+  /**
+   * The signature counter, incremented on every assertion.
+   */
+  signCount: number;
+}
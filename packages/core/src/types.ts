@@ -1,23 +1,163 @@
 // Copyright (C) LoginID
 
-import { CreationResult } from "./api";
+import {
+  ApiErrorCode,
+  LoginIDErrorCode,
+  PasskeyErrorCode,
+  ValidationErrorCode,
+} from "./errors/types";
+import { BaseHttpRequest, CreationResult, Mfa, OpenAPIConfig } from "./api";
+import { ApiRequestOptions } from "./api/core/ApiRequestOptions";
 
 export type Transports = CreationResult["transports"];
 
 export interface GetNavigatorCredentialOptions {
   autoFill?: boolean;
   abortController?: AbortController;
+  extensions?: PasskeyExtensionInputs;
+  onExtensionResults?: (results: PasskeyExtensionResults) => void;
+  locale?: LocaleOptions;
 }
 
 export interface GetPasskeyCredentialOptions {
   autoFill?: boolean;
   abortController?: AbortController;
+  extensions?: PasskeyExtensionInputs;
+  locale?: LocaleOptions;
+}
+
+export interface CreateNavigatorCredentialOptions {
+  conditional?: boolean;
+  abortController?: AbortController;
+  extensions?: PasskeyExtensionInputs;
+  onExtensionResults?: (results: PasskeyExtensionResults) => void;
+  locale?: LocaleOptions;
+}
+
+export interface CreatePasskeyCredentialOptions {
+  conditional?: boolean;
+  abortController?: AbortController;
+  extensions?: PasskeyExtensionInputs;
+  locale?: LocaleOptions;
+}
+
+/**
+ * Inputs for the WebAuthn extensions supported by the SDK. They are merged with the extensions
+ * requested by LoginID.
+ */
+export interface PasskeyExtensionInputs {
+  /**
+   * The `prf` extension, which derives secrets from the passkey and the given salts, for example to
+   * encrypt user data end to end. On creation, it also reports whether the passkey supports PRF.
+   */
+  prf?: AuthenticationExtensionsPRFInputs;
+
+  /**
+   * The `largeBlob` extension. On creation, request blob storage with `support`. On authentication,
+   * `read` the stored blob or `write` a new one.
+   */
+  largeBlob?: {
+    support?: "required" | "preferred";
+    read?: boolean;
+    write?: BufferSource;
+  };
+
+  /**
+   * The `credProps` extension, which reports on creation whether the passkey is discoverable.
+   */
+  credProps?: boolean;
+}
+
+/**
+ * The client extension results of a passkey ceremony.
+ */
+export interface PasskeyExtensionResults {
+  /**
+   * Whether the passkey supports PRF and, if evaluated, the derived secrets.
+   */
+  prf?: AuthenticationExtensionsPRFOutputs;
+
+  /**
+   * Whether the passkey supports large blobs, the blob that was read or whether a blob was written.
+   */
+  largeBlob?: {
+    supported?: boolean;
+    blob?: ArrayBuffer;
+    written?: boolean;
+  };
+
+  /**
+   * Whether the passkey is discoverable.
+   */
+  credProps?: {
+    rk?: boolean;
+  };
 }
 
 export interface AuthzTokenOptions {
   authzToken?: string;
 }
 
+/**
+ * The decoded payload of a JWT.
+ */
+export type JwtClaims = Record<string, any>;
+
+/**
+ * Options controlling how tokens are verified against the application's JWKS.
+ */
+export interface TokenVerificationOptions {
+  /**
+   * URL of the JSON Web Key Set used to verify token signatures.
+   * Defaults to **`{baseUrl}/fido2/v2/.well-known/jwks.json`**.
+   */
+  jwksUrl?: string;
+
+  /**
+   * The expected `iss` claim. Defaults to the base URL.
+   */
+  issuer?: string;
+
+  /**
+   * The expected `aud` claim. A token is accepted if its audience contains any of the given values.
+   * Defaults to the application ID.
+   */
+  audience?: string | string[];
+
+  /**
+   * Clock skew tolerated when checking the `exp` and `nbf` claims, in seconds. Defaults to 60.
+   */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Options for creating a standalone JWT verifier, for example on a backend.
+ */
+export interface JwtVerifierOptions extends TokenVerificationOptions {
+  /**
+   * The base URL for LoginID FIDO service, used to derive the default JWKS URL and issuer.
+   */
+  baseUrl: string;
+
+  /**
+   * The application ID, the default expected audience. If omitted, it is taken from the base URL.
+   */
+  appId?: string;
+}
+
+/**
+ * Per-call options for `verifyToken()`.
+ */
+export interface VerifyTokenOptions extends Pick<
+  TokenVerificationOptions,
+  "issuer" | "audience"
+> {
+  /**
+   * The payload of a detached JWS, such as the MFA `payload` signed by `payloadSignature`.
+   */
+  payload?: string;
+}
+
 /**
  * General information about the current user session. Information is obtained from the stored authorization token.
  */
@@ -31,6 +171,58 @@ export interface SessionInfo {
    * Current authenticated user's ID.
    */
   id: string;
+
+  /**
+   * When the session token was issued, if the token carries an `iat` claim.
+   */
+  issuedAt?: Date;
+
+  /**
+   * When the session token expires, if the token carries an `exp` claim.
+   */
+  expiresAt?: Date;
+
+  /**
+   * When the user last authenticated, taken from the most recent `auth_time` claim of the stored
+   * tokens. Missing if no token carries one. A completed `stepUp` moves it forward.
+   */
+  authenticatedAt?: Date;
+
+  /**
+   * The MFA flow type that created the session, if the session was obtained through an MFA flow.
+   */
+  flow?: Mfa["flow"];
+
+  /**
+   * The authentication factors used to create the session (e.g. `passkey`, `otp`, `external`).
+   * Taken from the `amr` claim when present, otherwise from the factors completed in the MFA flow.
+   */
+  factors: string[];
+
+  /**
+   * The ID of the device the session was created on, if known.
+   */
+  deviceId?: string;
+
+  /**
+   * The raw claims of each stored session token.
+   */
+  claims: {
+    authzToken?: JwtClaims;
+    accessToken?: JwtClaims;
+    idToken?: JwtClaims;
+  };
+
+  /**
+   * Returns the number of seconds until the session token expires, `0` if it has already expired
+   * or `Infinity` if the token has no expiry.
+   */
+  expiresIn(): number;
+
+  /**
+   * Returns true if the session token has expired.
+   */
+  isExpired(): boolean;
 }
 
 /**
@@ -113,3 +305,290 @@ export interface LoginIDTokenSet {
    */
   payloadSignature?: string;
 }
+
+/**
+ * The type of a token stored in the token set.
+ */
+export type TokenType = keyof LoginIDTokenSet;
+
+/**
+ * The built-in token storage backends.
+ *
+ * - `cookie`: Stores tokens in `document.cookie` (default in browsers).
+ * - `localStorage`: Stores tokens in `window.localStorage`.
+ * - `sessionStorage`: Stores tokens in `window.sessionStorage`.
+ * - `memory`: Keeps tokens in memory for the lifetime of the page (default where `document` is unavailable).
+ */
+export type TokenStorageType =
+  "cookie" | "localStorage" | "sessionStorage" | "memory";
+
+/**
+ * A storage backend used by the SDK to persist session tokens.
+ * Implement this interface to store tokens in a custom location.
+ */
+export interface TokenStorage {
+  /**
+   * Retrieves a stored value.
+   *
+   * @param {string} name The name of the stored value.
+   * @returns {string | null | undefined} The stored value, or `null`/`undefined` if missing or expired.
+   */
+  getItem(name: string): string | null | undefined;
+
+  /**
+   * Stores a value.
+   *
+   * @param {string} name The name of the value.
+   * @param {string} value The value to store.
+   * @param {Date} [expiresAt] When the value expires. Expired values must no longer be returned.
+   */
+  setItem(name: string, value: string, expiresAt?: Date): void;
+
+  /**
+   * Removes a stored value.
+   *
+   * @param {string} name The name of the value.
+   */
+  removeItem(name: string): void;
+}
+
+/**
+ * Attributes applied to cookies written by the cookie token storage.
+ */
+export interface CookieOptions {
+  /**
+   * The `Path` attribute of the cookie. Defaults to the path of the current page.
+   */
+  path?: string;
+
+  /**
+   * The `Domain` attribute of the cookie. Defaults to the current host.
+   */
+  domain?: string;
+
+  /**
+   * When true, sets the `Secure` attribute so the cookie is only sent over HTTPS.
+   */
+  secure?: boolean;
+
+  /**
+   * The `SameSite` attribute of the cookie.
+   */
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Retry policy for API requests that are safe to repeat, such as listing passkeys or submitting
+ * client events. One-shot requests like WebAuthn completions are never retried.
+ */
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one. Set to 1 to disable retries. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on every further retry. Defaults to 250.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds. A `Retry-After` response header
+   * asking for a longer wait stops retrying. Defaults to 5000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * If true, randomizes each delay between zero and the computed backoff. Defaults to true.
+   */
+  jitter?: boolean;
+
+  /**
+   * Response status codes that trigger a retry. Network errors are always retried.
+   * Defaults to **`[408, 429, 502, 503, 504]`**.
+   */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * A constructor for the HTTP client used by `LoginIDService`.
+ */
+export type HttpRequestConstructor = new (
+  config: OpenAPIConfig,
+) => BaseHttpRequest;
+
+/**
+ * A single attempt of an API request, passed to the HTTP middleware.
+ */
+export interface HttpRequestContext {
+  /**
+   * The request URL. Middleware may change it, for example to route requests through a proxy.
+   */
+  url: string;
+
+  /**
+   * The `fetch` options of the request. Middleware may add headers or change other options.
+   */
+  init: RequestInit & { headers: Headers };
+
+  /**
+   * The API operation being called, including its method and path template.
+   */
+  readonly options: ApiRequestOptions;
+
+  /**
+   * The number of the attempt, starting at 1. Greater than 1 when the request is retried.
+   */
+  readonly attempt: number;
+}
+
+/**
+ * Hooks invoked around every API request, in the order they are configured.
+ */
+export interface HttpMiddleware {
+  /**
+   * Invoked before each attempt is sent. Can modify the URL and `fetch` options in place.
+   */
+  onRequest?: (context: HttpRequestContext) => void | Promise<void>;
+
+  /**
+   * Invoked for each received response. Returning a `Response` replaces the received one.
+   */
+  onResponse?: (
+    response: Response,
+    context: HttpRequestContext,
+  ) => void | Response | Promise<void | Response>;
+
+  /**
+   * Invoked once when the request finally fails, for example with an `ApiError` or a `TimeoutError`.
+   */
+  onError?: (
+    error: unknown,
+    context: HttpRequestContext | undefined,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Payload of the `tokenExpired` session event.
+ */
+export interface TokenExpiredEvent {
+  /**
+   * The type of the expired token. `authzToken` refers to the token set by passkey and OTP flows.
+   */
+  tokenType: TokenType | "authzToken";
+
+  /**
+   * The time at which the token expired.
+   */
+  expiredAt: Date;
+}
+
+/**
+ * Session lifecycle events and their payloads.
+ */
+export interface SessionEventMap {
+  /**
+   * Emitted when a user signs in and new tokens are stored.
+   */
+  login: SessionInfo;
+
+  /**
+   * Emitted when the stored session is cleared.
+   */
+  logout: void;
+
+  /**
+   * Emitted when the token set is refreshed with the refresh token.
+   */
+  tokenRefreshed: LoginIDTokenSet;
+
+  /**
+   * Emitted when a stored token reaches its `exp` claim.
+   */
+  tokenExpired: TokenExpiredEvent;
+}
+
+/**
+ * The name of a session lifecycle event.
+ */
+export type SessionEventName = keyof SessionEventMap;
+
+/**
+ * A handler for a session lifecycle event.
+ */
+export type SessionEventHandler<E extends SessionEventName> = (
+  payload: SessionEventMap[E],
+) => void;
+
+/**
+ * A catalog key for a message that refines an error code, such as the creation and authentication
+ * messages of `ERROR_GENERAL_ERROR`.
+ */
+export type DetailMessageKey =
+  "ERROR_PASSKEY_CREATION_FAILED" | "ERROR_PASSKEY_AUTHENTICATION_FAILED";
+
+/**
+ * A key of the message catalog: an SDK error code, an API message code or a detail message key.
+ */
+export type MessageKey =
+  | PasskeyErrorCode
+  | ValidationErrorCode
+  | LoginIDErrorCode
+  | ApiErrorCode
+  | DetailMessageKey;
+
+/**
+ * Messages for one locale keyed by error code. Messages may contain `{name}` placeholders that
+ * are replaced with the matching parameter, for example `{rpId}` or `{factorName}`.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+/**
+ * The locale and message overrides an SDK instance resolves its messages with.
+ */
+export interface LocaleOptions {
+  /**
+   * The locale to resolve messages in, as a BCP 47 language tag. Defaults to the current locale.
+   */
+  locale?: string;
+
+  /**
+   * Messages keyed by locale that take precedence over the shared catalogs.
+   */
+  messages?: Record<string, MessageCatalog>;
+}
+
+/**
+ * The passkey features supported by the browser and device.
+ */
+export interface PasskeyCapabilities {
+  /**
+   * Passkey autofill (conditional mediation) for authentication.
+   */
+  conditionalGet: boolean;
+
+  /**
+   * Automatic passkey creation (conditional mediation) after a password sign-in.
+   */
+  conditionalCreate: boolean;
+
+  /**
+   * Signing in with a passkey from a phone by scanning a QR code (the hybrid transport).
+   */
+  hybridTransport: boolean;
+
+  /**
+   * Passkeys shared across the origins listed in the RP's `/.well-known/webauthn` file.
+   */
+  relatedOrigins: boolean;
+
+  /**
+   * The `prf` extension, which derives secrets from a passkey.
+   */
+  prf: boolean;
+
+  /**
+   * A built-in authenticator that verifies the user, such as Touch ID or Windows Hello.
+   */
+  userVerifyingPlatformAuthenticator: boolean;
+}
@@ -1,6 +1,7 @@
 // Copyright (C) LoginID
 
 import { LoginIDConfig } from "../controllers";
+import { LocaleOptions } from "../types";
 
 export class LoginIDConfigValidator {
   /**
@@ -36,6 +37,27 @@ export class LoginIDConfigValidator {
     }
   }
 
+  /**
+   * Retrieves the relying party ID from the configuration, defaulting to the host name of the page.
+   * @returns {string} The relying party ID, or an empty string outside the browser.
+   */
+  getRpId(): string {
+    if (this.config.rpId) {
+      return this.config.rpId;
+    }
+
+    return typeof window !== "undefined" ? window.location.hostname : "";
+  }
+
+  /**
+   * Retrieves the locale and messages the SDK messages of this instance are resolved with.
+   * @returns {LocaleOptions} The locale options.
+   */
+  getLocaleOptions(): LocaleOptions {
+    const { locale, messages } = this.config;
+    return { locale, messages };
+  }
+
   /**
    * Retrieves the original LoginID configuration object.
    * @returns {LoginIDConfig} The configuration object.
@@ -5,13 +5,31 @@ import {
     PublicKeyCredentialRequestOptions,
   } from "../api";
   import {
+    MfaCrossDeviceHandoff,
     MfaFactor,
     MfaFactorName,
     MfaInfo,
     MfaPerformActionOptions,
   } from "../controllers";
+  import { LoginIDError, LoginIDErrorCode } from "../errors";
+  import { CROSS_DEVICE_LINK_PARAM } from "../defaults";
   import { parseJwt } from "../utils/crypto";
-  import { LoginIDError } from "../errors";
+  import { LocaleOptions } from "../types";
+  import { getMessage } from "../i18n";
+  
+  /**
+   * Creates a LoginIDError with the localized message for the given code.
+   *
+   * @param {LoginIDErrorCode} code - The error code.
+   * @param {Record<string, string>} [params] - Values for the placeholders of the message.
+   * @param {LocaleOptions} [locale] - The locale options to resolve the message with.
+   * @returns {LoginIDError} - The error.
+   */
+  const toLoginIDError = (
+    code: LoginIDErrorCode,
+    params?: Record<string, string>,
+    locale?: LocaleOptions,
+  ): LoginIDError => new LoginIDError(getMessage(code, params, locale), code);
   
   /**
    * Utility class for validating parameters related to LoginID MFA operations.
@@ -23,17 +41,19 @@ import {
      * @param {MfaFactorName} factorName - The name of the MFA factor being validated.
      * @param {MfaInfo | null} info - The current MFA session information.
      * @param {MfaPerformActionOptions} options - The provided options for performing the MFA factor.
+     * @param {LocaleOptions} [locale] - The locale options to resolve error messages with.
      * @returns {Pick<Complete<MfaPerformActionOptions>, "payload" | "session">} - The validated session and payload.
      */
     public static mfaOptionValidator(
       factorName: MfaFactorName,
       info: MfaInfo | null,
       options: MfaPerformActionOptions,
+      locale?: LocaleOptions,
     ): Pick<Required<MfaPerformActionOptions>, "payload" | "session"> {
       const { session = info?.session, payload = "" } = options;
   
       if (!session) {
-        throw new LoginIDError("A session is required to perform MFA factor.");
+        throw toLoginIDError("ERROR_MFA_SESSION_REQUIRED", {}, locale);
       }
   
       if (payload) {
@@ -48,17 +68,25 @@ import {
         "otp:sms",
       ]);
       if (!info?.next || !canFindPayloadInInfo.has(factorName)) {
-        throw new LoginIDError("Payload is required to perform MFA factor.");
+        throw toLoginIDError("ERROR_MFA_PAYLOAD_REQUIRED", {}, locale);
       }
   
       const factor = info.next.find((f) => f.action.name === factorName);
       if (!factor) {
-        throw new LoginIDError(`No matching factor found for ${factorName}.`);
+        throw toLoginIDError(
+          "ERROR_MFA_FACTOR_NOT_FOUND",
+          { factorName },
+          locale,
+        );
       }
   
       const getFactorPayload = (factor: MfaFactor, key?: string): string => {
         if (!factor.options?.length) {
-          throw new LoginIDError(`Payload is required for ${factorName}.`);
+          throw toLoginIDError(
+            "ERROR_MFA_FACTOR_PAYLOAD_REQUIRED",
+            { factorName },
+            locale,
+          );
         }
   
         const isPasskey = new Set<MfaFactorName>([
@@ -72,17 +100,22 @@ import {
   
         let selectedOption: string | undefined;
   
-        // If key is provided (e.g., "email:primary"), find the option with that key
+        // If key is provided (e.g., "email:primary"), find the option with that name, or with that
+        // value for options without a name
         if (key) {
           selectedOption = factor.options.find(
-            (option: any) => option.name === key,
+            (option: any) => option.name === key || option.value === key,
           )?.label;
         } else {
           selectedOption = factor.options[0]?.label;
         }
   
         if (!selectedOption) {
-          throw new LoginIDError(`Contact is not found for ${factorName}.`);
+          throw toLoginIDError(
+            "ERROR_MFA_CONTACT_NOT_FOUND",
+            { factorName },
+            locale,
+          );
         }
   
         return selectedOption;
@@ -95,31 +128,42 @@ import {
           return { session, payload: getFactorPayload(factor) };
   
         case "otp:email":
-          return { session, payload: getFactorPayload(factor, "email:primary") };
+          return {
+            session,
+            payload: getFactorPayload(
+              factor,
+              options.contactId || "email:primary",
+            ),
+          };
   
         case "otp:sms":
-          return { session, payload: getFactorPayload(factor) };
+          return {
+            session,
+            payload: getFactorPayload(factor, options.contactId),
+          };
       }
   
-      throw new LoginIDError("Payload is required to perform MFA factor.");
+      throw toLoginIDError("ERROR_MFA_PAYLOAD_REQUIRED", {}, locale);
     }
   
     /**
      * Validates and parses a passkey payload.
      *
      * @param {string} payload - The encoded passkey payload.
+     * @param {LocaleOptions} [locale] - The locale options to resolve error messages with.
      * @returns {PublicKeyCredentialCreationOptions | PublicKeyCredentialRequestOptions} - The parsed passkey options.
      */
     public static validatePasskeyPayload(
       payload: string,
+      locale?: LocaleOptions,
     ): PublicKeyCredentialCreationOptions | PublicKeyCredentialRequestOptions {
       if (!payload) {
-        throw new LoginIDError("Payload is required for passkeys.");
+        throw toLoginIDError("ERROR_PASSKEY_PAYLOAD_REQUIRED", {}, locale);
       }
   
       const options = parseJwt("." + payload);
       if (!options) {
-        throw new LoginIDError("Invalid payload for passkeys.");
+        throw toLoginIDError("ERROR_PASSKEY_PAYLOAD_INVALID", {}, locale);
       }
   
       if (LoginIDParamValidator.isPublicKeyCredentialCreationOptions(options)) {
@@ -130,7 +174,33 @@ import {
         return options;
       }
   
-      throw new LoginIDError("Invalid payload for passkey.");
+      throw toLoginIDError("ERROR_PASSKEY_PAYLOAD_INVALID", {}, locale);
+    }
+  
+    /**
+     * Validates and parses a cross-device MFA link created by `startCrossDeviceFlow`.
+     *
+     * @param {string} link - The cross-device link.
+     * @param {LocaleOptions} [locale] - The locale options to resolve error messages with.
+     * @returns {MfaCrossDeviceHandoff} - The session and factor carried by the link.
+     */
+    public static validateCrossDeviceLink(
+      link: string,
+      locale?: LocaleOptions,
+    ): MfaCrossDeviceHandoff {
+      const fragment = link.split("#")[1] || "";
+      const encoded = new URLSearchParams(fragment).get(CROSS_DEVICE_LINK_PARAM);
+      const handoff = encoded ? parseJwt("." + encoded) : null;
+  
+      const crossDeviceFactors = new Set<MfaFactorName>([
+        "passkey:reg",
+        "passkey:auth",
+      ]);
+      if (!handoff?.session || !crossDeviceFactors.has(handoff.factorName)) {
+        throw toLoginIDError("ERROR_MFA_CROSS_DEVICE_LINK_INVALID", {}, locale);
+      }
+  
+      return handoff;
     }
   
     /**
@@ -0,0 +1,107 @@
+// Copyright (C) LoginID
+
+import {
+  defaultDeviceInfo,
+  isConditionalUIAvailable,
+  isPlatformAuthenticatorAvailable,
+} from "../utils/browser";
+import { PasskeyCapabilities } from "../types";
+import { DeviceInfo } from "../api";
+
+/**
+ * The detected capabilities. They do not change while the page is open.
+ */
+let capabilities: Promise<PasskeyCapabilities> | undefined;
+
+/**
+ * Reads the capabilities reported by `PublicKeyCredential.getClientCapabilities()`.
+ *
+ * @returns {Promise<Record<string, boolean> | undefined>} The reported capabilities, if supported.
+ */
+const getClientCapabilities = async (): Promise<
+  Record<string, boolean> | undefined
+> => {
+  const credential =
+    typeof PublicKeyCredential !== "undefined"
+      ? (PublicKeyCredential as any)
+      : undefined;
+
+  if (typeof credential?.getClientCapabilities !== "function") {
+    return undefined;
+  }
+
+  try {
+    return await credential.getClientCapabilities();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Detects the passkey capabilities of the browser.
+ *
+ * @returns {Promise<PasskeyCapabilities>} The capabilities.
+ */
+const detectPasskeyCapabilities = async (): Promise<PasskeyCapabilities> => {
+  const [reported, conditionalGet, userVerifyingPlatformAuthenticator] =
+    await Promise.all([
+      getClientCapabilities(),
+      isConditionalUIAvailable().catch(() => false),
+      isPlatformAuthenticatorAvailable().catch(() => false),
+    ]);
+
+  // Browsers without getClientCapabilities() do not support the newer features
+  return {
+    conditionalGet: reported?.conditionalGet ?? conditionalGet,
+    conditionalCreate: reported?.conditionalCreate ?? false,
+    hybridTransport: reported?.hybridTransport ?? false,
+    relatedOrigins: reported?.relatedOrigins ?? false,
+    prf: reported?.["extension:prf"] ?? false,
+    userVerifyingPlatformAuthenticator:
+      reported?.userVerifyingPlatformAuthenticator ??
+      userVerifyingPlatformAuthenticator,
+  };
+};
+
+/**
+ * Reports the passkey features supported by the browser and device. Uses
+ * `PublicKeyCredential.getClientCapabilities()` where available and falls back to the older
+ * feature checks otherwise, reporting features those checks cannot detect as unsupported.
+ *
+ * @returns {Promise<PasskeyCapabilities>} The capabilities.
+ *
+ * @example
+ * ```javascript
+ * import { getPasskeyCapabilities } from "@loginid/websdk3";
+ *
+ * const capabilities = await getPasskeyCapabilities();
+ * if (capabilities.hybridTransport) {
+ *   showSignInWithPhoneButton();
+ * }
+ * ```
+ */
+export const getPasskeyCapabilities = (): Promise<PasskeyCapabilities> => {
+  if (!capabilities) {
+    capabilities = detectPasskeyCapabilities();
+  }
+  return capabilities;
+};
+
+/**
+ * Collects the device information sent to LoginID, including the passkey capabilities in
+ * `webauthnCapabilities` so the backend can choose the best authentication action.
+ *
+ * @param {string} [deviceId] The device ID, if known.
+ * @returns {Promise<DeviceInfo>} The device information.
+ */
+export const getDeviceInfo = async (deviceId?: string): Promise<DeviceInfo> => {
+  const [deviceInfo, passkeyCapabilities] = await Promise.all([
+    defaultDeviceInfo(deviceId),
+    getPasskeyCapabilities(),
+  ]);
+
+  return {
+    ...deviceInfo,
+    webauthnCapabilities: JSON.stringify(passkeyCapabilities),
+  };
+};
@@ -1,17 +1,21 @@
 // Copyright (C) LoginID
 
 import { LoginIDError, PasskeyError } from "../errors";
+import { LocaleOptions } from "../types";
+import { getMessage } from "../i18n";
 
 /**
  * Identifies the error that occurred during passkey creation.
  *
  * @param {Error} error The error that occurred during passkey creation.
  * @param {CredentialCreationOptions} options The options used to create the passkey.
+ * @param {LocaleOptions} [locale] The locale options to resolve the message with.
  * @returns {PasskeyError | Error} The identified error.
  */
 export const identifyCreateError = (
   error: Error,
   options: CredentialCreationOptions,
+  locale?: LocaleOptions,
 ): PasskeyError | Error => {
   const name = error.name;
   const { publicKey } = options;
@@ -19,7 +23,7 @@ export const identifyCreateError = (
   if (name === "ConstraintError") {
     if (publicKey?.authenticatorSelection?.requireResidentKey === true) {
       return new PasskeyError(
-        "Your device does not support discoverable credentials",
+        getMessage("ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED", {}, locale),
         "ERROR_DISCOVERABLE_CREDENTIALS_UNSUPPORTED",
         error,
       );
@@ -27,7 +31,7 @@ export const identifyCreateError = (
 
     if (publicKey?.authenticatorSelection?.userVerification === "required") {
       return new PasskeyError(
-        "Your device does not support user verification",
+        getMessage("ERROR_USER_VERIFICATION_UNSUPPORTED", {}, locale),
         "ERROR_USER_VERIFICATION_UNSUPPORTED",
         error,
       );
@@ -38,7 +42,7 @@ export const identifyCreateError = (
   // within the authenticator for this current user.
   if (name === "InvalidStateError") {
     return new PasskeyError(
-      "A passkey already exists on your device",
+      getMessage("ERROR_PASSKEY_EXISTS", {}, locale),
       "ERROR_PASSKEY_EXISTS",
       error,
     );
@@ -48,7 +52,7 @@ export const identifyCreateError = (
   // Best to generalize it.
   if (name === "NotAllowedError") {
     return new PasskeyError(
-      "Passkey creation has failed",
+      getMessage("ERROR_PASSKEY_CREATION_FAILED", {}, locale),
       "ERROR_GENERAL_ERROR",
       error,
     );
@@ -56,7 +60,7 @@ export const identifyCreateError = (
 
   if (name === "NotSupportedError") {
     return new PasskeyError(
-      "Your device does not support the algorithms required for passkey creation",
+      getMessage("ERROR_ALGORITHMS_UNSUPPORTED", {}, locale),
       "ERROR_ALGORITHMS_UNSUPPORTED",
       error,
     );
@@ -66,7 +70,7 @@ export const identifyCreateError = (
     const rpId = publicKey?.rp?.id;
     if (rpId !== window.location.hostname) {
       return new PasskeyError(
-        `The domain of the relying party (${rpId}) is invalid for this domain`,
+        getMessage("ERROR_DOMAIN_MISMATCH", { rpId }, locale),
         "ERROR_DOMAIN_MISMATCH",
         error,
       );
@@ -75,7 +79,7 @@ export const identifyCreateError = (
 
   if (name === "UnknownError") {
     return new PasskeyError(
-      "Your device could not process the requested options or could not create a new passkey",
+      getMessage("ERROR_AUTHENTICATOR_UNKNOWN_ERROR", {}, locale),
       "ERROR_AUTHENTICATOR_UNKNOWN_ERROR",
       error,
     );
@@ -89,11 +93,13 @@ export const identifyCreateError = (
  *
  * @param {Error} error The error that occurred during passkey authentication.
  * @param {CredentialRequestOptions} options The options used to authenticate with the passkey.
+ * @param {LocaleOptions} [locale] The locale options to resolve the message with.
  * @returns {PasskeyError | Error} The identified error.
  */
 export const identifyGetError = (
   error: Error,
   options: CredentialRequestOptions,
+  locale?: LocaleOptions,
 ): PasskeyError | Error => {
   const name = error.name;
   const { publicKey } = options;
@@ -101,7 +107,7 @@ export const identifyGetError = (
   if (name === "AbortError") {
     if (options.signal instanceof AbortSignal) {
       return new PasskeyError(
-        "Passkey authentication has been aborted",
+        getMessage("ERROR_PASSKEY_ABORTED", {}, locale),
         "ERROR_PASSKEY_ABORTED",
         error,
       );
@@ -112,7 +118,7 @@ export const identifyGetError = (
   // Best to generalize it.
   if (name === "NotAllowedError") {
     return new PasskeyError(
-      "Passkey authentication has failed",
+      getMessage("ERROR_PASSKEY_AUTHENTICATION_FAILED", {}, locale),
       "ERROR_GENERAL_ERROR",
       error,
     );
@@ -122,7 +128,7 @@ export const identifyGetError = (
     const rpId = publicKey?.rpId;
     if (rpId !== window.location.hostname) {
       return new PasskeyError(
-        `The domain of the relying party (${rpId}) is invalid for this domain`,
+        getMessage("ERROR_DOMAIN_MISMATCH", { rpId }, locale),
         "ERROR_DOMAIN_MISMATCH",
         error,
       );
@@ -131,7 +137,7 @@ export const identifyGetError = (
 
   if (name === "UnknownError") {
     return new PasskeyError(
-      "Your device could not process the requested options or could not authenticate with a passkey",
+      getMessage("ERROR_AUTHENTICATOR_UNKNOWN_ERROR", {}, locale),
       "ERROR_AUTHENTICATOR_UNKNOWN_ERROR",
       error,
     );
@@ -1,6 +1,21 @@
 // Copyright (C) LoginID
 
+import {
+  PasskeyCapabilities,
+  PasskeyExtensionInputs,
+  PasskeyExtensionResults,
+} from "../types";
+
+export type {
+  PasskeyCapabilities,
+  PasskeyExtensionInputs,
+  PasskeyExtensionResults,
+};
+
 export * from "./abort-controller";
+export * from "./capabilities";
+export * from "./signals";
 export * from "./webauthn-helper";
 export * from "./webauthn";
+export * from "./web-otp";
 export * from "./errors";
@@ -0,0 +1,117 @@
+// Copyright (C) LoginID
+
+/**
+ * The static methods of the WebAuthn Signal API, which the DOM typings do not declare yet.
+ */
+interface PublicKeyCredentialSignals {
+  signalUnknownCredential?(options: {
+    rpId: string;
+    credentialId: string;
+  }): Promise<void>;
+  signalAllAcceptedCredentials?(options: {
+    rpId: string;
+    userId: string;
+    allAcceptedCredentialIds: string[];
+  }): Promise<void>;
+  signalCurrentUserDetails?(options: {
+    rpId: string;
+    userId: string;
+    name: string;
+    displayName: string;
+  }): Promise<void>;
+}
+
+type SignalOptions<M extends keyof PublicKeyCredentialSignals> = Parameters<
+  NonNullable<PublicKeyCredentialSignals[M]>
+>[0];
+
+/**
+ * Calls a static method of the WebAuthn Signal API if the browser supports it. Signals are only
+ * hints to the authenticator, so failures are ignored.
+ *
+ * @param {string} method The name of the `PublicKeyCredential` method.
+ * @param {object} options The signal options.
+ * @returns {Promise<boolean>} True if the signal was delivered.
+ */
+const sendSignal = async <M extends keyof PublicKeyCredentialSignals>(
+  method: M,
+  options: SignalOptions<M>,
+): Promise<boolean> => {
+  const credential =
+    typeof PublicKeyCredential !== "undefined"
+      ? (PublicKeyCredential as PublicKeyCredentialSignals)
+      : undefined;
+  const signal = credential?.[method] as
+    ((options: SignalOptions<M>) => Promise<void>) | undefined;
+
+  if (typeof signal !== "function") {
+    return false;
+  }
+
+  try {
+    await signal.call(credential, options);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Tells the authenticator that the relying party does not recognize a credential, for example
+ * because it was deleted, so the authenticator can hide or remove it.
+ *
+ * @param {string} rpId The relying party ID.
+ * @param {string} credentialId The base64url-encoded credential ID.
+ * @returns {Promise<boolean>} True if the browser supports the signal and accepted it.
+ */
+export const signalUnknownCredential = (
+  rpId: string,
+  credentialId: string,
+): Promise<boolean> => {
+  return sendSignal("signalUnknownCredential", { rpId, credentialId });
+};
+
+/**
+ * Tells the authenticator which credentials of a user the relying party still accepts, so it can
+ * hide the others.
+ *
+ * @param {string} rpId The relying party ID.
+ * @param {string} userId The base64url-encoded user handle.
+ * @param {string[]} allAcceptedCredentialIds The base64url-encoded IDs of all valid credentials.
+ * @returns {Promise<boolean>} True if the browser supports the signal and accepted it.
+ */
+export const signalAllAcceptedCredentials = (
+  rpId: string,
+  userId: string,
+  allAcceptedCredentialIds: string[],
+): Promise<boolean> => {
+  return sendSignal("signalAllAcceptedCredentials", {
+    rpId,
+    userId,
+    allAcceptedCredentialIds,
+  });
+};
+
+/**
+ * Tells the authenticator the current name and display name of a user, so passkey pickers show
+ * up-to-date account details.
+ *
+ * @param {string} rpId The relying party ID.
+ * @param {string} userId The base64url-encoded user handle.
+ * @param {string} name The user name.
+ * @param {string} displayName The display name.
+ * @returns {Promise<boolean>} True if the browser supports the signal and accepted it.
+ */
+export const signalCurrentUserDetails = (
+  rpId: string,
+  userId: string,
+  name: string,
+  displayName: string,
+): Promise<boolean> => {
+  return sendSignal("signalCurrentUserDetails", {
+    rpId,
+    userId,
+    name,
+    displayName,
+  });
+};
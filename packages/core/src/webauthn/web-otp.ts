@@ -0,0 +1,92 @@
+// Copyright (C) LoginID
+
+import { AbortError } from "../errors/abort";
+
+/**
+ * A one-time password credential returned by the WebOTP API.
+ */
+interface OTPCredential extends Credential {
+  code: string;
+}
+
+/**
+ * Options for reading a one-time password from an SMS.
+ */
+export interface ReadSmsOtpOptions {
+  /**
+   * An AbortSignal that stops waiting for the SMS.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Maximum time in milliseconds to wait for the SMS. Defaults to the browser's own timeout.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * The pending WebOTP request. Only one may be pending at a time, so starting a new one aborts it.
+ */
+let smsOtpAbortController: AbortController | undefined;
+
+/**
+ * Checks whether the browser supports reading one-time passwords from SMS with the WebOTP API.
+ *
+ * @returns {boolean} True if the WebOTP API is available.
+ */
+export const isWebOtpSupported = (): boolean => {
+  return typeof window !== "undefined" && "OTPCredential" in window;
+};
+
+/**
+ * Stops waiting for an SMS, for example because the user entered the code by hand.
+ */
+export const abortSmsOtpRequest = () => {
+  smsOtpAbortController?.abort(
+    new AbortError("Cancelling current WebOTP request"),
+  );
+  smsOtpAbortController = undefined;
+};
+
+/**
+ * Waits for an SMS carrying a one-time password bound to the current origin and returns the code.
+ *
+ * Resolves with `null` if the WebOTP API is not supported, the user declines, or the request is
+ * aborted or times out, so callers can fall back to manual entry.
+ *
+ * @param {ReadSmsOtpOptions} [options={}] The abort signal and timeout.
+ * @returns {Promise<string | null>} The code, or `null` if none was read.
+ */
+export const readSmsOtp = async (
+  options: ReadSmsOtpOptions = {},
+): Promise<string | null> => {
+  const { signal, timeoutMs } = options;
+  if (!isWebOtpSupported() || signal?.aborted) {
+    return null;
+  }
+
+  abortSmsOtpRequest();
+  const controller = new AbortController();
+  smsOtpAbortController = controller;
+
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  const timer = timeoutMs ? setTimeout(abort, timeoutMs) : undefined;
+
+  try {
+    const credential = (await navigator.credentials.get({
+      otp: { transport: ["sms"] },
+      signal: controller.signal,
+    } as CredentialRequestOptions)) as OTPCredential | null;
+
+    return credential?.code || null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+    if (smsOtpAbortController === controller) {
+      smsOtpAbortController = undefined;
+    }
+  }
+};
@@ -7,14 +7,57 @@ import {
     RegInit,
   } from "../api";
   import { createPasskeyCredential, getPasskeyCredential } from "./webauthn";
-  import { GetNavigatorCredentialOptions, Transports } from "../types";
+  import {
+    CreateNavigatorCredentialOptions,
+    GetNavigatorCredentialOptions,
+    PasskeyExtensionResults,
+    Transports,
+  } from "../types";
   import { AbortControllerManager } from "./abort-controller";
   import { bufferToBase64Url } from "../utils/crypto";
   
+  /**
+   * Reads the client extension results of a credential, reports them to the caller and returns the
+   * results that are safe to send to LoginID. PRF outputs and large blob contents are secrets of the
+   * client and are never sent.
+   *
+   * @param {PublicKeyCredential} credential The credential returned by the browser.
+   * @param {Function} [onExtensionResults] Receives the complete results.
+   * @returns {Record<string, any> | undefined} The results to send, if any.
+   */
+  const handleExtensionResults = (
+    credential: PublicKeyCredential,
+    onExtensionResults?: (results: PasskeyExtensionResults) => void,
+  ): Record<string, any> | undefined => {
+    const results: PasskeyExtensionResults =
+      credential.getClientExtensionResults?.() || {};
+  
+    onExtensionResults?.(results);
+  
+    const { prf, largeBlob, credProps } = results;
+    const serverResults = {
+      ...(credProps && { credProps }),
+      ...(prf && { prf: { enabled: prf.enabled ?? !!prf.results } }),
+      ...(largeBlob && {
+        largeBlob: {
+          ...(largeBlob.supported !== undefined && {
+            supported: largeBlob.supported,
+          }),
+          ...(largeBlob.written !== undefined && {
+            written: largeBlob.written,
+          }),
+        },
+      }),
+    };
+  
+    return Object.keys(serverResults).length ? serverResults : undefined;
+  };
+  
   export class WebAuthnHelper {
     /**
      * A helper function that attempts public-key credential authentication using WebAuthn API. It is designed to be used with LoginID's
      * passkey authentication flow. The function takes an authentication initialization response and returns an authentication completion request body.
+     * The complete client extension results, including PRF outputs, are passed to **`onExtensionResults`**.
      */
     static async getNavigatorCredential(
       authInitResponseBody: AuthInit,
@@ -33,6 +76,10 @@ import {
   
       const credential = await getPasskeyCredential(assertionOptions, options);
       const response = credential.response as AuthenticatorAssertionResponse;
+      const clientExtensionResults = handleExtensionResults(
+        credential,
+        options.onExtensionResults,
+      );
   
       const authCompleteRequestBody: AuthCompleteRequestBody = {
         assertionResult: {
@@ -43,6 +90,7 @@ import {
           ...(response.userHandle && {
             userHandle: bufferToBase64Url(response.userHandle),
           }),
+          ...(clientExtensionResults && { clientExtensionResults }),
         },
         session: session,
       };
@@ -53,17 +101,34 @@ import {
     /**
      * A helper function that creates a public-key credential using WebAuthn API.
      * It processes the response body from registration initialization and returns
-     * a registration completion request body.
+     * a registration completion request body. With **`conditional`**, the browser creates the passkey
+     * without a prompt if the user just signed in with a saved password, and declines otherwise.
+     * The complete client extension results, including PRF outputs, are passed to **`onExtensionResults`**.
      */
-    static async createNavigatorCredential(regInitResponseBody: RegInit) {
+    static async createNavigatorCredential(
+      regInitResponseBody: RegInit,
+      options: CreateNavigatorCredentialOptions = {},
+    ) {
       const { registrationRequestOptions, session } = regInitResponseBody;
   
-      AbortControllerManager.renewWebAuthnAbortController();
+      if (!options.abortController) {
+        AbortControllerManager.renewWebAuthnAbortController();
+        options.abortController = AbortControllerManager.abortController;
+      } else {
+        AbortControllerManager.assignWebAuthnAbortController(
+          options.abortController,
+        );
+      }
   
       const credential = await createPasskeyCredential(
         registrationRequestOptions,
+        options,
       );
       const response = credential.response as AuthenticatorAttestationResponse;
+      const clientExtensionResults = handleExtensionResults(
+        credential,
+        options.onExtensionResults,
+      );
   
       const publicKey = response.getPublicKey && response.getPublicKey();
       const publicKeyAlg =
@@ -84,6 +149,7 @@ import {
             authenticatorData: bufferToBase64Url(authenticatorData),
           }),
           ...(transports && { transports: transports }),
+          ...(clientExtensionResults && { clientExtensionResults }),
         },
         session: session,
       };
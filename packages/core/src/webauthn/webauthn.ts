@@ -5,18 +5,41 @@ import type {
     PublicKeyCredentialRequestOptions,
   } from "../api";
   import { identifyCreateError, identifyGetError } from "./errors";
-  import { GetPasskeyCredentialOptions } from "../types";
+  import {
+    CreatePasskeyCredentialOptions,
+    GetPasskeyCredentialOptions,
+    PasskeyExtensionInputs,
+  } from "../types";
   import { base64UrlToBuffer } from "../utils/crypto";
   
+  /**
+   * Merges the extensions requested by LoginID with the extensions requested by the application.
+   *
+   * @param {Record<string, any>} [serverExtensions] The extensions from the initiation response.
+   * @param {PasskeyExtensionInputs} [clientExtensions] The extensions from the SDK options.
+   * @returns {AuthenticationExtensionsClientInputs | undefined} The merged extensions, if any.
+   */
+  const mergeExtensions = (
+    serverExtensions?: Record<string, any>,
+    clientExtensions?: PasskeyExtensionInputs,
+  ): AuthenticationExtensionsClientInputs | undefined => {
+    if (!serverExtensions && !clientExtensions) {
+      return undefined;
+    }
+    return { ...serverExtensions, ...clientExtensions };
+  };
+  
   /**
    * Asynchronously creates a passkey credential using the provided registration response.
    *
    * @param {IRegisterPasskeyInitResponse} init - The registration initiation response.
+   * @param {CreatePasskeyCredentialOptions} createOptions - Additional options for the registration request.
    * @returns {Promise<PublicKeyCredential>} A promise that resolves to the passkey credential.
    * @throws {LoginIdError} If any errors occur during credential creation or if the credential type is invalid.
    */
   const createPasskeyCredential = async (
     init: PublicKeyCredentialCreationOptions,
+    createOptions: CreatePasskeyCredentialOptions = {},
   ): Promise<PublicKeyCredential> => {
     let excludeCredentials: any[] | undefined = undefined;
   
@@ -45,13 +68,20 @@ import type {
   
     // Define options for creating the passkey credential.
     // TODO: Add hints
-    const options: CredentialCreationOptions = {
+    // Conditional creation is not part of the TypeScript DOM types yet
+    const options: CredentialCreationOptions & {
+      mediation?: CredentialMediationRequirement;
+    } = {
+      ...(createOptions.conditional && { mediation: "conditional" }),
+      ...(createOptions.abortController && {
+        signal: createOptions.abortController.signal,
+      }),
       publicKey: {
         attestation: init.attestation,
         authenticatorSelection: { ...init.authenticatorSelection },
         challenge: base64UrlToBuffer(init.challenge),
         excludeCredentials: excludeCredentials,
-        extensions: init.extensions,
+        extensions: mergeExtensions(init.extensions, createOptions.extensions),
         pubKeyCredParams: pubKeyCredParams,
         rp: init.rp,
         timeout: init.timeout,
@@ -76,7 +106,7 @@ import type {
     } catch (e) {
       // Identify error if possible to provide a more friendly error message.
       if (e instanceof Error) {
-        throw identifyCreateError(e, options);
+        throw identifyCreateError(e, options, createOptions.locale);
       }
   
       // Re-throw the object if it is not an instance of Error.
@@ -124,7 +154,7 @@ import type {
       publicKey: {
         allowCredentials: allowCredentials,
         challenge: base64UrlToBuffer(init.challenge),
-        extensions: init.extensions,
+        extensions: mergeExtensions(init.extensions, options.extensions),
         rpId: init.rpId,
         timeout: init.timeout,
         userVerification: init.userVerification,
@@ -145,7 +175,7 @@ import type {
     } catch (e) {
       // Identify error if possible to provide a more friendly error message.
       if (e instanceof Error) {
-        throw identifyGetError(e, credOptions);
+        throw identifyGetError(e, credOptions, options.locale);
       }
   
       // Re-throw the object if it is not an instance of Error.
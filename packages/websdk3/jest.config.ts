@@ -9,6 +9,9 @@ module.exports = {
       "^.+\\.ts?$": "ts-jest",
     },
     transformIgnorePatterns: ["<rootDir>/node_modules/"],
+    moduleNameMapper: {
+      "^@loginid/core/testing$": "<rootDir>/../core/src/testing/index.ts",
+    },
     displayName: "websdk3",
     passWithNoTests: true,
   };
@@ -7,24 +7,126 @@ import {
   import {
     WebAuthnHelper,
     createPasskeyCredential,
+    getPasskeyCapabilities,
     getPasskeyCredential,
   } from "@loginid/core/webauthn";
-  import { AbortError, PasskeyError } from "@loginid/core/errors";
-  import { LoginIDMfa } from "@loginid/core/mfa";
+  import {
+    CookieTokenStorage,
+    MemoryTokenStorage,
+    WebStorageTokenStorage,
+  } from "@loginid/core/session";
+  import {
+    AbortError,
+    AdditionalAuthRequiredError,
+    BadRequestError,
+    CredentialNotFoundError,
+    ForbiddenError,
+    InternalServerError,
+    LoginIDApiError,
+    NotFoundError,
+    OtpInvalidError,
+    OtpResendTooEarlyError,
+    PasskeyError,
+    RateLimitedError,
+    SessionExpiredError,
+    TimeoutError,
+    TokenVerificationError,
+    UnauthorizedError,
+    UserNotFoundError,
+  } from "@loginid/core/errors";
+  import {
+    addMessages,
+    getLocale,
+    getMessage,
+    setLocale,
+  } from "@loginid/core/i18n";
+  import { LoginIDMfa, MfaFlowMachine } from "@loginid/core/mfa";
+  import { LoginIDHttpRequest } from "@loginid/core/http";
+  import { JwtVerifier } from "@loginid/core/jwt";
   import LoginIDWebSDK from "./loginid";
   
   export {
+    addMessages,
     createPasskeyCredential,
+    getLocale,
+    getMessage,
+    getPasskeyCapabilities,
     getPasskeyCredential,
     isConditionalUIAvailable,
     isPlatformAuthenticatorAvailable,
+    setLocale,
     AbortError,
+    AdditionalAuthRequiredError,
+    BadRequestError,
+    CredentialNotFoundError,
+    CookieTokenStorage,
+    ForbiddenError,
+    InternalServerError,
+    JwtVerifier,
+    LoginIDApiError,
+    LoginIDHttpRequest,
     LoginIDMfa,
     LoginIDWebSDK,
+    MemoryTokenStorage,
+    MfaFlowMachine,
+    NotFoundError,
+    OtpInvalidError,
+    OtpResendTooEarlyError,
     PasskeyError,
+    RateLimitedError,
+    SessionExpiredError,
+    TimeoutError,
+    TokenVerificationError,
+    UnauthorizedError,
+    UserNotFoundError,
     WebAuthnHelper,
+    WebStorageTokenStorage,
   };
   export type { Passkey, PasskeyCollection } from "@loginid/core/api";
+  export type {
+    CookieOptions,
+    JwtClaims,
+    SessionEventHandler,
+    SessionEventMap,
+    SessionEventName,
+    SessionInfo,
+    TokenExpiredEvent,
+    TokenStorage,
+    TokenStorageType,
+  } from "@loginid/core/session";
+  export type {
+    JwtVerifierOptions,
+    TokenVerificationOptions,
+    VerifyTokenOptions,
+  } from "@loginid/core/jwt";
+  export type {
+    ApiErrorCode,
+    LoginIDErrorCode,
+    PasskeyErrorCode,
+    TokenVerificationErrorCode,
+    ValidationErrorCode,
+  } from "@loginid/core/errors";
+  export type { MessageCatalog, MessageKey } from "@loginid/core/i18n";
+  export type {
+    MfaFlowDriver,
+    MfaFlowError,
+    MfaFlowEvent,
+    MfaFlowListener,
+    MfaFlowSnapshot,
+    MfaFlowState,
+  } from "@loginid/core/mfa";
+  export type { StepUpOptions, StepUpResult } from "@loginid/core/controllers";
+  export type {
+    PasskeyCapabilities,
+    PasskeyExtensionInputs,
+    PasskeyExtensionResults,
+  } from "@loginid/core/webauthn";
+  export type {
+    HttpMiddleware,
+    HttpRequestConstructor,
+    HttpRequestContext,
+    RetryOptions,
+  } from "@loginid/core/http";
   
   export * from "./loginid/types";
   
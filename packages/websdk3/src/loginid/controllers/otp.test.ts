@@ -0,0 +1,125 @@
+// Copyright (C) LoginID
+
+import { OtpInvalidError, OtpResendTooEarlyError } from "@loginid/core/errors";
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { MockLoginIDBackend } from "@loginid/core/testing";
+import { AuthResult } from "../types";
+import LoginIDWebSDK from "..";
+
+const baseUrl = "https://app-1.mock.loginid.io";
+
+describe("OTP", () => {
+  const backend = new MockLoginIDBackend();
+  let lid: LoginIDWebSDK;
+  let username: string;
+  let count = 0;
+
+  beforeEach(() => {
+    // The resend cooldown is kept per user for the lifetime of the page
+    username = `user-${++count}@example.com`;
+
+    localStorage.clear();
+    backend.reset();
+    backend.addUser({ username, phone: "+15555550100" });
+
+    lid = new LoginIDWebSDK({
+      baseUrl,
+      httpRequest: backend.httpRequest,
+      tokenStorage: "memory",
+      disableAnalytics: true,
+    });
+  });
+
+  it("signs in with a code sent by email", async () => {
+    await lid.requestAndSendOtp(username, "email");
+
+    const result = await lid.validateOtp(
+      username,
+      backend.getLastOtp(username)!,
+    );
+
+    expect(result.isAuthenticated).toBe(true);
+    expect(lid.session.isLoggedIn()).toBe(true);
+  });
+
+  it("rejects a wrong code", async () => {
+    await lid.requestAndSendOtp(username, "email");
+
+    await expect(lid.validateOtp(username, "000000")).rejects.toThrow(
+      OtpInvalidError,
+    );
+  });
+
+  it("refuses to send another code before the cooldown has elapsed", async () => {
+    await lid.requestAndSendOtp(username, "email");
+
+    await expect(lid.requestAndSendOtp(username, "email")).rejects.toThrow(
+      OtpResendTooEarlyError,
+    );
+    expect(lid.getOtpStatus(username).canResendAt).toBeInstanceOf(Date);
+  });
+
+  it("sends a code by another method during the cooldown", async () => {
+    await lid.requestAndSendOtp(username, "email");
+
+    const delivery = await lid.requestAndSendOtp(username, "sms");
+    expect(delivery.canResendAt).toBeInstanceOf(Date);
+  });
+
+  it("steps up with a code and reports the new tokens to session listeners", async () => {
+    await lid.requestAndSendOtp(username, "email");
+    await lid.validateOtp(username, backend.getLastOtp(username)!);
+
+    const logins: string[] = [];
+    lid.on("login", (session) => logins.push(session.username));
+
+    const stepUp = await lid.stepUp({ maxAge: 300 });
+    expect(stepUp.isStepUpRequired).toBe(true);
+
+    await lid.performAction("otp:email");
+    const result = await lid.performAction("otp:verify", {
+      payload: backend.getLastOtp(username),
+    });
+
+    expect(result.isComplete).toBe(true);
+    expect(logins).toEqual([username]);
+    expect(lid.getMfaSessionDetails().isComplete).toBe(true);
+  });
+
+  it("keeps reading the SMS after a mistyped code", async () => {
+    let receiveSms: (code: string) => void = () => {};
+    let smsSignal: AbortSignal | null | undefined;
+    const get = (options: CredentialRequestOptions) => {
+      smsSignal = options.signal;
+      return new Promise((resolve) => {
+        receiveSms = (code) => resolve({ code });
+      });
+    };
+    Object.assign(window, { OTPCredential: class {} });
+    Object.defineProperty(navigator, "credentials", {
+      value: { get },
+      configurable: true,
+    });
+
+    try {
+      let onVerified: (result: AuthResult) => void = () => {};
+      const verified = new Promise<AuthResult>((resolve) => {
+        onVerified = resolve;
+      });
+      await lid.requestAndSendOtp(username, "sms", {
+        autoReadSmsOtp: { onVerified },
+      });
+
+      await expect(lid.validateOtp(username, "000000")).rejects.toThrow(
+        OtpInvalidError,
+      );
+      expect(smsSignal?.aborted).toBe(false);
+
+      receiveSms(backend.getLastOtp(username)!);
+      await expect(verified).resolves.toMatchObject({ isAuthenticated: true });
+    } finally {
+      Reflect.deleteProperty(window, "OTPCredential");
+      Reflect.deleteProperty(navigator, "credentials");
+    }
+  });
+});
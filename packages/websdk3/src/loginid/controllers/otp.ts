@@ -3,16 +3,37 @@
 import {
     AuthResult,
     Message,
+    OtpDelivery,
     RequestAndSendOtpOptions,
     ValidateOtpOptions,
   } from "../types";
+  import {
+    assertCanResendOtp,
+    getLastOtpDestination,
+    getLastOtpResendInfo,
+    toOtpDestination,
+    toOtpResendInfo,
+    toOtpResendStatus,
+    updateOtpResendInfo,
+  } from "@loginid/core/helpers";
   import {
     AuthCodeRequestSMSRequestBody,
     AuthCodeVerifyRequestBody,
+    JWT,
   } from "@loginid/core/api";
+  import {
+    AbortControllerManager,
+    abortSmsOtpRequest,
+    readSmsOtp,
+  } from "@loginid/core/webauthn";
   import { LoginIDBase, LoginIDConfig } from "@loginid/core/controllers";
-  import { AbortControllerManager } from "@loginid/core/webauthn";
   import { passkeyOptions, toAuthResult } from "../lib/defaults";
+  import {
+    clearOtpResendInfos,
+    getOtpResendInfos,
+    setOtpResendInfo,
+  } from "../lib/utils";
+  import { withSignal } from "@loginid/core/http";
   
   /**
    * Extends LoginIDBase to support OTP methods.
@@ -90,9 +111,35 @@ import {
         },
       };
   
-      const response = await this.service.auth.authAuthCodeVerify({
-        requestBody: request,
-      });
+      const appId = this.config.getAppId();
+      let response: JWT;
+      try {
+        response = await withSignal(
+          this.service.auth.authAuthCodeVerify({
+            requestBody: request,
+          }),
+          options.signal,
+        );
+      } catch (error) {
+        // The code being validated is the one sent last
+        const infos = getOtpResendInfos(appId, username);
+        const destination = getLastOtpDestination(infos);
+        if (destination) {
+          setOtpResendInfo(
+            appId,
+            username,
+            destination,
+            updateOtpResendInfo(infos?.[destination], error),
+          );
+        }
+        throw error;
+      }
+  
+      // The code was used up, so a new one may be requested right away
+      clearOtpResendInfos(appId, username);
+  
+      // Keep reading the SMS after a mistyped code; only a validated one ends it
+      abortSmsOtpRequest();
   
       const result = toAuthResult(response);
   
@@ -109,10 +156,14 @@ import {
      * the user's choice from the list of available options. This can be found in the result of `authenticateWithPasskey`
      * method as `fallbackOptions`.
      *
+     * On mobile browsers that support the WebOTP API, set `options.autoReadSmsOtp` to read an SMS code automatically
+     * and validate it without the user typing it.
+     *
      * @param {string} username Username to request and send the OTP to.
      * @param {Message} method Method to send the code, either 'email' or 'sms'. Default is 'email'.
      * @param {RequestAndSendOtpOptions} options Additional options for sending the OTP.
-     * @returns {Promise<void>} A promise that resolves when the operation completes successfully.
+     * @returns {Promise<OtpDelivery>} When the OTP was sent and when another may be requested.
+     * @throws {OtpResendTooEarlyError} If another OTP was sent to the user by the same method too recently.
      * @example
      * ```javascript
      * import { LoginIDWebSDK } from "@loginid/websdk3";
@@ -148,7 +199,12 @@ import {
       username: string,
       method: Message = "email",
       options: RequestAndSendOtpOptions = {},
-    ): Promise<void> {
+    ): Promise<OtpDelivery> {
+      const appId = this.config.getAppId();
+      const destination = toOtpDestination(method);
+      const info = getOtpResendInfos(appId, username)?.[destination];
+      assertCanResendOtp(info, this.config.getLocaleOptions());
+  
       const opts = passkeyOptions(username, "", options);
       const request: AuthCodeRequestSMSRequestBody = {
         user: {
@@ -157,21 +213,121 @@ import {
         },
       };
   
-      switch (method) {
-        case "email":
-          await this.service.auth.authAuthCodeRequestEmail({
-            requestBody: request,
-          });
-          break;
+      try {
+        switch (method) {
+          case "email":
+            await withSignal(
+              this.service.auth.authAuthCodeRequestEmail({
+                requestBody: request,
+              }),
+              options.signal,
+            );
+            break;
   
-        case "sms":
-          await this.service.auth.authAuthCodeRequestSms({
-            requestBody: request,
-          });
-          break;
+          case "sms":
+            await withSignal(
+              this.service.auth.authAuthCodeRequestSms({
+                requestBody: request,
+              }),
+              options.signal,
+            );
+            break;
+  
+          default:
+            throw new Error("Invalid message method");
+        }
+      } catch (error) {
+        setOtpResendInfo(
+          appId,
+          username,
+          destination,
+          updateOtpResendInfo(info, error),
+        );
+        throw error;
+      }
+  
+      const { otpResendCooldownMs } = this.config.getConfig();
+      const newInfo = toOtpResendInfo({}, otpResendCooldownMs);
+      setOtpResendInfo(appId, username, destination, newInfo);
+  
+      if (method === "sms" && options.autoReadSmsOtp) {
+        // Runs in the background so the code can still be entered by hand
+        this.autoValidateSmsOtp(username, options).catch((error) =>
+          console.error("Error reading the SMS OTP:", error),
+        );
+      }
+  
+      return toOtpResendStatus(newInfo);
+    }
+  
+    /**
+     * Returns when the last OTP for the user was sent, when another may be requested and how many
+     * attempts are left to validate it. Use it to render resend countdowns; `requestAndSendOtp` and
+     * `requestOtp` fail with an `OtpResendTooEarlyError` before `canResendAt`.
+     *
+     * @param {string} username Username the OTP was requested for.
+     * @returns {OtpDelivery} The resend state. Empty if no OTP was requested for the user on this page.
+     * @example
+     * ```javascript
+     * import { LoginIDWebSDK } from "@loginid/websdk3";
+     *
+     * const lid = new LoginIDWebSDK({ baseUrl: process.env.BASE_URL });
+     *
+     * await lid.requestAndSendOtp(username, "email");
+     *
+     * const { canResendAt } = lid.getOtpStatus(username);
+     * const seconds = Math.ceil((canResendAt - Date.now()) / 1000);
+     * resendButton.textContent = `Resend code in ${seconds}s`;
+     * ```
+     */
+    getOtpStatus(username: string): OtpDelivery {
+      const appId = this.config.getAppId();
+      return toOtpResendStatus(
+        getLastOtpResendInfo(getOtpResendInfos(appId, username)),
+      );
+    }
+  
+    /**
+     * Waits for the SMS with the WebOTP API and validates the code read from it with `validateOtp`.
+     * Errors thrown by the callbacks are logged, since no caller awaits the result.
+     *
+     * @param {string} username Username the OTP was sent to.
+     * @param {RequestAndSendOtpOptions} options The options of the `requestAndSendOtp` call.
+     * @returns {Promise<void>}
+     */
+    private async autoValidateSmsOtp(
+      username: string,
+      options: RequestAndSendOtpOptions,
+    ): Promise<void> {
+      const { autoReadSmsOtp: autoRead, ...validateOptions } = options;
+      if (!autoRead) {
+        return;
+      }
+  
+      const code = await readSmsOtp({
+        signal: options.signal,
+        timeoutMs: autoRead.timeoutMs,
+      });
+      if (!code) {
+        return;
+      }
+  
+      let result: AuthResult;
+      try {
+        result = await this.validateOtp(username, code, validateOptions);
+      } catch (error) {
+        try {
+          autoRead.onError?.(error);
+        } catch (handlerError) {
+          console.error("Error in autoReadSmsOtp onError:", handlerError);
+        }
+        return;
+      }
   
-        default:
-          throw new Error("Invalid message method");
+      try {
+        autoRead.onVerified(result);
+      } catch (handlerError) {
+        console.error("Error in autoReadSmsOtp onVerified:", handlerError);
       }
     }
   }
@@ -0,0 +1,89 @@
+// Copyright (C) LoginID
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "@jest/globals";
+import {
+  MockLoginIDBackend,
+  VirtualAuthenticator,
+} from "@loginid/core/testing";
+import { webcrypto } from "node:crypto";
+import LoginIDWebSDK from "..";
+
+const baseUrl = "https://app-1.mock.loginid.io";
+const username = "jane@example.com";
+
+describe("PasskeyManager", () => {
+  const backend = new MockLoginIDBackend();
+  const authenticator = new VirtualAuthenticator({
+    crypto: webcrypto as Crypto,
+  });
+  let lid: LoginIDWebSDK;
+
+  beforeAll(() => {
+    authenticator.install();
+  });
+
+  afterAll(() => {
+    authenticator.uninstall();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend.reset();
+    authenticator.reset();
+
+    lid = new LoginIDWebSDK({
+      baseUrl,
+      httpRequest: backend.httpRequest,
+      tokenStorage: "memory",
+      disableAnalytics: true,
+    });
+  });
+
+  it("hides passkeys deleted elsewhere after a rename", async () => {
+    await lid.createPasskey(username);
+
+    // The first passkey is deleted on another device
+    backend.getUser(username)!.passkeys.length = 0;
+    const { passkeyId } = await lid.createPasskey(username);
+    expect(authenticator.getCredentials()).toHaveLength(2);
+
+    await lid.renamePasskey(passkeyId!, "Work laptop");
+
+    const [passkey] = await lid.listPasskeys();
+    expect(passkey.name).toBe("Work laptop");
+    expect(authenticator.getCredentials()).toEqual([
+      expect.objectContaining({ id: passkey.credentialId }),
+    ]);
+  });
+
+  it("reports the user details given with a rename", async () => {
+    const { passkeyId } = await lid.createPasskey(username);
+
+    await lid.renamePasskey(passkeyId!, "Work laptop");
+    expect(authenticator.getCredentials()[0].displayName).toBe(username);
+
+    await lid.renamePasskey(passkeyId!, "Work laptop", {
+      displayName: "Jane Doe",
+    });
+    expect(authenticator.getCredentials()[0]).toMatchObject({
+      userName: username,
+      displayName: "Jane Doe",
+    });
+  });
+
+  it("removes a deleted passkey from the authenticator without listing it first", async () => {
+    const { passkeyId } = await lid.createPasskey(username);
+
+    await lid.deletePasskey(passkeyId!);
+
+    expect(backend.getUser(username)?.passkeys).toHaveLength(0);
+    expect(authenticator.getCredentials()).toHaveLength(0);
+  });
+});
@@ -1,6 +1,11 @@
 // Copyright (C) LoginID
 
 import {
+    signalAllAcceptedCredentials,
+    signalCurrentUserDetails,
+    signalUnknownCredential,
+  } from "@loginid/core/webauthn";
+  import {
     DeletePasskeyOptions,
     ListPasskeysOptions,
     RenamePasskeyOptions,
@@ -10,6 +15,7 @@ import {
     PasskeyRenameRequestBody,
   } from "@loginid/core/api";
   import { LoginIDBase, LoginIDConfig } from "@loginid/core/controllers";
+  import { withSignal } from "@loginid/core/http";
   
   /**
    * Extends LoginIDBase to manage Passkeys, including listing, renaming, and deleting passkeys.
@@ -26,6 +32,7 @@ import {
   
     /**
      * This method returns list of passkeys associated with the current user. The user must be fully authorized for this call to succeed.
+     * Where supported, the authenticator is told which passkeys are still valid so it can hide passkeys deleted elsewhere.
      *
      * @param {ListPasskeysOptions} options Additional options for listing passkeys.
      * @returns {Promise<PasskeyCollection>} A collection of passkeys.
@@ -69,15 +76,24 @@ import {
     async listPasskeys(
       options: ListPasskeysOptions = {},
     ): Promise<PasskeyCollection> {
-      const token = this.session.getToken(options);
+      const token = await this.session.getValidToken(options);
   
-      return await this.service.passkeys.passkeysPasskeysList({
-        authorization: token,
-      });
+      const passkeys = await withSignal(
+        this.service.passkeys.passkeysPasskeysList({
+          authorization: token,
+        }),
+        options.signal,
+      );
+  
+      await this.signalAcceptedPasskeys(passkeys);
+  
+      return passkeys;
     }
   
     /**
      * Renames a specified passkey by ID. The user must be fully authorized for this call to succeed.
+     * Where supported, the authenticator is then told which passkeys are still valid and, if `options.displayName`
+     * is given, the current user details.
      *
      * @param {string} id The ID of the passkey to rename.
      * @param {string} name The new name for the passkey.
@@ -120,21 +136,45 @@ import {
       name: string,
       options: RenamePasskeyOptions = {},
     ): Promise<void> {
-      const token = this.session.getToken(options);
+      const token = await this.session.getValidToken(options);
   
       const passkeyRenameRequestBody: PasskeyRenameRequestBody = {
         name: name,
       };
   
-      await this.service.passkeys.passkeysPasskeyRename({
-        authorization: token,
-        id: id,
-        requestBody: passkeyRenameRequestBody,
-      });
+      await withSignal(
+        this.service.passkeys.passkeysPasskeyRename({
+          authorization: token,
+          id: id,
+          requestBody: passkeyRenameRequestBody,
+        }),
+        options.signal,
+      );
+  
+      // Keep the authenticator in sync with the renamed account
+      const passkeys = await withSignal(
+        this.service.passkeys.passkeysPasskeysList({
+          authorization: token,
+        }),
+        options.signal,
+      );
+      await this.signalAcceptedPasskeys(passkeys);
+  
+      const userHandle = passkeys[0]?.userHandle;
+      const username = this.session.getSessionInfo()?.username;
+      if (userHandle && username && options.displayName) {
+        await signalCurrentUserDetails(
+          this.config.getRpId(),
+          userHandle,
+          username,
+          options.displayName,
+        );
+      }
     }
   
     /**
      * Delete a specified passkey by ID from LoginID. The user must be fully authorized for this call to succeed.
+     * Where supported, the authenticator is then told to remove the passkey.
      *
      * @param {string} id The ID of the passkey to delete.
      * @param {DeletePasskeyOptions} options Additional options for deleting the passkey.
@@ -174,12 +214,51 @@ import {
       id: string,
       options: DeletePasskeyOptions = {},
     ): Promise<void> {
-      const token = this.session.getToken(options);
+      const token = await this.session.getValidToken(options);
+  
+      // The credential ID is only known while the passkey exists
+      const passkeys = await withSignal(
+        this.service.passkeys.passkeysPasskeysList({
+          authorization: token,
+        }),
+        options.signal,
+      );
+      const credentialId = passkeys.find(
+        (passkey) => passkey.id === id,
+      )?.credentialId;
+  
+      await withSignal(
+        this.service.passkeys.passkeysPasskeyDelete({
+          authorization: token,
+          id: id,
+        }),
+        options.signal,
+      );
   
-      await this.service.passkeys.passkeysPasskeyDelete({
-        authorization: token,
-        id: id,
-      });
+      if (credentialId) {
+        await signalUnknownCredential(this.config.getRpId(), credentialId);
+      }
+    }
+  
+    /**
+     * Tells the authenticator which passkeys of the user are still valid, so it can hide passkeys
+     * deleted elsewhere.
+     *
+     * @param {PasskeyCollection} passkeys All passkeys of the user.
+     * @returns {Promise<void>} A promise that resolves once the signal was sent or skipped.
+     */
+    private async signalAcceptedPasskeys(
+      passkeys: PasskeyCollection,
+    ): Promise<void> {
+      const userHandle = passkeys[0]?.userHandle;
+      const credentialIds = passkeys.map(({ credentialId }) => credentialId);
+      if (userHandle && credentialIds.every(Boolean)) {
+        await signalAllAcceptedCredentials(
+          this.config.getRpId(),
+          userHandle,
+          credentialIds as string[],
+        );
+      }
     }
   }
   
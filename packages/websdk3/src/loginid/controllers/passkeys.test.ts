@@ -0,0 +1,91 @@
+// Copyright (C) LoginID
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "@jest/globals";
+import {
+  MockLoginIDBackend,
+  VirtualAuthenticator,
+} from "@loginid/core/testing";
+import { PasskeyError } from "@loginid/core/errors";
+import { webcrypto } from "node:crypto";
+import LoginIDWebSDK from "..";
+
+const baseUrl = "https://app-1.mock.loginid.io";
+const username = "jane@example.com";
+
+describe("Passkeys", () => {
+  const backend = new MockLoginIDBackend();
+  const authenticator = new VirtualAuthenticator({
+    crypto: webcrypto as Crypto,
+  });
+  let lid: LoginIDWebSDK;
+
+  beforeAll(() => {
+    authenticator.install();
+  });
+
+  afterAll(() => {
+    authenticator.uninstall();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend.reset();
+    authenticator.reset();
+
+    lid = new LoginIDWebSDK({
+      baseUrl,
+      httpRequest: backend.httpRequest,
+      tokenStorage: "memory",
+      disableAnalytics: true,
+    });
+  });
+
+  it("registers a passkey and signs in with it", async () => {
+    const registration = await lid.createPasskey(username);
+    expect(registration.isAuthenticated).toBe(true);
+    expect(authenticator.getCredentials()).toHaveLength(1);
+    expect(backend.getUser(username)?.passkeys).toHaveLength(1);
+
+    lid.logout();
+
+    const authentication = await lid.authenticateWithPasskey(username);
+    expect(authentication.isAuthenticated).toBe(true);
+    expect(authentication.passkeyId).toBe(registration.passkeyId);
+    expect(lid.session.isLoggedIn()).toBe(true);
+  });
+
+  it("offers the fallback methods to users without a passkey", async () => {
+    backend.addUser({ username });
+
+    const result = await lid.authenticateWithPasskey(username);
+
+    expect(result.isAuthenticated).toBe(false);
+    expect(result.isFallback).toBe(true);
+  });
+
+  it("reports authenticator failures as passkey errors", async () => {
+    await lid.createPasskey(username);
+
+    authenticator.failNext("ERROR_PASSKEY_EXISTS");
+    await expect(lid.createPasskey(username)).rejects.toMatchObject({
+      code: "ERROR_PASSKEY_EXISTS",
+    });
+
+    authenticator.failNext("ERROR_GENERAL_ERROR");
+    const error = await lid
+      .authenticateWithPasskey(username)
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error).toMatchObject({
+      code: "ERROR_GENERAL_ERROR",
+      message: "Passkey authentication has failed",
+    });
+  });
+});
@@ -8,8 +8,11 @@ import type {
     CreatePasskeyOptions,
     Otp,
     RequestOtpOptions,
+    UpgradeToPasskeyOptions,
+    UpgradeToPasskeyResult,
   } from "../types";
   import {
+    AuthCode,
     AuthInit,
     AuthInitRequestBody,
     JWT,
@@ -23,13 +26,37 @@ import type {
     passkeyOptions,
     toAuthResult,
   } from "../lib/defaults";
-  import { NO_LOGIN_OPTIONS_ERROR, WebAuthnHelper } from "@loginid/core/webauthn";
-  import { defaultDeviceInfo } from "@loginid/core/utils/browser";
+  import {
+    NO_LOGIN_OPTIONS_ERROR,
+    PasskeyExtensionResults,
+    WebAuthnHelper,
+    getDeviceInfo,
+    getPasskeyCapabilities,
+    signalUnknownCredential,
+  } from "@loginid/core/webauthn";
+  import {
+    assertCanResendOtp,
+    toOtpDestination,
+    toOtpResendInfo,
+    toOtpResendStatus,
+    updateOtpResendInfo,
+  } from "@loginid/core/helpers";
+  import {
+    getOtpResendInfos,
+    mergeFallbackOptions,
+    setOtpResendInfo,
+  } from "../lib/utils";
+  import {
+    CredentialNotFoundError,
+    LoginIDError,
+    PasskeyError,
+  } from "@loginid/core/errors";
   import { DeviceStore, TrustStore } from "@loginid/core/store";
   import { ClientEvents } from "@loginid/core/client-events";
   import { LoginIDConfig } from "@loginid/core/controllers";
   import { parseJwt } from "@loginid/core/utils/crypto";
-  import { mergeFallbackOptions } from "../lib/utils";
+  import { withSignal } from "@loginid/core/http";
+  import { getMessage } from "@loginid/core/i18n";
   import OTP from "./otp";
   
   /**
@@ -96,14 +123,106 @@ import type {
       username: string,
       authzToken: string = "",
       options: CreatePasskeyOptions = {},
+    ): Promise<AuthResult> {
+      return await this.registerPasskey(username, authzToken, options);
+    }
+  
+    /**
+     * Silently creates a passkey for a user who has just signed in, for example with **`validateOtp`** or a saved password.
+     * It uses WebAuthn conditional creation, so the browser creates the passkey without showing a dialog when it considers
+     * the sign-in recent enough, and declines otherwise. The current session token authorizes the registration.
+     *
+     * This method never prompts the user. It does nothing on browsers without conditional creation support or when there
+     * is no session for the given user.
+     *
+     * @param {string} username Username of the signed-in user.
+     * @param {UpgradeToPasskeyOptions} options Additional passkey creation options.
+     * @returns {Promise<UpgradeToPasskeyResult>} Whether a passkey was created, and the result of its creation.
+     * @throws {LoginIDError} If the session token carries no username claim.
+     * @example
+     * ```javascript
+     * import { LoginIDWebSDK } from "@loginid/websdk3";
+     *
+     * const lid = new LoginIDWebSDK({ baseUrl: process.env.BASE_URL });
+     *
+     * async function handleOtpSubmit(username, otp) {
+     *   await lid.validateOtp(username, otp);
+     *
+     *   // Create a passkey in the background for the next sign-in
+     *   const { upgraded } = await lid.upgradeToPasskey(username);
+     *   console.log("Passkey created:", upgraded);
+     * }
+     * ```
+     */
+    async upgradeToPasskey(
+      username: string,
+      options: UpgradeToPasskeyOptions = {},
+    ): Promise<UpgradeToPasskeyResult> {
+      const { conditionalCreate } = await getPasskeyCapabilities();
+      if (!conditionalCreate) {
+        return { upgraded: false };
+      }
+  
+      const opts = passkeyOptions(username, "", options);
+      const authzToken = await this.session.getValidToken(opts);
+      if (!authzToken) {
+        return { upgraded: false };
+      }
+  
+      const tokenUsername = parseJwt(authzToken)?.username;
+      if (typeof tokenUsername !== "string") {
+        throw new LoginIDError(
+          getMessage(
+            "ERROR_SESSION_USERNAME_MISSING",
+            {},
+            this.config.getLocaleOptions(),
+          ),
+          "ERROR_SESSION_USERNAME_MISSING",
+        );
+      }
+      if (tokenUsername !== username) {
+        return { upgraded: false };
+      }
+  
+      try {
+        const authResult = await this.registerPasskey(
+          username,
+          authzToken,
+          options,
+          true,
+        );
+        return { upgraded: true, authResult };
+      } catch (error) {
+        // The browser declines conditional creation without involving the user
+        if (error instanceof PasskeyError) {
+          return { upgraded: false };
+        }
+        throw error;
+      }
+    }
+  
+    /**
+     * Registers a passkey for the user.
+     *
+     * @param {string} username Username to register.
+     * @param {string} authzToken Authorization token for passkey creation.
+     * @param {CreatePasskeyOptions} options Additional passkey creation options.
+     * @param {boolean} [conditional=false] Whether to use conditional creation.
+     * @returns {Promise<AuthResult>} Result of the passkey creation operation.
+     */
+    private async registerPasskey(
+      username: string,
+      authzToken: string,
+      options: CreatePasskeyOptions,
+      conditional: boolean = false,
     ): Promise<AuthResult> {
       const appId = this.config.getAppId();
       const deviceId = DeviceStore.getDeviceId(appId);
-      const deviceInfo = await defaultDeviceInfo(deviceId);
+      const deviceInfo = await getDeviceInfo(deviceId);
       const trustStore = new TrustStore(appId);
       const opts = passkeyOptions(username, authzToken, options);
   
-      opts.authzToken = this.session.getToken(opts);
+      opts.authzToken = await this.session.getValidToken(opts);
       if (opts.authzToken) {
         // guard against username mismatch
         const parsedToken = parseJwt(opts.authzToken);
@@ -128,26 +247,44 @@ import type {
         ...(trustInfo && { trustItems: { auth: trustInfo } }),
       };
   
-      const regInitResponseBody = await this.service.reg.regRegInit({
-        requestBody: regInitRequestBody,
-        ...(opts.authzToken && { authorization: opts.authzToken }),
-      });
+      const regInitResponseBody = await withSignal(
+        this.service.reg.regRegInit({
+          requestBody: regInitRequestBody,
+          ...(opts.authzToken && { authorization: opts.authzToken }),
+        }),
+        options.signal,
+      );
   
       return await this.invokePasskeyApi(
         regInitResponseBody.session,
         async () => {
+          let extensionResults: PasskeyExtensionResults | undefined;
           const regCompleteRequestBody =
-            await WebAuthnHelper.createNavigatorCredential(regInitResponseBody);
+            await WebAuthnHelper.createNavigatorCredential(
+              regInitResponseBody,
+              {
+                conditional,
+                extensions: options.extensions,
+                onExtensionResults: (results) => (extensionResults = results),
+                locale: this.config.getLocaleOptions(),
+              },
+            );
   
           if (options.passkeyName) {
             regCompleteRequestBody.passkeyName = options.passkeyName;
           }
   
-          const regCompleteResponse = await this.service.reg.regRegComplete({
-            requestBody: regCompleteRequestBody,
-          });
+          const regCompleteResponse = await withSignal(
+            this.service.reg.regRegComplete({
+              requestBody: regCompleteRequestBody,
+            }),
+            options.signal,
+          );
   
           const result: AuthResult = toAuthResult(regCompleteResponse);
+          if (options.extensions) {
+            result.extensionResults = extensionResults;
+          }
   
           this.session.setJwtCookie(regCompleteResponse.jwtAccess);
           DeviceStore.persistDeviceId(
@@ -208,7 +345,7 @@ import type {
       options: AuthenticateWithPasskeysOptions = {},
     ): Promise<AuthResult> {
       const appId = this.config.getAppId();
-      const deviceInfo = await defaultDeviceInfo(DeviceStore.getDeviceId(appId));
+      const deviceInfo = await getDeviceInfo(DeviceStore.getDeviceId(appId));
       const trustStore = new TrustStore(appId);
       const opts = passkeyOptions(username, "", options);
   
@@ -228,9 +365,12 @@ import type {
         ...(trustInfo && { trustItems: { auth: trustInfo } }),
       };
   
-      const authInitResponseBody = await this.service.auth.authAuthInit({
-        requestBody: authInitRequestBody,
-      });
+      const authInitResponseBody = await withSignal(
+        this.service.auth.authAuthInit({
+          requestBody: authInitRequestBody,
+        }),
+        options.signal,
+      );
   
       switch (authInitResponseBody.action) {
         case "proceed": {
@@ -238,18 +378,42 @@ import type {
           return await this.invokePasskeyApi(
             authInitResponseBody.session,
             async () => {
+              let extensionResults: PasskeyExtensionResults | undefined;
               const authCompleteRequestBody =
                 await WebAuthnHelper.getNavigatorCredential(
                   authInitResponseBody,
-                  options,
+                  {
+                    ...options,
+                    onExtensionResults: (results) =>
+                      (extensionResults = results),
+                    locale: this.config.getLocaleOptions(),
+                  },
                 );
   
-              const authCompleteResponse =
-                await this.service.auth.authAuthComplete({
-                  requestBody: authCompleteRequestBody,
-                });
+              let authCompleteResponse: JWT;
+              try {
+                authCompleteResponse = await withSignal(
+                  this.service.auth.authAuthComplete({
+                    requestBody: authCompleteRequestBody,
+                  }),
+                  options.signal,
+                );
+              } catch (error) {
+                // LoginID does not know the credential, so the authenticator should stop offering it
+                if (error instanceof CredentialNotFoundError) {
+                  await signalUnknownCredential(
+                    authInitResponseBody.assertionOptions.rpId ||
+                      this.config.getRpId(),
+                    authCompleteRequestBody.assertionResult.credentialId,
+                  );
+                }
+                throw error;
+              }
   
               const result = toAuthResult(authCompleteResponse);
+              if (options.extensions) {
+                result.extensionResults = extensionResults;
+              }
   
               this.session.setJwtCookie(result.token);
   
@@ -333,6 +497,7 @@ import type {
      * @param {string} username The username used for passkey authentication and OTP request.
      * @param {RequestOtpOptions} options Additional request OTP options.
      * @returns {Promise<Otp>} Result of the request OTP operation returning an OTP and expiry time.
+     * The result also tells when another OTP may be requested; requesting one earlier fails with an `OtpResendTooEarlyError`.
      * @example
      * ```javascript
      * import { LoginIDWebSDK } from "@loginid/websdk3";
@@ -372,7 +537,13 @@ import type {
       username: string,
       options: RequestOtpOptions = {},
     ): Promise<Otp> {
-      options.authzToken = this.session.getToken(options);
+      const appId = this.config.getAppId();
+      // The code is returned to the caller instead of being sent
+      const destination = toOtpDestination("code");
+      const info = getOtpResendInfos(appId, username)?.[destination];
+      assertCanResendOtp(info, this.config.getLocaleOptions());
+  
+      options.authzToken = await this.session.getValidToken(options);
       // if no token is found, perform authentication
       if (!options.authzToken) {
         const result = await this.authenticateWithPasskey(username, options);
@@ -380,9 +551,29 @@ import type {
         options.authzToken = result.token;
       }
   
-      const result: Otp = await this.service.auth.authAuthCodeRequest({
-        authorization: options.authzToken,
-      });
+      let authCode: AuthCode;
+      try {
+        authCode = await withSignal(
+          this.service.auth.authAuthCodeRequest({
+            authorization: options.authzToken,
+          }),
+          options.signal,
+        );
+      } catch (error) {
+        setOtpResendInfo(
+          appId,
+          username,
+          destination,
+          updateOtpResendInfo(info, error),
+        );
+        throw error;
+      }
+  
+      const { otpResendCooldownMs } = this.config.getConfig();
+      const newInfo = toOtpResendInfo({}, otpResendCooldownMs);
+      setOtpResendInfo(appId, username, destination, newInfo);
+  
+      const result: Otp = { ...authCode, ...toOtpResendStatus(newInfo) };
   
       return result;
     }
@@ -466,9 +657,12 @@ import type {
         txType: opts.txType,
       };
   
-      const { assertionOptions, session } = await this.service.tx.txTxInit({
-        requestBody: txInitRequestBody,
-      });
+      const { assertionOptions, session } = await withSignal(
+        this.service.tx.txTxInit({
+          requestBody: txInitRequestBody,
+        }),
+        options.signal,
+      );
   
       const authInitResponseBody: AuthInit = {
         action: "proceed",
@@ -482,7 +676,9 @@ import type {
         authInitResponseBody.session,
         async () => {
           const { assertionResult } =
-            await WebAuthnHelper.getNavigatorCredential(authInitResponseBody);
+            await WebAuthnHelper.getNavigatorCredential(authInitResponseBody, {
+              locale: this.config.getLocaleOptions(),
+            });
   
           const txCompleteRequestBody: TxCompleteRequestBody = {
             authenticatorData: assertionResult.authenticatorData,
@@ -492,9 +688,12 @@ import type {
             signature: assertionResult.signature,
           };
   
-          const result = await this.service.tx.txTxComplete({
-            requestBody: txCompleteRequestBody,
-          });
+          const result = await withSignal(
+            this.service.tx.txTxComplete({
+              requestBody: txCompleteRequestBody,
+            }),
+            options.signal,
+          );
   
           return result;
         },
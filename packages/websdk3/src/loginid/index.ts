@@ -1,17 +1,81 @@
 // Copyright (C) LoginID
 
+import {
+  LoginIDConfig,
+  MfaFactorName,
+  MfaPerformActionOptions,
+  MfaSessionResult,
+  StepUpOptions,
+  StepUpResult,
+} from "@loginid/core/controllers";
 import { LoginIDBase, Utils } from "@loginid/core/controllers";
 import PasskeyManager from "./controllers/passkey-manager";
-import { LoginIDConfig } from "@loginid/core/controllers";
 import { applyMixins } from "@loginid/core/helpers";
+import { LoginIDMfa } from "@loginid/core/mfa";
 import Passkeys from "./controllers/passkeys";
 import OTP from "./controllers/otp";
 
 interface LoginIDWebSDK extends Passkeys, OTP, PasskeyManager, Utils {}
 
 class LoginIDWebSDK extends LoginIDBase {
+  /**
+   * The MFA controller backing `stepUp`. It shares this instance's session, so tokens and session
+   * events stay in one place.
+   */
+  private readonly mfa: LoginIDMfa;
+
   constructor(config: LoginIDConfig) {
     super(config);
+    this.mfa = new LoginIDMfa(config, this.session);
+  }
+
+  /**
+   * Re-verifies the signed-in user before a sensitive action.
+   *
+   * If the user authenticated within `options.maxAge` seconds with all of `options.requiredFactors`,
+   * the current tokens are returned. Otherwise an MFA flow bound to the signed-in user is begun,
+   * asking only for the missing factors. If it is not complete, continue it with `performAction`.
+   *
+   * @param {StepUpOptions} [options={}] - The step-up requirements.
+   * @returns {Promise<StepUpResult>} - A promise resolving to the current or stepped-up session result.
+   * @throws {LoginIDError} If no user is signed in.
+   *
+   * @example
+   * ```javascript
+   * const lid = new LoginIDWebSDK(config);
+   *
+   * let result = await lid.stepUp({ maxAge: 300, requiredFactors: ["passkey"] });
+   *
+   * if (!result.isComplete) {
+   *   result = await lid.performAction(result.nextAction);
+   * }
+   * ```
+   */
+  async stepUp(options: StepUpOptions = {}): Promise<StepUpResult> {
+    return await this.mfa.stepUp(options);
+  }
+
+  /**
+   * Performs a factor of the MFA flow begun by `stepUp`.
+   *
+   * @param {MfaFactorName} factorName - The MFA factor being performed (e.g., `"passkey"`, `"otp:email"`).
+   * @param {MfaPerformActionOptions} [options={}] - The options containing session and payload data for the MFA factor.
+   * @returns {Promise<MfaSessionResult>} - A promise resolving to the updated MFA session result.
+   */
+  async performAction(
+    factorName: MfaFactorName,
+    options: MfaPerformActionOptions = {},
+  ): Promise<MfaSessionResult> {
+    return await this.mfa.performAction(factorName, options);
+  }
+
+  /**
+   * Retrieves the details of the MFA flow begun by `stepUp`.
+   *
+   * @returns {MfaSessionResult} - The current MFA session details, including session status and tokens.
+   */
+  getMfaSessionDetails(): MfaSessionResult {
+    return this.mfa.getMfaSessionDetails();
   }
 }
 
@@ -36,12 +36,12 @@ import {
    *
    * @param {string} username Username for which the transaction confirmation options are being created.
    * @param {ConfirmTransactionOptions} options Options to merge with default values.
-   * @returns {Complete<ConfirmTransactionOptions>} The complete set of transaction confirmation options with defaults applied.
+   * @returns {Complete<Omit<ConfirmTransactionOptions, "signal">>} The complete set of transaction confirmation options with defaults applied.
    */
   export const confirmTransactionOptions = (
     username: string,
     options: ConfirmTransactionOptions,
-  ): Complete<ConfirmTransactionOptions> => {
+  ): Complete<Omit<ConfirmTransactionOptions, "signal">> => {
     return {
       ...passkeyOptions(username, "", options),
       txType: options.txType || "raw",
@@ -1,8 +1,15 @@
 // Copyright (C) LoginID
 
+import { OtpResendInfo, OtpResendInfos } from "@loginid/core/controllers";
+import { withOtpResendInfo } from "@loginid/core/helpers";
 import { AuthInit } from "@loginid/core/api";
 import { FallbackOptions } from "../types";
 
+/**
+ * The resend state of the OTPs requested for each user on this page, keyed by app ID and username.
+ */
+const otpResendInfos = new Map<string, OtpResendInfos>();
+
 /**
  * Combines the fallback and cross-authentication methods from the authentication initialization response
  * into a single array representing all available alternative authentication methods.
@@ -15,3 +22,48 @@ export const mergeFallbackOptions = (
 ): FallbackOptions => {
   return [...authInitRes.crossAuthMethods, ...authInitRes.fallbackMethods];
 };
+
+/**
+ * Returns the resend state of the OTPs requested for a user, keyed by destination.
+ *
+ * @param {string} appId The app ID.
+ * @param {string} username The username of the user.
+ * @returns {OtpResendInfos | undefined} The resend states, if an OTP was requested on this page.
+ */
+export const getOtpResendInfos = (
+  appId: string,
+  username: string,
+): OtpResendInfos | undefined => {
+  return otpResendInfos.get(`${appId}:${username}`);
+};
+
+/**
+ * Stores the resend state of the last OTP requested for a user to a destination, or clears it if omitted.
+ *
+ * @param {string} appId The app ID.
+ * @param {string} username The username of the user.
+ * @param {string} destination The destination of the OTP.
+ * @param {OtpResendInfo} [info] The resend state.
+ */
+export const setOtpResendInfo = (
+  appId: string,
+  username: string,
+  destination: string,
+  info?: OtpResendInfo,
+) => {
+  const key = `${appId}:${username}`;
+  otpResendInfos.set(
+    key,
+    withOtpResendInfo(otpResendInfos.get(key), destination, info),
+  );
+};
+
+/**
+ * Clears the resend state of all OTPs requested for a user.
+ *
+ * @param {string} appId The app ID.
+ * @param {string} username The username of the user.
+ */
+export const clearOtpResendInfos = (appId: string, username: string) => {
+  otpResendInfos.delete(`${appId}:${username}`);
+};
@@ -6,7 +6,15 @@ import {
     CreationResult,
     DeviceInfo,
   } from "@loginid/core/api";
-  import { UsernameType } from "@loginid/core/controllers";
+  import {
+    PasskeyExtensionInputs,
+    PasskeyExtensionResults,
+  } from "@loginid/core/webauthn";
+  import {
+    AutoReadSmsOtpOptions,
+    OtpResendStatus,
+    UsernameType,
+  } from "@loginid/core/controllers";
   
   export type Complete<T> = {
     [P in keyof T]-?: T[P];
@@ -54,6 +62,11 @@ import {
      * The type of username validation to be used. Defaults to **`other`**.
      */
     usernameType?: UsernameType;
+  
+    /**
+     * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+     */
+    signal?: AbortSignal;
     // disable hints for now
     //hints?: string[]
   }
@@ -66,6 +79,11 @@ import {
      * Authorization token used for authorizing passkey management actions.
      */
     authzToken?: string;
+  
+    /**
+     * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+     */
+    signal?: AbortSignal;
   }
   
   /**
@@ -80,7 +98,13 @@ import {
    *
    * @expand
    */
-  export interface RenamePasskeyOptions extends PasskeyManagementOptions {}
+  export interface RenamePasskeyOptions extends PasskeyManagementOptions {
+    /**
+     * The user's display name, reported to the authenticator with the username so passkey pickers show
+     * current account details. If omitted, the user details are not reported.
+     */
+    displayName?: string;
+  }
   
   /**
    * Delete passkeys options.
@@ -105,6 +129,12 @@ import {
      * Pass this if additional passkeys API calls may be anticipated on the current context page.
      */
     abortController?: AbortController;
+  
+    /**
+     * WebAuthn extensions to evaluate, such as **`prf`** to derive encryption keys or **`largeBlob`** to read or write a blob.
+     * The results are returned in **`extensionResults`**.
+     */
+    extensions?: PasskeyExtensionInputs;
   }
   
   /**
@@ -136,6 +166,36 @@ import {
      * Indicates that the credential should be a cross-platform FIDO credential (e.g., a hardware security key or a hybrid passkey).
      */
     crossPlatform?: boolean;
+  
+    /**
+     * WebAuthn extensions to request, such as **`prf`**, **`largeBlob`** or **`credProps`**.
+     * The results are returned in **`extensionResults`**.
+     */
+    extensions?: PasskeyExtensionInputs;
+  }
+  
+  /**
+   * Upgrade to passkey options.
+   *
+   * @expand
+   */
+  export interface UpgradeToPasskeyOptions
+    extends Omit<CreatePasskeyOptions, "crossPlatform"> {}
+  
+  /**
+   * The result of **`upgradeToPasskey`**.
+   */
+  export interface UpgradeToPasskeyResult {
+    /**
+     * Indicates whether a passkey was created. **`false`** if the browser does not support automatic passkey creation,
+     * there is no session for the user, or the browser declined to create the passkey.
+     */
+    upgraded: boolean;
+  
+    /**
+     * The result of the passkey creation, if a passkey was created.
+     */
+    authResult?: AuthResult;
   }
   
   /**
@@ -165,6 +225,20 @@ import {
      * The type of username validation to be used. Defaults to **`other`**.
      */
     usernameType?: UsernameType;
+  
+    /**
+     * For **`sms`**, waits in the background for the SMS with the WebOTP API and validates the code
+     * with **`validateOtp`** once it arrives, reporting the result to its callbacks. The call resolves as
+     * soon as the SMS was requested, so the code can still be entered by hand; waiting stops once a
+     * code is validated. `signal` also stops waiting. See `AutoReadSmsOtpOptions` for the SMS format
+     * the backend must send.
+     */
+    autoReadSmsOtp?: AutoReadSmsOtpOptions<AuthResult>;
+  
+    /**
+     * An AbortSignal that cancels the pending API requests of this call, rejecting with an `AbortError`.
+     */
+    signal?: AbortSignal;
   }
   
   /**
@@ -180,12 +254,18 @@ import {
    *
    * @expand
    */
-  export interface ValidateOtpOptions extends RequestAndSendOtpOptions {}
+  export interface ValidateOtpOptions
+    extends Omit<RequestAndSendOtpOptions, "autoReadSmsOtp"> {}
   
   /**
    * The result after requesting an OTP with **`requestOtp`**.
    */
-  export interface Otp extends AuthCode {}
+  export interface Otp extends AuthCode, OtpResendStatus {}
+  
+  /**
+   * The result after sending an OTP with **`requestAndSendOtp`**.
+   */
+  export interface OtpDelivery extends OtpResendStatus {}
   
   /**
    * The result after a successful authentication process either with passkeys or OTP.
@@ -228,6 +308,12 @@ import {
      * providing suggested authentications to use instead.
      */
     fallbackOptions?: FallbackOptions;
+  
+    /**
+     * The client extension results of the passkey ceremony, if extensions were requested in the options.
+     * PRF outputs and large blobs stay on the client and are never sent to LoginID.
+     */
+    extensionResults?: PasskeyExtensionResults;
   }
   
   export { ApiError };